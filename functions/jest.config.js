@@ -8,7 +8,7 @@ module.exports = {
     '!src/**/*.d.ts',
     '!src/index.ts',
   ],
-  setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'], // Uses real Firebase setup
+  setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup/setup.ts'], // Uses real Firebase setup
   testTimeout: 10000,
   transform: {
     '^.+\\.ts$': 'ts-jest'
@@ -6,13 +6,19 @@ import {
   cleanupTestData,
 } from "../setup/unit-setup";
 import {BalanceController} from "../../controllers/balanceController";
-import {updateUserBalance} from "../../services/firestore";
+import {
+  getBalanceHistory,
+  updateUserBalance,
+} from "../../services/firestore";
 
 // Mock the firestore service
 jest.mock("../../services/firestore");
 const mockUpdateUserBalance = updateUserBalance as jest.MockedFunction<
   typeof updateUserBalance
 >;
+const mockGetBalanceHistory = getBalanceHistory as jest.MockedFunction<
+  typeof getBalanceHistory
+>;
 
 describe("Balance Controller (Unit Tests)", () => {
   let testUserId: string;
@@ -46,6 +52,9 @@ describe("Balance Controller (Unit Tests)", () => {
   });
 
   describe("updateUserBalance", () => {
+    const type = "correction";
+    const reason = "Counted the wrong tab";
+
     it("should update user balance successfully", async () => {
       // Arrange
       const amount = 25.50;
@@ -58,11 +67,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -75,7 +86,9 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockStatus).toHaveBeenCalledWith(200);
       expect(mockJson).toHaveBeenCalledWith({
@@ -83,7 +96,10 @@ describe("Balance Controller (Unit Tests)", () => {
         details: {
           groupId: testGroupId,
           userId: testUserId,
+          adjustmentId: "adjustment123",
           amount,
+          type,
+          reason,
           adminUserId,
         },
       });
@@ -101,11 +117,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -118,7 +136,9 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockStatus).toHaveBeenCalledWith(200);
     });
@@ -135,11 +155,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -152,7 +174,9 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockStatus).toHaveBeenCalledWith(200);
     });
@@ -169,11 +193,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -186,7 +212,9 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockStatus).toHaveBeenCalledWith(200);
     });
@@ -203,11 +231,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -220,7 +250,9 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockStatus).toHaveBeenCalledWith(200);
     });
@@ -237,11 +269,13 @@ describe("Balance Controller (Unit Tests)", () => {
         },
         body: {
           amount,
-          adminUserId,
+          type,
+          reason,
         },
+        user: {uid: adminUserId},
       };
 
-      mockUpdateUserBalance.mockResolvedValue(undefined);
+      mockUpdateUserBalance.mockResolvedValue("adjustment123");
 
       // Act
       await BalanceController.updateUserBalance(
@@ -254,17 +288,64 @@ describe("Balance Controller (Unit Tests)", () => {
         testGroupId,
         testUserId,
         amount,
-        adminUserId
+        adminUserId,
+        type,
+        reason
       );
       expect(mockJson).toHaveBeenCalledWith({
         message: "User balance updated successfully",
         details: {
           groupId: testGroupId,
           userId: testUserId,
+          adjustmentId: "adjustment123",
           amount,
+          type,
+          reason,
           adminUserId,
         },
       });
     });
   });
+
+  describe("getBalanceHistory", () => {
+    it("should return the balance with a page of history", async () => {
+      // Arrange
+      const entry = {entryId: "adjustment123", type: "debt-added", amount: -5};
+      mockRequest = {
+        params: {
+          groupId: testGroupId,
+          userId: testUserId,
+        },
+        query: {limit: 20} as unknown as Request["query"],
+      };
+
+      mockGetBalanceHistory.mockResolvedValue({
+        balance: -5,
+        items: [entry],
+        nextCursor: null,
+      });
+
+      // Act
+      await BalanceController.getBalanceHistory(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockGetBalanceHistory).toHaveBeenCalledWith(
+        testGroupId,
+        testUserId,
+        {limit: 20}
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith({
+        groupId: testGroupId,
+        userId: testUserId,
+        balance: -5,
+        history: [entry],
+        count: 1,
+        nextCursor: null,
+      });
+    });
+  });
 });
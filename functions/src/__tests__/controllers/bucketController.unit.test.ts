@@ -0,0 +1,86 @@
+import {Request, Response} from "express";
+import {BucketController} from "../../controllers/bucketController";
+import {reverseConsumption} from "../../services/firestore";
+
+// Mock the firestore service
+jest.mock("../../services/firestore");
+const mockReverseConsumption = reverseConsumption as jest.MockedFunction<
+  typeof reverseConsumption
+>;
+
+describe("Bucket Controller (Unit Tests)", () => {
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  beforeEach(() => {
+    mockJson = jest.fn().mockReturnThis();
+    mockStatus = jest.fn().mockReturnThis();
+    mockResponse = {
+      status: mockStatus,
+      json: mockJson,
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe("reverseConsumption", () => {
+    const reversal = {
+      consumptionId: "consumption123",
+      userId: "member-id",
+      units: 2,
+      bucketId: "bucket123",
+      refundedCharge: 0,
+    };
+
+    const buildRequest = (role: "member" | "admin" | "owner"): Request => ({
+      params: {groupId: "group123", consumptionId: "consumption123"},
+      body: {reason: "Tapped twice"},
+      user: {uid: "caller-id"},
+      membership: {groupId: "group123", userId: "caller-id", role},
+    } as unknown as Request);
+
+    it("should reverse the record as a member without admin rights",
+      async () => {
+        mockReverseConsumption.mockResolvedValue(reversal);
+
+        await BucketController.reverseConsumption(
+          buildRequest("member"),
+          mockResponse as Response
+        );
+
+        expect(mockReverseConsumption).toHaveBeenCalledWith(
+          "group123",
+          "consumption123",
+          "caller-id",
+          false,
+          "Tapped twice"
+        );
+        expect(mockStatus).toHaveBeenCalledWith(200);
+        expect(mockJson).toHaveBeenCalledWith({
+          message: "Consumption reversed successfully",
+          ...reversal,
+          reversedBy: "caller-id",
+        });
+      });
+
+    it("should pass admin rights for admins and owners", async () => {
+      mockReverseConsumption.mockResolvedValue(reversal);
+
+      for (const role of ["admin", "owner"] as const) {
+        await BucketController.reverseConsumption(
+          buildRequest(role),
+          mockResponse as Response
+        );
+
+        expect(mockReverseConsumption).toHaveBeenLastCalledWith(
+          "group123",
+          "consumption123",
+          "caller-id",
+          true,
+          "Tapped twice"
+        );
+      }
+    });
+  });
+});
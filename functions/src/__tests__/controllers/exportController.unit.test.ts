@@ -0,0 +1,164 @@
+import {Request, Response} from "express";
+import {ExportController} from "../../controllers/exportController";
+import {GroupExport, getGroupExport} from "../../services/firestore";
+
+// Mock the firestore service
+jest.mock("../../services/firestore");
+const mockGetGroupExport = getGroupExport as jest.MockedFunction<
+  typeof getGroupExport
+>;
+
+/**
+ * Wraps records in an async iterable, like the service's paged readers
+ *
+ * @param {Array} records - The records to yield
+ * @return {AsyncIterable} The records as an async iterable
+ */
+async function* asAsync(records: Record<string, unknown>[]) {
+  for (const record of records) {
+    yield record;
+  }
+}
+
+describe("Export Controller (Unit Tests)", () => {
+  let output: string;
+  let mockResponse: Partial<Response>;
+
+  const exportedAt = new Date("2026-10-18T09:00:00Z");
+  const buildExport = (): GroupExport => ({
+    group: {
+      groupId: "group123",
+      name: "Office",
+      currency: "EUR",
+      unitLabel: "coffees",
+      from: null,
+      to: null,
+      exportedAt,
+    },
+    sections: [
+      {
+        section: "members",
+        records: asAsync([{
+          userId: "alice",
+          displayName: "Alice",
+          role: "owner",
+          balance: -4.5,
+          joinedAt: exportedAt,
+        }]),
+      },
+      {section: "buckets", records: asAsync([])},
+      {section: "consumption", records: asAsync([])},
+      {
+        section: "transactions",
+        records: asAsync([{
+          transactionId: "tx1",
+          userId: "alice",
+          displayName: "Alice",
+          type: "expense",
+          amount: 12,
+          category: "supplies",
+          comment: "Milk, oat",
+          receiptNote: null,
+          balanceBefore: 30,
+          balanceAfter: 18,
+          createdAt: exportedAt,
+        }]),
+      },
+      {
+        section: "balanceAdjustments",
+        records: asAsync([{
+          adjustmentId: "adj1",
+          userId: "alice",
+          displayName: "Alice",
+          type: "payment-received",
+          amount: 5,
+          balanceBefore: -9.5,
+          balanceAfter: -4.5,
+          reason: "Cash",
+          adjustedBy: "bob",
+          adjustedByName: "Bob",
+          createdAt: exportedAt,
+        }]),
+      },
+    ],
+  });
+
+  const buildRequest = (format: "csv" | "json"): Request => ({
+    params: {groupId: "group123"},
+    query: {format},
+  } as unknown as Request);
+
+  beforeEach(() => {
+    output = "";
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      write: jest.fn((chunk: string) => {
+        output += chunk;
+        return true;
+      }) as unknown as Response["write"],
+      end: jest.fn() as unknown as Response["end"],
+      destroyed: false,
+    };
+    jest.clearAllMocks();
+  });
+
+  it("should stream every section as one CSV file", async () => {
+    mockGetGroupExport.mockResolvedValue(buildExport());
+
+    await ExportController.exportGroupData(
+      buildRequest("csv"),
+      mockResponse as Response
+    );
+
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      "Content-Disposition",
+      "attachment; filename=\"group-group123-2026-10-18.csv\""
+    );
+    expect(output.split("\r\n")).toEqual([
+      "section,id,date,userId,displayName,type,units,amount," +
+        "balanceBefore,balanceAfter,note",
+      "members,alice,2026-10-18T09:00:00.000Z,alice,Alice,owner,,-4.5,,,",
+      "transactions,tx1,2026-10-18T09:00:00.000Z,alice,Alice,expense,,12," +
+        "30,18,\"supplies - Milk, oat\"",
+      "balanceAdjustments,adj1,2026-10-18T09:00:00.000Z,alice,Alice," +
+        "payment-received,,5,-9.5,-4.5,Cash - by Bob",
+      "",
+    ]);
+    expect(mockResponse.end).toHaveBeenCalled();
+  });
+
+  it("should stream valid JSON with an array per section", async () => {
+    mockGetGroupExport.mockResolvedValue(buildExport());
+
+    await ExportController.exportGroupData(
+      buildRequest("json"),
+      mockResponse as Response
+    );
+
+    const parsed = JSON.parse(output);
+    expect(parsed.group.currency).toBe("EUR");
+    expect(parsed.members).toHaveLength(1);
+    expect(parsed.buckets).toEqual([]);
+    expect(parsed.transactions[0].transactionId).toBe("tx1");
+    expect(Object.keys(parsed)).toEqual([
+      "group",
+      "members",
+      "buckets",
+      "consumption",
+      "transactions",
+      "balanceAdjustments",
+    ]);
+  });
+
+  it("should not start a response when the group cannot be read",
+    async () => {
+      mockGetGroupExport.mockRejectedValue(new Error("Group not found"));
+
+      await expect(ExportController.exportGroupData(
+        buildRequest("csv"),
+        mockResponse as Response
+      )).rejects.toThrow("Group not found");
+      expect(mockResponse.write).not.toHaveBeenCalled();
+    });
+});
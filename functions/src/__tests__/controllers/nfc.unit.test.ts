@@ -8,6 +8,8 @@ import {
   nfcConsumptionSchema,
   nfcProfileUpdateSchema,
   phoneNumberParamSchema,
+  registerNfcTagSchema,
+  updateNfcTagSchema,
 } from "../../schemas/validationSchemas";
 
 describe("NFC Functionality (Unit Tests)", () => {
@@ -84,6 +86,34 @@ describe("NFC Functionality (Unit Tests)", () => {
       const result = phoneNumberParamSchema.validate(invalidData);
       expect(result.error).toBeDefined();
     });
+
+    it("should take the group and amount from a registered tag", () => {
+      const result = nfcConsumptionSchema.validate({tagId: "Xy7Tag42"});
+      expect(result.error).toBeUndefined();
+
+      // A tag's group and amount cannot be overridden by the request
+      const override = nfcConsumptionSchema.validate({
+        tagId: "Xy7Tag42",
+        amount: 5,
+      });
+      expect(override.error?.message).toBe("Amount comes from the NFC tag");
+    });
+
+    it("should default a new tag to one unit per tap", () => {
+      const result = registerNfcTagSchema.validate({label: "Fridge 2"});
+      expect(result.error).toBeUndefined();
+      expect(result.value).toEqual({label: "Fridge 2", amount: 1});
+
+      expect(registerNfcTagSchema.validate({amount: 2}).error?.message)
+        .toBe("Tag label is required");
+    });
+
+    it("should require a change when updating a tag", () => {
+      expect(updateNfcTagSchema.validate({enabled: false}).error)
+        .toBeUndefined();
+      expect(updateNfcTagSchema.validate({}).error?.message)
+        .toBe("Provide at least one tag setting to update");
+    });
   });
 
   describe("NFC Data Flow", () => {
@@ -1,17 +1,28 @@
 import * as supertest from "supertest";
 import {testEnv, createTestUser, cleanupTestData} from "../setup/unit-setup";
 import {app} from "../../app";
+import {setTokenVerifier, resetTokenVerifier} from "../../middleware/auth";
 
 const api = supertest(app);
 
+// Fake tokens are the caller's UID
+let tokenCounter = 0;
+const newUserAuth = (): string =>
+  `Bearer new-user-${Date.now()}-${++tokenCounter}`;
+
 describe("User Controller", () => {
   let testUserId: string;
 
+  beforeAll(() => {
+    setTokenVerifier(async (token) => ({uid: token}));
+  });
+
   beforeEach(async () => {
     await cleanupTestData();
   });
 
   afterAll(async () => {
+    resetTokenVerifier();
     await cleanupTestData();
     testEnv.cleanup();
   });
@@ -26,6 +37,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(201);
 
@@ -41,6 +53,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(400);
 
@@ -55,6 +68,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(400);
 
@@ -70,6 +84,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(400);
 
@@ -85,6 +100,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(400);
 
@@ -104,6 +120,7 @@ describe("User Controller", () => {
     it("should return user details for valid userId", async () => {
       const response = await api
         .get(`/users/${testUserId}`)
+        .set("Authorization", `Bearer ${testUserId}`)
         .expect(200);
 
       expect(response.body).toHaveProperty("id", testUserId);
@@ -119,6 +136,7 @@ describe("User Controller", () => {
 
       const response = await api
         .get(`/users/${nonExistentId}`)
+        .set("Authorization", `Bearer ${nonExistentId}`)
         .expect(404);
 
       expect(response.body).toHaveProperty("error");
@@ -131,12 +149,24 @@ describe("User Controller", () => {
 
       const response = await api
         .get(`/users/${invalidId}`)
+        .set("Authorization", `Bearer ${invalidId}`)
         .expect(400);
 
       expect(response.body).toHaveProperty("error");
     });
   });
 
+  describe("Authentication", () => {
+    it("should return 401 without an ID token", async () => {
+      const response = await api
+        .post("/users/new")
+        .send({displayName: "John Doe", email: "john@example.com"})
+        .expect(401);
+
+      expect(response.body).toHaveProperty("error");
+    });
+  });
+
   describe("Edge Cases and Integration", () => {
     // 🔴 RED: Write failing tests for edge cases
     it("should handle concurrent user creation", async () => {
@@ -145,10 +175,11 @@ describe("User Controller", () => {
         email: "concurrent@example.com",
       };
 
+      const auth = newUserAuth();
       const promises = [
-        api.post("/users/new").send(userData),
-        api.post("/users/new").send(userData),
-        api.post("/users/new").send(userData),
+        api.post("/users/new").set("Authorization", auth).send(userData),
+        api.post("/users/new").set("Authorization", auth).send(userData),
+        api.post("/users/new").set("Authorization", auth).send(userData),
       ];
 
       const responses = await Promise.all(promises);
@@ -166,6 +197,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(201);
 
@@ -181,6 +213,7 @@ describe("User Controller", () => {
 
       const response = await api
         .post("/users/new")
+        .set("Authorization", newUserAuth())
         .send(userData)
         .expect(201);
 
@@ -0,0 +1,112 @@
+import {admin} from "../setup/setup";
+import {
+  createUser,
+  createGroup,
+  addUserToGroup,
+  purchaseBuckets,
+  recordConsumption,
+} from "../../services/firestore";
+
+/**
+ * Concurrency tests for recordConsumption
+ *
+ * These tests fire many simultaneous consumption requests at the same
+ * member and check that no units are lost or oversold. They need the
+ * Firestore emulator, since transaction contention cannot be exercised
+ * safely against a shared database:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npx jest consumptionConcurrency
+ */
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ?
+  describe :
+  describe.skip;
+
+describeWithEmulator("Concurrent consumption (Firestore emulator)", () => {
+  let groupId: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = await createUser("Concurrent Tapper", "tapper@example.com");
+    groupId = await createGroup("Concurrency Group");
+    await addUserToGroup(userId, groupId);
+  });
+
+  /**
+   * Sums consumed and remaining units for the test member
+   *
+   * @return {Promise<{consumed: number, remaining: number, records: number}>}
+   */
+  const getUnitTotals = async () => {
+    const groupRef = admin.firestore().collection("groups").doc(groupId);
+    const [consumptionSnapshot, bucketsSnapshot] = await Promise.all([
+      groupRef.collection("consumption").where("userId", "==", userId).get(),
+      groupRef.collection("buckets").where("userId", "==", userId).get(),
+    ]);
+
+    return {
+      consumed: consumptionSnapshot.docs
+        .reduce((sum, doc) => sum + doc.data().units, 0),
+      remaining: bucketsSnapshot.docs
+        .reduce((sum, doc) => sum + doc.data().remainingUnits, 0),
+      records: consumptionSnapshot.size,
+    };
+  };
+
+  /**
+   * Collects the error messages of the rejected requests
+   *
+   * @param {PromiseSettledResult<unknown>[]} results - The settled requests
+   * @return {string[]} The rejection messages
+   */
+  const getRejectionMessages = (results: PromiseSettledResult<unknown>[]) =>
+    results
+      .filter((result): result is PromiseRejectedResult =>
+        result.status === "rejected"
+      )
+      .map((result) => String(result.reason?.message ?? result.reason));
+
+  it("should not lose or oversell units across bucket rollover",
+    async () => {
+      await purchaseBuckets(groupId, userId, 2, 3);
+
+      const results = await Promise.allSettled(
+        Array.from({length: 10}, () => recordConsumption(groupId, userId, 1))
+      );
+      const succeeded = results
+        .filter((result) => result.status === "fulfilled").length;
+      const rejections = getRejectionMessages(results);
+
+      const totals = await getUnitTotals();
+
+      // Every unit is sold exactly once; the rest run out of units
+      expect(succeeded).toBe(6);
+      expect(rejections).toHaveLength(4);
+      rejections.forEach((message) => {
+        expect(message).toContain("Insufficient units");
+      });
+      expect(totals.records).toBe(6);
+      expect(totals.consumed).toBe(6);
+      expect(totals.remaining).toBe(0);
+    }, 30000);
+
+  it("should only let one of two competing requests spend the last units",
+    async () => {
+      await purchaseBuckets(groupId, userId, 1, 3);
+
+      const results = await Promise.allSettled([
+        recordConsumption(groupId, userId, 2),
+        recordConsumption(groupId, userId, 2),
+      ]);
+      const succeeded = results
+        .filter((result) => result.status === "fulfilled").length;
+      const rejections = getRejectionMessages(results);
+
+      const totals = await getUnitTotals();
+
+      expect(succeeded).toBe(1);
+      expect(rejections).toHaveLength(1);
+      expect(rejections[0]).toContain("Insufficient units");
+      expect(totals.consumed).toBe(2);
+      expect(totals.remaining).toBe(1);
+    }, 30000);
+});
@@ -0,0 +1,82 @@
+import {Request, Response} from "express";
+import {
+  authenticate,
+  getActingUserId,
+  setTokenVerifier,
+  resetTokenVerifier,
+} from "../../middleware/auth";
+import {AppError} from "../../middleware/errorHandler";
+
+describe("Auth Middleware (Unit Tests)", () => {
+  let mockNext: jest.Mock;
+
+  beforeAll(() => {
+    // Fake verifier: "valid-<uid>" tokens are accepted, anything else fails
+    setTokenVerifier(async (token) => {
+      if (!token.startsWith("valid-")) {
+        throw new Error("Token rejected");
+      }
+      return {uid: token.replace("valid-", ""), email: "test@example.com"};
+    });
+  });
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+  });
+
+  afterAll(() => {
+    resetTokenVerifier();
+  });
+
+  const requestWithHeader = (authorization?: string): Request => ({
+    headers: authorization ? {authorization} : {},
+  } as Request);
+
+  describe("authenticate", () => {
+    it("should attach the verified user and call next", async () => {
+      const req = requestWithHeader("Bearer valid-user123");
+
+      await authenticate(req, {} as Response, mockNext);
+
+      expect(req.user).toEqual({uid: "user123", email: "test@example.com"});
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it("should reject requests without an Authorization header", async () => {
+      const req = requestWithHeader();
+
+      await expect(authenticate(req, {} as Response, mockNext))
+        .rejects.toMatchObject({statusCode: 401});
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it("should reject non-bearer Authorization headers", async () => {
+      const req = requestWithHeader("Basic dXNlcjpwYXNz");
+
+      await expect(authenticate(req, {} as Response, mockNext))
+        .rejects.toMatchObject({statusCode: 401});
+    });
+
+    it("should reject tokens the verifier does not accept", async () => {
+      const req = requestWithHeader("Bearer forged-token");
+
+      await expect(authenticate(req, {} as Response, mockNext))
+        .rejects.toThrow("Invalid or expired ID token");
+      expect(req.user).toBeUndefined();
+    });
+  });
+
+  describe("getActingUserId", () => {
+    it("should return the authenticated user's ID", () => {
+      const req = {user: {uid: "user123"}} as Request;
+
+      expect(getActingUserId(req)).toBe("user123");
+    });
+
+    it("should throw a 401 error for unauthenticated requests", () => {
+      const req = {} as Request;
+
+      expect(() => getActingUserId(req)).toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {Request, Response} from "express";
+import {
+  requireRole,
+  requireSelfOrRole,
+  requireSelf,
+} from "../../middleware/authorization";
+import {getGroupMemberRole} from "../../utils/validators";
+import {GroupRole} from "../../utils/permissions";
+
+// Mock the membership lookup
+jest.mock("../../utils/validators");
+const mockGetGroupMemberRole = getGroupMemberRole as jest.MockedFunction<
+  typeof getGroupMemberRole
+>;
+
+describe("Authorization Middleware (Unit Tests)", () => {
+  let mockNext: jest.Mock;
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+    jest.clearAllMocks();
+  });
+
+  const buildRequest = (overrides: Partial<Request> = {}): Request => ({
+    user: {uid: "caller"},
+    params: {groupId: "group123"},
+    body: {},
+    ...overrides,
+  } as Request);
+
+  describe("requireRole", () => {
+    const callerRoles: Array<GroupRole | null> =
+      [null, "member", "admin", "owner"];
+    const requiredRoles: GroupRole[] = ["member", "admin", "owner"];
+    const rank = {member: 1, admin: 2, owner: 3};
+
+    callerRoles.forEach((callerRole) => {
+      requiredRoles.forEach((required) => {
+        const allowed = !!callerRole && rank[callerRole] >= rank[required];
+
+        it(`should ${allowed ? "allow" : "reject"} a ` +
+          `${callerRole ?? "non-member"} on ${required} routes`, async () => {
+          mockGetGroupMemberRole.mockResolvedValue(callerRole);
+          const req = buildRequest();
+          const middleware = requireRole(required);
+
+          if (allowed) {
+            await middleware(req, {} as Response, mockNext);
+            expect(mockNext).toHaveBeenCalled();
+            expect(req.membership).toEqual({
+              groupId: "group123",
+              userId: "caller",
+              role: callerRole,
+            });
+          } else {
+            await expect(middleware(req, {} as Response, mockNext))
+              .rejects.toMatchObject({statusCode: 403});
+            expect(mockNext).not.toHaveBeenCalled();
+          }
+        });
+      });
+    });
+
+    it("should look up the caller's role in the route's group", async () => {
+      mockGetGroupMemberRole.mockResolvedValue("member");
+
+      await requireRole("member")(buildRequest(), {} as Response, mockNext);
+
+      expect(mockGetGroupMemberRole).toHaveBeenCalledWith("caller", "group123");
+    });
+
+    it("should read the group from the body when not in the path",
+      async () => {
+        mockGetGroupMemberRole.mockResolvedValue("admin");
+        const req = buildRequest({params: {}, body: {groupId: "bodyGroup"}});
+
+        await requireRole("admin")(req, {} as Response, mockNext);
+
+        expect(mockGetGroupMemberRole)
+          .toHaveBeenCalledWith("caller", "bodyGroup");
+      });
+  });
+
+  describe("requireSelfOrRole", () => {
+    it("should let callers act for themselves without a role check",
+      async () => {
+        const req = buildRequest({body: {userId: "caller"}});
+
+        await requireSelfOrRole("admin")(req, {} as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalled();
+        expect(mockGetGroupMemberRole).not.toHaveBeenCalled();
+      });
+
+    it("should treat requests without a target as self", async () => {
+      await requireSelfOrRole("admin")(
+        buildRequest(), {} as Response, mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockGetGroupMemberRole).not.toHaveBeenCalled();
+    });
+
+    it("should reject members acting for another user", async () => {
+      mockGetGroupMemberRole.mockResolvedValue("member");
+      const req = buildRequest({body: {userId: "someone-else"}});
+
+      await expect(
+        requireSelfOrRole("admin")(req, {} as Response, mockNext)
+      ).rejects.toMatchObject({statusCode: 403});
+    });
+
+    it("should allow admins to act for another user", async () => {
+      mockGetGroupMemberRole.mockResolvedValue("admin");
+      const req = buildRequest({body: {userId: "someone-else"}});
+
+      await requireSelfOrRole("admin")(req, {} as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it("should treat phone number lookups as acting for another user",
+      async () => {
+        mockGetGroupMemberRole.mockResolvedValue("member");
+        const req = buildRequest({body: {phoneNumber: "+1234567890"}});
+
+        await expect(
+          requireSelfOrRole("admin")(req, {} as Response, mockNext)
+        ).rejects.toMatchObject({statusCode: 403});
+      });
+  });
+
+  describe("requireSelf", () => {
+    it("should allow users to access their own profile", async () => {
+      const req = buildRequest({params: {userId: "caller"}});
+
+      await requireSelf(req, {} as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it("should reject access to other users' profiles", async () => {
+      const req = buildRequest({params: {userId: "someone-else"}});
+
+      await expect(requireSelf(req, {} as Response, mockNext))
+        .rejects.toMatchObject({statusCode: 403});
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {Request, Response} from "express";
+import {
+  idempotency,
+  IdempotencyRecord,
+  IdempotencyStore,
+  setIdempotencyStore,
+  resetIdempotencyStore,
+} from "../../middleware/idempotency";
+import {AppError} from "../../middleware/errorHandler";
+
+describe("Idempotency Middleware (Unit Tests)", () => {
+  let records: Map<string, IdempotencyRecord>;
+
+  const memoryStore: IdempotencyStore = {
+    async claim(id, requestHash) {
+      const existing = records.get(id);
+      if (existing) {
+        return existing;
+      }
+      records.set(id, {requestHash, state: "in-progress"});
+      return null;
+    },
+    async complete(id, statusCode, body) {
+      const record = records.get(id) as IdempotencyRecord;
+      records.set(id, {...record, state: "completed", statusCode, body});
+    },
+    async release(id) {
+      records.delete(id);
+    },
+  };
+
+  beforeAll(() => {
+    setIdempotencyStore(memoryStore);
+  });
+
+  beforeEach(() => {
+    records = new Map();
+  });
+
+  afterAll(() => {
+    resetIdempotencyStore();
+  });
+
+  const buildRequest = (
+    body: unknown,
+    headers: Record<string, string> = {"idempotency-key": "retry-1"}
+  ): Request => ({
+    method: "POST",
+    originalUrl: "/nfc/consume",
+    body,
+    user: {uid: "user123"},
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request);
+
+  /**
+   * A response double that resolves once json() has actually been sent
+   */
+  interface MockResponse {
+    res: Response;
+    sent: Promise<unknown>;
+    setHeader: jest.Mock;
+  }
+
+  /**
+   * Builds a response double
+   *
+   * @return {MockResponse} The response and a promise of its sent body
+   */
+  function buildResponse(): MockResponse {
+    let resolveSent: (body: unknown) => void = () => undefined;
+    const sent = new Promise<unknown>((resolve) => {
+      resolveSent = resolve;
+    });
+    const setHeader = jest.fn();
+    const res = {
+      statusCode: 200,
+      setHeader,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json(body: unknown) {
+        resolveSent(body);
+        return res;
+      },
+    };
+    return {res: res as unknown as Response, sent, setHeader};
+  }
+
+  /**
+   * Runs the middleware and, if it calls next, a handler that responds
+   *
+   * @param {Request} req - The request
+   * @param {number} statusCode - Status the handler responds with
+   * @return {Promise<object>} Whether the handler ran and what was sent
+   */
+  async function run(req: Request, statusCode = 201) {
+    const {res, sent, setHeader} = buildResponse();
+    const handler = jest.fn(() => {
+      res.status(statusCode).json({success: true, calls: records.size});
+    });
+    await idempotency(req, res, handler);
+    return {handled: handler.mock.calls.length > 0, body: await sent,
+      statusCode: res.statusCode, setHeader};
+  }
+
+  it("should pass requests without a key straight through", async () => {
+    const next = jest.fn();
+    await idempotency(buildRequest({}, {}), buildResponse().res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(records.size).toBe(0);
+  });
+
+  it("should replay the first response for a retry", async () => {
+    const first = await run(buildRequest({amount: 1}));
+    const retry = await run(buildRequest({amount: 1}));
+
+    expect(first.handled).toBe(true);
+    expect(retry.handled).toBe(false);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.setHeader)
+      .toHaveBeenCalledWith("Idempotent-Replayed", "true");
+  });
+
+  it("should reject a reused key with a different body", async () => {
+    await run(buildRequest({amount: 1}));
+
+    await expect(run(buildRequest({amount: 2})))
+      .rejects.toMatchObject({statusCode: 422});
+  });
+
+  it("should reject a retry while the first request is running", async () => {
+    const req = buildRequest({amount: 1});
+    await idempotency(req, buildResponse().res, jest.fn());
+
+    await expect(run(buildRequest({amount: 1})))
+      .rejects.toMatchObject({statusCode: 409});
+  });
+
+  it("should let a request be retried after a server error", async () => {
+    await run(buildRequest({amount: 1}), 500);
+    const retry = await run(buildRequest({amount: 1}));
+
+    expect(retry.handled).toBe(true);
+  });
+
+  it("should reject a malformed key", async () => {
+    const req = buildRequest({}, {"idempotency-key": "has spaces"});
+
+    await expect(idempotency(req, buildResponse().res, jest.fn()))
+      .rejects.toBeInstanceOf(AppError);
+  });
+});
@@ -0,0 +1,80 @@
+import {Request, Response} from "express";
+import {resolveRequestNfcTag} from "../../middleware/nfcTag";
+import {NfcTag, resolveNfcTag} from "../../services/firestore";
+import {getGroupMemberRole} from "../../utils/validators";
+
+// Mock the registry and membership lookups
+jest.mock("../../services/firestore");
+jest.mock("../../utils/validators");
+const mockResolveNfcTag = resolveNfcTag as jest.MockedFunction<
+  typeof resolveNfcTag
+>;
+const mockGetGroupMemberRole = getGroupMemberRole as jest.MockedFunction<
+  typeof getGroupMemberRole
+>;
+
+describe("NFC Tag Middleware (Unit Tests)", () => {
+  let mockNext: jest.Mock;
+
+  const tag: NfcTag = {
+    tagId: "Xy7Tag42",
+    groupId: "group123",
+    label: "Fridge 2",
+    amount: 2,
+    product: "Beer",
+    enabled: true,
+    createdBy: "admin123",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+    jest.clearAllMocks();
+  });
+
+  it("should fill in the tag's group and amount", async () => {
+    mockResolveNfcTag.mockResolvedValue(tag);
+    const req = {body: {tagId: "Xy7Tag42"}} as Request;
+
+    await resolveRequestNfcTag(req, {} as Response, mockNext);
+
+    expect(mockResolveNfcTag).toHaveBeenCalledWith("Xy7Tag42");
+    expect(req.body).toEqual({
+      tagId: "Xy7Tag42",
+      groupId: "group123",
+      amount: 2,
+    });
+    expect(req.nfcTag).toBe(tag);
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  it("should only let admins name the group and amount", async () => {
+    const buildRequest = () => ({
+      user: {uid: "caller"},
+      body: {groupId: "group123", amount: 1},
+    } as Request);
+
+    mockGetGroupMemberRole.mockResolvedValue("member");
+    await expect(resolveRequestNfcTag(buildRequest(), {} as Response,
+      mockNext)).rejects.toMatchObject({statusCode: 403});
+    expect(mockNext).not.toHaveBeenCalled();
+
+    mockGetGroupMemberRole.mockResolvedValue("admin");
+    const req = buildRequest();
+    await resolveRequestNfcTag(req, {} as Response, mockNext);
+
+    expect(mockResolveNfcTag).not.toHaveBeenCalled();
+    expect(req.body).toEqual({groupId: "group123", amount: 1});
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  it("should stop at a disabled tag", async () => {
+    mockResolveNfcTag.mockRejectedValue(new Error("NFC tag is disabled"));
+    const req = {body: {tagId: "Xy7Tag42"}} as Request;
+
+    await expect(resolveRequestNfcTag(req, {} as Response, mockNext))
+      .rejects.toThrow("NFC tag is disabled");
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import {Request, Response} from "express";
+import {
+  validateTransactionQuery,
+  validateJoinRequestQuery,
+} from "../../middleware/joiValidation";
+
+describe("Query Validation Middleware (Unit Tests)", () => {
+  let mockNext: jest.Mock;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+    mockJson = jest.fn().mockReturnThis();
+    mockStatus = jest.fn().mockReturnThis();
+    mockResponse = {status: mockStatus, json: mockJson};
+  });
+
+  // Mirrors Express 5, where req.query is a prototype getter with no setter
+  const buildRequest = (query: Record<string, string>): Request => {
+    const prototype = {};
+    Object.defineProperty(prototype, "query", {get: () => query});
+    return Object.create(prototype) as Request;
+  };
+
+  it("should apply defaults and convert values", () => {
+    const req = buildRequest({
+      from: "2026-01-01T00:00:00.000Z",
+      type: "expense",
+    });
+
+    validateTransactionQuery(req, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(req.query).toEqual({
+      limit: 50,
+      from: new Date("2026-01-01T00:00:00.000Z"),
+      type: "expense",
+    });
+  });
+
+  it("should strip filters that the endpoint does not support", () => {
+    const req = buildRequest({limit: "10", type: "expense"});
+
+    validateJoinRequestQuery(req, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(req.query).toEqual({limit: 10});
+  });
+
+  it("should reject invalid query parameters", () => {
+    const req = buildRequest({
+      limit: "500",
+      from: "2026-02-01T00:00:00.000Z",
+      to: "2026-01-01T00:00:00.000Z",
+    });
+
+    validateTransactionQuery(req, mockResponse as Response, mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockStatus).toHaveBeenCalledWith(400);
+    expect(mockJson).toHaveBeenCalledWith({
+      error: "Invalid query parameters",
+      details: ["Limit cannot exceed 100", "To must not be before from"],
+      statusCode: 400,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {Request, Response} from "express";
+import {requestContext} from "../../middleware/requestContext";
+import {
+  authenticate,
+  setTokenVerifier,
+  resetTokenVerifier,
+} from "../../middleware/auth";
+import {
+  RequestContext,
+  getRequestContext,
+} from "../../utils/requestContext";
+
+describe("Request Context Middleware (Unit Tests)", () => {
+  let mockSetHeader: jest.Mock;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(() => {
+    setTokenVerifier(async (token) => ({uid: token.replace("valid-", "")}));
+  });
+
+  beforeEach(() => {
+    mockSetHeader = jest.fn();
+    mockResponse = {setHeader: mockSetHeader};
+  });
+
+  afterAll(() => {
+    resetTokenVerifier();
+  });
+
+  const buildRequest = (headers: Record<string, string> = {}): Request => ({
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request);
+
+  /**
+   * Runs the middleware and captures the context seen by the next handler
+   *
+   * @param {Request} req - The request
+   * @return {RequestContext | null} The context inside the request
+   */
+  function captureContext(req: Request): RequestContext | null {
+    let context: RequestContext | null = null;
+    requestContext(req, mockResponse as Response, () => {
+      context = getRequestContext();
+    });
+    return context;
+  }
+
+  it("should generate a request ID and echo it in the response", () => {
+    const context = captureContext(buildRequest());
+
+    expect(context?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(context?.actorId).toBeNull();
+    expect(mockSetHeader)
+      .toHaveBeenCalledWith("X-Request-Id", context?.requestId);
+  });
+
+  it("should keep a well-formed client request ID", () => {
+    const context = captureContext(
+      buildRequest({"x-request-id": "trace_123-abc"})
+    );
+
+    expect(context?.requestId).toBe("trace_123-abc");
+  });
+
+  it("should replace a malformed client request ID", () => {
+    const context = captureContext(
+      buildRequest({"x-request-id": "not valid; drop table"})
+    );
+
+    expect(context?.requestId).not.toBe("not valid; drop table");
+  });
+
+  it("should record the authenticated caller as the actor", async () => {
+    const req = buildRequest({authorization: "Bearer valid-user123"});
+    let context: RequestContext | null = null;
+
+    await new Promise<void>((resolve, reject) => {
+      requestContext(req, mockResponse as Response, () => {
+        authenticate(req, mockResponse as Response, () => {
+          context = getRequestContext();
+          resolve();
+        }).catch(reject);
+      });
+    });
+
+    expect(context).toMatchObject({actorId: "user123"});
+  });
+
+  it("should have no context outside a request", () => {
+    expect(getRequestContext()).toBeNull();
+  });
+});
@@ -9,14 +9,42 @@ import {
   createUser,
   createGroup,
   addUserToGroup,
+  removeUserFromGroup,
+  updateMemberRole,
+  transferOwnership,
   getGroupDetails,
   getUserDetails,
   getGroupMembers,
   getUserBuckets,
   getGroupConsumption,
+  purchaseBuckets,
+  updateGroupPricing,
+  updateGroupSettings,
+  setGroupArchived,
+  deleteGroup,
+  recordConsumption,
+  reverseConsumption,
   createKittyTransaction,
+  recordKittyExpense,
   getGroupTransactions,
+  getGroupStats,
+  getGroupExport,
+  importGroupData,
+  updateUserBalance,
+  reconcileKittyBalance,
+  getAuditLog,
+  getBalanceHistory,
+  getSettlementPlan,
+  recordSettlement,
+  generateQRCode,
+  processQRCode,
+  resolveQRShortLink,
+  registerNfcTag,
+  getNfcTags,
+  updateNfcTag,
+  resolveNfcTag,
 } from "../../services/firestore";
+import {runWithRequestContext} from "../../utils/requestContext";
 
 describe("Firestore Service (Unit Tests)", () => {
   let testUserId: string;
@@ -155,6 +183,156 @@ describe("Firestore Service (Unit Tests)", () => {
     });
   });
 
+  describe("removeUserFromGroup", () => {
+    let memberId: string;
+
+    beforeEach(async () => {
+      // testUserId joins first and becomes the owner
+      await addUserToGroup(testUserId, testGroupId);
+      memberId = await createTestUser();
+      await addUserToGroup(memberId, testGroupId);
+    });
+
+    it("should remove both sides of the membership", async () => {
+      await removeUserFromGroup(testGroupId, memberId, memberId);
+
+      const members = await getGroupMembers(testGroupId);
+      expect(members.map((m) => m.userId)).toEqual([testUserId]);
+
+      const userGroupDoc = await admin.firestore()
+        .collection("users").doc(memberId)
+        .collection("groups").doc(testGroupId).get();
+      expect(userGroupDoc.exists).toBe(false);
+    });
+
+    it("should not remove a member with outstanding debt", async () => {
+      await updateGroupPricing(testGroupId, {pricePerBucket: 10});
+      await purchaseBuckets(testGroupId, memberId, 1, 5);
+
+      await expect(removeUserFromGroup(testGroupId, memberId, testUserId))
+        .rejects.toThrow("outstanding debt");
+    });
+
+    it("should not remove a member with unsettled credit", async () => {
+      const credit = {balance: 4, updatedAt: new Date()};
+      await admin.firestore().collection("users").doc(memberId)
+        .collection("groups").doc(testGroupId).update(credit);
+      await admin.firestore().collection("groups").doc(testGroupId)
+        .collection("members").doc(memberId).update(credit);
+
+      await expect(removeUserFromGroup(testGroupId, memberId, testUserId))
+        .rejects.toThrow("unsettled credit");
+    });
+
+    it("should not let the owner leave without transferring ownership",
+      async () => {
+        await expect(removeUserFromGroup(testGroupId, testUserId, testUserId))
+          .rejects.toThrow("transfer ownership");
+      });
+
+    it("should not remove the last admin of a group without an owner",
+      async () => {
+        await admin.firestore().collection("groups").doc(testGroupId)
+          .collection("members").doc(testUserId).update({role: "admin"});
+
+        await expect(removeUserFromGroup(testGroupId, testUserId, testUserId))
+          .rejects.toThrow("Group must have an admin");
+      });
+
+    it("should forfeit unused buckets by default", async () => {
+      const [bucketId] = await purchaseBuckets(testGroupId, memberId, 1, 5);
+
+      const removal = await removeUserFromGroup(
+        testGroupId, memberId, memberId
+      );
+
+      expect(removal.unitsAffected).toBe(5);
+      const bucketDoc = await admin.firestore()
+        .collection("groups").doc(testGroupId)
+        .collection("buckets").doc(bucketId).get();
+      expect(bucketDoc.data()?.status).toBe("forfeited");
+    });
+
+    it("should transfer unused buckets to another member", async () => {
+      const [bucketId] = await purchaseBuckets(testGroupId, memberId, 1, 5);
+
+      await removeUserFromGroup(
+        testGroupId, memberId, memberId, "transfer", testUserId
+      );
+
+      const buckets = await getUserBuckets(testGroupId, testUserId);
+      expect(buckets.map((b) => b.bucketId)).toEqual([bucketId]);
+
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].activeBucketId).toBe(bucketId);
+    });
+  });
+
+  describe("updateMemberRole", () => {
+    let adminId: string;
+    let memberId: string;
+
+    beforeEach(async () => {
+      // testUserId joins first and becomes the owner
+      await addUserToGroup(testUserId, testGroupId);
+      adminId = await createTestUser();
+      await addUserToGroup(adminId, testGroupId, true);
+      memberId = await createTestUser();
+      await addUserToGroup(memberId, testGroupId);
+    });
+
+    it("should allow several admins", async () => {
+      await updateMemberRole(testGroupId, memberId, "admin", adminId);
+
+      const members = await getGroupMembers(testGroupId);
+      expect(members.filter((m) => m.role === "admin")).toHaveLength(2);
+    });
+
+    it("should only let the owner demote other admins", async () => {
+      await updateMemberRole(testGroupId, memberId, "admin", adminId);
+
+      await expect(
+        updateMemberRole(testGroupId, memberId, "member", adminId)
+      ).rejects.toThrow("Only the group owner can demote admins");
+
+      await expect(
+        updateMemberRole(testGroupId, memberId, "member", testUserId)
+      ).resolves.toMatchObject({previousRole: "admin", role: "member"});
+    });
+
+    it("should not change the owner's role", async () => {
+      await expect(
+        updateMemberRole(testGroupId, testUserId, "member", testUserId)
+      ).rejects.toThrow("ownership transfer");
+    });
+  });
+
+  describe("transferOwnership", () => {
+    let memberId: string;
+
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+      memberId = await createTestUser();
+      await addUserToGroup(memberId, testGroupId);
+    });
+
+    it("should make the member owner and keep the old owner as admin",
+      async () => {
+        await transferOwnership(testGroupId, memberId, testUserId);
+
+        const members = await getGroupMembers(testGroupId);
+        const roles = Object.fromEntries(
+          members.map((m) => [m.userId, m.role])
+        );
+        expect(roles).toEqual({[memberId]: "owner", [testUserId]: "admin"});
+      });
+
+    it("should only let the owner transfer ownership", async () => {
+      await expect(transferOwnership(testGroupId, testUserId, memberId))
+        .rejects.toThrow("Only the group owner can transfer ownership");
+    });
+  });
+
   describe("getGroupDetails", () => {
     beforeEach(async () => {
       await addUserToGroup(testUserId, testGroupId);
@@ -183,6 +361,68 @@ describe("Firestore Service (Unit Tests)", () => {
       });
   });
 
+  describe("group lifecycle", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should update settings and keep unchanged fields", async () => {
+      const settings = await updateGroupSettings(testGroupId, {
+        unitLabel: "coffees",
+        currency: "EUR",
+      });
+
+      expect(settings).toEqual({
+        name: "Test Group",
+        description: "",
+        currency: "EUR",
+        unitLabel: "coffees",
+      });
+      const details = await getGroupDetails(testGroupId);
+      expect(details.unitLabel).toBe("coffees");
+      expect(details.status).toBe("active");
+    });
+
+    it("should block consumption and purchases while archived", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 10);
+      await setGroupArchived(testGroupId, true, testUserId);
+
+      await expect(recordConsumption(testGroupId, testUserId, 1))
+        .rejects.toThrow("Group is archived");
+      await expect(purchaseBuckets(testGroupId, testUserId, 1, 10))
+        .rejects.toThrow("Group is archived");
+
+      await setGroupArchived(testGroupId, false, testUserId);
+      await expect(recordConsumption(testGroupId, testUserId, 1))
+        .resolves.toBeDefined();
+    });
+
+    it("should delete the group and the mirrored membership docs",
+      async () => {
+        await purchaseBuckets(testGroupId, testUserId, 1, 10);
+
+        const result = await deleteGroup(testGroupId);
+
+        expect(result).toEqual({groupId: testGroupId, membersRemoved: 1});
+        await expect(getGroupDetails(testGroupId))
+          .rejects.toThrow("Group not found");
+        const details = await getUserDetails(testUserId);
+        expect(details.groups).toEqual([]);
+      });
+
+    it("should delete the group's QR short links", async () => {
+      await generateQRCode(testGroupId, "onboarding");
+      await generateQRCode(testGroupId, "consumption", 300, {units: 1});
+      const links = admin.firestore().collection("qr_links")
+        .where("groupId", "==", testGroupId);
+      expect((await links.get()).size).toBe(2);
+
+      await deleteGroup(testGroupId);
+
+      expect((await links.get()).empty).toBe(true);
+    });
+  });
+
   describe("getUserDetails", () => {
     it("should return user details with groups", async () => {
       await addUserToGroup(testUserId, testGroupId);
@@ -248,13 +488,274 @@ describe("Firestore Service (Unit Tests)", () => {
     });
 
     it("should return empty consumption for new group", async () => {
-      const consumption = await getGroupConsumption(testGroupId);
+      const consumption = (await getGroupConsumption(testGroupId)).items;
 
       expect(Array.isArray(consumption)).toBe(true);
       expect(consumption).toEqual([]);
     });
   });
 
+  describe("purchaseBuckets", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should not charge members when the group has no pricing",
+      async () => {
+        await purchaseBuckets(testGroupId, testUserId, 2, 10);
+
+        const details = await getUserDetails(testUserId);
+        expect(details.groups[0].balance).toBe(0);
+        expect((await getGroupTransactions(testGroupId)).items).toEqual([]);
+      });
+
+    it("should add the purchase cost to the member's balance", async () => {
+      await updateGroupPricing(testGroupId, {pricePerUnit: 1.5});
+
+      const bucketIds = await purchaseBuckets(testGroupId, testUserId, 2, 10);
+
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].balance).toBe(-30);
+
+      const [purchase] = (await getGroupTransactions(testGroupId)).items;
+      expect(purchase.type).toBe("bucket-purchase");
+      expect(purchase.amount).toBe(30);
+
+      const buckets = await getUserBuckets(testGroupId, testUserId);
+      expect(buckets.map((b) => b.bucketId).sort())
+        .toEqual([...bucketIds].sort());
+      expect(buckets.every((b) => b.unitPrice === 15)).toBe(true);
+    });
+
+    it("should draw purchases from prepaid credit first", async () => {
+      await updateGroupPricing(testGroupId, {pricePerBucket: 10});
+      await updateUserBalance(
+        testGroupId, testUserId, 25, "admin123", "payment-received", "Cash"
+      );
+
+      await purchaseBuckets(testGroupId, testUserId, 1, 10);
+      expect((await getUserDetails(testUserId)).groups[0].balance).toBe(15);
+
+      await purchaseBuckets(testGroupId, testUserId, 2, 10);
+      const [purchase] = (await getGroupTransactions(testGroupId)).items;
+      expect(purchase).toMatchObject({
+        type: "bucket-purchase",
+        amount: 20,
+        memberBalanceBefore: 15,
+        memberBalanceAfter: -5,
+      });
+    });
+  });
+
+  describe("recordConsumption", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should continue into the next bucket when the active one runs out",
+      async () => {
+        const [firstBucketId, secondBucketId] = await purchaseBuckets(
+          testGroupId, testUserId, 2, 2
+        );
+
+        const consumptionIds = await recordConsumption(
+          testGroupId, testUserId, 3
+        );
+
+        expect(consumptionIds.length).toBe(2);
+
+        const buckets = await getUserBuckets(testGroupId, testUserId);
+        const first = buckets.find((b) => b.bucketId === firstBucketId);
+        const second = buckets.find((b) => b.bucketId === secondBucketId);
+        expect(first).toMatchObject({remainingUnits: 0, status: "completed"});
+        expect(second?.remainingUnits).toBe(1);
+
+        const consumption = (await getGroupConsumption(testGroupId)).items;
+        expect(consumption.map((record) => record.units).sort())
+          .toEqual([1, 2]);
+        expect(consumption[0].consumptionBatchId)
+          .toBe(consumption[1].consumptionBatchId);
+
+        const userDetails = await getUserDetails(testUserId);
+        expect(userDetails.groups[0].activeBucketId).toBe(secondBucketId);
+      });
+
+    it("should fail when total remaining units are insufficient",
+      async () => {
+        await purchaseBuckets(testGroupId, testUserId, 2, 2);
+
+        await expect(recordConsumption(testGroupId, testUserId, 5))
+          .rejects.toThrow("Insufficient units across buckets");
+
+        const buckets = await getUserBuckets(testGroupId, testUserId);
+        expect(buckets.every((b) => b.remainingUnits === 2)).toBe(true);
+      });
+  });
+
+  describe("reverseConsumption", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should restore units and reactivate a completed bucket",
+      async () => {
+        const [bucketId] = await purchaseBuckets(testGroupId, testUserId, 2, 2);
+        const [consumptionId] = await recordConsumption(
+          testGroupId, testUserId, 2
+        );
+
+        await reverseConsumption(
+          testGroupId, consumptionId, testUserId, false, "Tapped twice"
+        );
+
+        const buckets = await getUserBuckets(testGroupId, testUserId);
+        const bucket = buckets.find((b) => b.bucketId === bucketId);
+        expect(bucket).toMatchObject({remainingUnits: 2, status: "active"});
+
+        const details = await getUserDetails(testUserId);
+        expect(details.groups[0].activeBucketId).toBe(bucketId);
+
+        const [record] = (await getGroupConsumption(testGroupId)).items;
+        expect(record.reversed).toBe(true);
+        expect(record.reversedBy).toBe(testUserId);
+        expect(record.reversalReason).toBe("Tapped twice");
+      });
+
+    it("should not reverse the same record twice", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 5);
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 1
+      );
+      await reverseConsumption(testGroupId, consumptionId, testUserId, false);
+
+      await expect(
+        reverseConsumption(testGroupId, consumptionId, testUserId, false)
+      ).rejects.toThrow("already been reversed");
+    });
+
+    it("should require admin rights for other members' records",
+      async () => {
+        await purchaseBuckets(testGroupId, testUserId, 1, 5);
+        const [consumptionId] = await recordConsumption(
+          testGroupId, testUserId, 1
+        );
+
+        await expect(
+          reverseConsumption(testGroupId, consumptionId, "someone-else", false)
+        ).rejects.toThrow("Only group admins");
+
+        await expect(
+          reverseConsumption(testGroupId, consumptionId, "someone-else", true)
+        ).resolves.toMatchObject({units: 1});
+      });
+
+    it("should not revive a bucket forfeited on leaving", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 5);
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 1
+      );
+      await removeUserFromGroup(testGroupId, testUserId, testUserId);
+
+      await expect(
+        reverseConsumption(testGroupId, consumptionId, "admin123", true)
+      ).rejects.toThrow("not a member");
+
+      // Rejoining does not bring the forfeited bucket back either
+      await addUserToGroup(testUserId, testGroupId);
+      await expect(
+        reverseConsumption(testGroupId, consumptionId, "admin123", true)
+      ).rejects.toThrow("its bucket has been forfeited");
+    });
+
+    it("should leave archived groups untouched", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 5);
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 1
+      );
+      await setGroupArchived(testGroupId, true, "admin123");
+
+      await expect(
+        reverseConsumption(testGroupId, consumptionId, "admin123", true)
+      ).rejects.toThrow("archived");
+    });
+  });
+
+  describe("recordConsumption in tab mode", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+      await updateGroupPricing(testGroupId, {
+        consumptionMode: "tab",
+        pricePerUnit: 2.5,
+        creditLimit: 10,
+      });
+    });
+
+    it("should charge consumed units to the member's balance", async () => {
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 2
+      );
+
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].balance).toBe(-5);
+
+      const [consumption] = (await getGroupConsumption(testGroupId)).items;
+      expect(consumption.consumptionId).toBe(consumptionId);
+      expect(consumption.bucketId).toBeNull();
+      expect(consumption.charge).toBe(5);
+    });
+
+    it("should refuse consumption past the credit limit", async () => {
+      await recordConsumption(testGroupId, testUserId, 4);
+
+      await expect(recordConsumption(testGroupId, testUserId, 1))
+        .rejects.toThrow("Credit limit exceeded");
+
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].balance).toBe(-10);
+    });
+
+    it("should refund the charge when reversed", async () => {
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 2
+      );
+
+      const reversal = await reverseConsumption(
+        testGroupId, consumptionId, testUserId, false
+      );
+
+      expect(reversal.refundedCharge).toBe(5);
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].balance).toBe(0);
+    });
+
+    it("should only refund what is still owed", async () => {
+      const [consumptionId] = await recordConsumption(
+        testGroupId, testUserId, 2
+      );
+      await updateUserBalance(
+        testGroupId, testUserId, 3, "admin123", "payment-received", "Cash"
+      );
+
+      const reversal = await reverseConsumption(
+        testGroupId, consumptionId, testUserId, false
+      );
+
+      expect(reversal.refundedCharge).toBe(2);
+      const details = await getUserDetails(testUserId);
+      expect(details.groups[0].balance).toBe(0);
+    });
+
+    it("should refuse bucket purchases", async () => {
+      await expect(purchaseBuckets(testGroupId, testUserId, 1, 10))
+        .rejects.toThrow("Buckets cannot be purchased in tab mode");
+    });
+
+    it("should require a per-unit price", async () => {
+      await expect(updateGroupPricing(testGroupId, {pricePerUnit: null}))
+        .rejects.toThrow("Tab mode requires a price per unit");
+    });
+  });
+
   describe("createKittyTransaction", () => {
     beforeEach(async () => {
       await addUserToGroup(testUserId, testGroupId);
@@ -306,6 +807,347 @@ describe("Firestore Service (Unit Tests)", () => {
 
       expect(transactionDoc.data()?.comment).toBe(""); // No comment provided
     });
+
+    it("should record the kitty balance before and after", async () => {
+      await createKittyTransaction(testGroupId, testUserId, 10.00);
+      const transactionId = await createKittyTransaction(
+        testGroupId,
+        testUserId,
+        5.25
+      );
+
+      const db = admin.firestore();
+      const groupRef = db.collection("groups").doc(testGroupId);
+      const transactionDoc = await groupRef
+        .collection("transactions").doc(transactionId).get();
+      const groupDoc = await groupRef.get();
+
+      expect(transactionDoc.data()?.balanceBefore).toBe(10.00);
+      expect(transactionDoc.data()?.balanceAfter).toBe(15.25);
+      expect(groupDoc.data()?.kittyBalance).toBe(15.25);
+    });
+  });
+
+  describe("recordKittyExpense", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+      await createKittyTransaction(testGroupId, testUserId, 50.00);
+    });
+
+    it("should debit the kitty and record the expense", async () => {
+      const transactionId = await recordKittyExpense(
+        testGroupId,
+        testUserId,
+        45.50,
+        "drinks",
+        "3 crates of beer"
+      );
+
+      const transactions = (await getGroupTransactions(testGroupId)).items;
+      const expense = transactions
+        .find((t) => t.transactionId === transactionId);
+
+      expect(expense).toMatchObject({
+        type: "expense",
+        category: "drinks",
+        receiptNote: "3 crates of beer",
+        balanceBefore: 50.00,
+        balanceAfter: 4.50,
+      });
+    });
+
+    it("should not let the kitty go negative", async () => {
+      await expect(
+        recordKittyExpense(testGroupId, testUserId, 50.01, "other")
+      ).rejects.toThrow("Insufficient funds in kitty");
+
+      const groupDoc = await admin.firestore()
+        .collection("groups").doc(testGroupId).get();
+      expect(groupDoc.data()?.kittyBalance).toBe(50.00);
+    });
+
+    it("should be counted by reconciliation", async () => {
+      await recordKittyExpense(
+        testGroupId, testUserId, 20.00, "other", "", "withdrawal"
+      );
+
+      const report = await reconcileKittyBalance(testGroupId);
+
+      expect(report.ledgerBalance).toBe(30.00);
+      expect(report.drift).toBe(0);
+    });
+  });
+
+  describe("reconcileKittyBalance", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should report no drift when the kitty matches the ledger",
+      async () => {
+        await createKittyTransaction(testGroupId, testUserId, 15.00);
+        await createKittyTransaction(testGroupId, testUserId, 25.00);
+
+        const report = await reconcileKittyBalance(testGroupId);
+
+        expect(report.storedBalance).toBe(40.00);
+        expect(report.ledgerBalance).toBe(40.00);
+        expect(report.drift).toBe(0);
+        expect(report.transactionCount).toBe(2);
+        expect(report.inconsistentTransactionIds).toEqual([]);
+      });
+
+    it("should report drift when the kitty was changed outside the ledger",
+      async () => {
+        await createKittyTransaction(testGroupId, testUserId, 15.00);
+        await admin.firestore().collection("groups").doc(testGroupId)
+          .update({kittyBalance: 20.00});
+
+        const report = await reconcileKittyBalance(testGroupId);
+
+        expect(report.ledgerBalance).toBe(15.00);
+        expect(report.drift).toBe(5.00);
+      });
+  });
+
+  describe("getGroupStats", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should aggregate consumption and skip reversed records", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 3);
+      await recordConsumption(testGroupId, testUserId, 2);
+      const [mistake] = await recordConsumption(testGroupId, testUserId, 1);
+      await reverseConsumption(testGroupId, mistake, testUserId, false);
+      await createKittyTransaction(testGroupId, testUserId, 20);
+
+      const stats = await getGroupStats(testGroupId);
+
+      expect(stats.totals.units).toBe(2);
+      expect(stats.perMember).toEqual([
+        {userId: testUserId, units: 2, records: 1},
+      ]);
+      expect(stats.kitty).toEqual({inflow: 20, outflow: 0, net: 20});
+      expect(stats.bucketBurnDown.completedBuckets).toBe(0);
+    });
+
+    it("should count buckets emptied in the range", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 2);
+      await recordConsumption(testGroupId, testUserId, 2);
+
+      const stats = await getGroupStats(testGroupId, {granularity: "month"});
+
+      expect(stats.bucketBurnDown.completedBuckets).toBe(1);
+      expect(stats.timeSeries.length).toBe(1);
+    });
+  });
+
+  describe("getGroupExport", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    /**
+     * Reads an export into plain arrays keyed by section
+     *
+     * @param {Object} range - Optional from/to dates
+     * @return {Promise<Object>} The exported records
+     */
+    async function readExport(
+      range = {}
+    ): Promise<Record<string, Record<string, unknown>[]>> {
+      const {sections} = await getGroupExport(testGroupId, range);
+      const result: Record<string, Record<string, unknown>[]> = {};
+      for (const {section, records} of sections) {
+        result[section] = [];
+        for await (const record of records) {
+          result[section].push(record);
+        }
+      }
+      return result;
+    }
+
+    it("should export every section with display names", async () => {
+      await purchaseBuckets(testGroupId, testUserId, 1, 5);
+      await recordConsumption(testGroupId, testUserId, 2);
+      await createKittyTransaction(testGroupId, testUserId, 10, "Beans");
+      await updateUserBalance(
+        testGroupId, testUserId, -7.5, testUserId, "debt-added", "Snacks"
+      );
+
+      const exported = await readExport();
+
+      expect(exported.members).toHaveLength(1);
+      expect(exported.members[0].displayName).toBe("Test User");
+      expect(exported.buckets[0].remainingUnits).toBe(3);
+      expect(exported.consumption[0].units).toBe(2);
+      expect(exported.transactions[0].comment).toBe("Beans");
+      expect(exported.balanceAdjustments[0]).toMatchObject({
+        userId: testUserId,
+        type: "debt-added",
+        amount: -7.5,
+        balanceBefore: 0,
+        balanceAfter: -7.5,
+        reason: "Snacks",
+        adjustedByName: "Test User",
+      });
+    });
+
+    it("should limit history to the date range", async () => {
+      await createKittyTransaction(testGroupId, testUserId, 10);
+
+      const exported = await readExport({to: new Date(0)});
+
+      expect(exported.members).toHaveLength(1);
+      expect(exported.transactions).toEqual([]);
+    });
+  });
+
+  describe("importGroupData", () => {
+    const membersCsv =
+      "name,email,phone,balance\n" +
+      "Jane Doe,jane@example.com,+15551234567,-12.5\n" +
+      "Bob,bob@example.com,,\n";
+
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    afterEach(async () => {
+      // Imported members get Firebase Auth accounts
+      const {users} = await admin.auth().getUsers([
+        {email: "jane@example.com"},
+        {email: "bob@example.com"},
+      ]);
+      await admin.auth().deleteUsers(users.map((user) => user.uid));
+    });
+
+    it("should only report on a dry run", async () => {
+      const report = await importGroupData(
+        testGroupId, "members", membersCsv, testUserId
+      );
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        committed: false,
+        totalRows: 2,
+        validRows: 2,
+        errors: [],
+      });
+      expect((await getGroupMembers(testGroupId)).length).toBe(1);
+      const {users} = await admin.auth()
+        .getUsers([{email: "jane@example.com"}]);
+      expect(users).toEqual([]);
+    });
+
+    it("should import members with opening balances", async () => {
+      const report = await importGroupData(
+        testGroupId, "members", membersCsv, testUserId, false
+      );
+
+      expect(report.committed).toBe(true);
+      const members = await getGroupMembers(testGroupId);
+      expect(members.length).toBe(3);
+      const jane = members.find((m) => m.balance === -12.5);
+      expect(jane).toBeDefined();
+      const details = await getUserDetails(jane?.userId as string);
+      expect(details.displayName).toBe("Jane Doe");
+    });
+
+    it("should key imported members by their Auth UID", async () => {
+      const {uid} = await admin.auth().createUser({email: "bob@example.com"});
+
+      await importGroupData(
+        testGroupId, "members", membersCsv, testUserId, false
+      );
+
+      // Bob signs in with his existing account and finds his membership
+      const details = await getUserDetails(uid);
+      expect(details.groups).toEqual([
+        expect.objectContaining({groupId: testGroupId, balance: 0}),
+      ]);
+      const jane = await admin.auth().getUserByEmail("jane@example.com");
+      expect((await getUserDetails(jane.uid)).displayName).toBe("Jane Doe");
+    });
+
+    it("should match emails regardless of case", async () => {
+      await admin.firestore().collection("users").doc(testUserId)
+        .update({email: "Tester@Example.com"});
+
+      const report = await importGroupData(
+        testGroupId,
+        "members",
+        "name,email\nTester,TESTER@example.com\n",
+        testUserId
+      );
+      expect(report.errors).toEqual([{
+        line: 2,
+        errors: ["tester@example.com is already a member of the group"],
+      }]);
+
+      const consumption = await importGroupData(
+        testGroupId,
+        "consumption",
+        "email,units,consumedAt\ntester@example.com,2,2026-01-01T18:00:00Z\n",
+        testUserId,
+        false
+      );
+      expect(consumption.committed).toBe(true);
+    });
+
+    it("should import nothing when any row is invalid", async () => {
+      const report = await importGroupData(
+        testGroupId,
+        "members",
+        membersCsv + "Ann,ann@example,,5\n",
+        testUserId,
+        false
+      );
+
+      expect(report.committed).toBe(false);
+      expect(report.errors).toEqual([
+        {line: 4, errors: ["Please provide a valid email address"]},
+      ]);
+      expect((await getGroupMembers(testGroupId)).length).toBe(1);
+    });
+
+    it("should import buckets for members and activate one", async () => {
+      const {email} = (await admin.firestore()
+        .collection("users").doc(testUserId).get()).data() || {};
+
+      const report = await importGroupData(
+        testGroupId,
+        "buckets",
+        "email,units,remaining,purchasedAt\n" +
+        `${email},10,0,2026-01-01T18:00:00Z\n` +
+        `${email},10,6,2026-02-01T18:00:00Z\n` +
+        "stranger@example.com,10,10,\n",
+        testUserId,
+        false
+      );
+
+      expect(report.errors).toEqual([{
+        line: 4,
+        errors: ["No group member has the email stranger@example.com"],
+      }]);
+
+      const retry = await importGroupData(
+        testGroupId,
+        "buckets",
+        "email,units,remaining,purchasedAt\n" +
+        `${email},10,0,2026-01-01T18:00:00Z\n` +
+        `${email},10,6,2026-02-01T18:00:00Z\n`,
+        testUserId,
+        false
+      );
+      expect(retry.committed).toBe(true);
+
+      const details = await getUserDetails(testUserId);
+      const buckets = await getUserBuckets(testGroupId, testUserId);
+      const active = buckets.find((b) => b.remainingUnits === 6);
+      expect(details.groups[0].activeBucketId).toBe(active?.bucketId);
+    });
   });
 
   describe("getGroupTransactions", () => {
@@ -314,7 +1156,7 @@ describe("Firestore Service (Unit Tests)", () => {
     });
 
     it("should return empty transactions for new group", async () => {
-      const transactions = await getGroupTransactions(testGroupId);
+      const transactions = (await getGroupTransactions(testGroupId)).items;
 
       expect(Array.isArray(transactions)).toBe(true);
       expect(transactions).toEqual([]);
@@ -324,7 +1166,7 @@ describe("Firestore Service (Unit Tests)", () => {
       await createKittyTransaction(testGroupId, testUserId, 15.00, "Coffee");
       await createKittyTransaction(testGroupId, testUserId, 25.00, "Lunch");
 
-      const transactions = await getGroupTransactions(testGroupId);
+      const transactions = (await getGroupTransactions(testGroupId)).items;
 
       expect(transactions.length).toBe(2);
       // Transactions are ordered by createdAt desc, so newest first
@@ -333,5 +1175,380 @@ describe("Firestore Service (Unit Tests)", () => {
       expect(transactions[0].comment).toBe("Lunch");
       expect(transactions[1].comment).toBe("Coffee");
     });
+
+    it("should page through transactions with a cursor", async () => {
+      for (const amount of [10, 20, 30]) {
+        await createKittyTransaction(testGroupId, testUserId, amount);
+      }
+
+      const first = await getGroupTransactions(testGroupId, {limit: 2});
+      expect(first.items.map((t) => t.amount)).toEqual([30, 20]);
+      expect(first.nextCursor).toBe(first.items[1].transactionId);
+
+      const second = await getGroupTransactions(testGroupId, {
+        limit: 2,
+        cursor: first.nextCursor as string,
+      });
+      expect(second.items.map((t) => t.amount)).toEqual([10]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter transactions by type", async () => {
+      await createKittyTransaction(testGroupId, testUserId, 40);
+      await recordKittyExpense(testGroupId, testUserId, 15, "drinks");
+
+      const page = await getGroupTransactions(testGroupId, {type: "expense"});
+
+      expect(page.items.length).toBe(1);
+      expect(page.items[0].amount).toBe(15);
+    });
+
+    it("should reject an unknown cursor", async () => {
+      await expect(getGroupTransactions(testGroupId, {cursor: "missing"}))
+        .rejects.toThrow("Invalid cursor");
+    });
+  });
+
+  describe("getBalanceHistory", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should record typed adjustments with their reason", async () => {
+      await updateUserBalance(
+        testGroupId, testUserId, -20, "admin123", "debt-added", "Pizza"
+      );
+      await updateUserBalance(
+        testGroupId, testUserId, 5, "admin123", "write-off", "Birthday"
+      );
+
+      const history = await getBalanceHistory(testGroupId, testUserId);
+
+      expect(history.balance).toBe(-15);
+      expect(history.items.map((entry) => entry.type))
+        .toEqual(["write-off", "debt-added"]);
+      expect(history.items[1]).toMatchObject({
+        amount: -20,
+        balanceBefore: 0,
+        balanceAfter: -20,
+        reason: "Pizza",
+        adjustedBy: "admin123",
+      });
+    });
+
+    it("should turn overpayments into credit but not write-offs",
+      async () => {
+        await updateUserBalance(
+          testGroupId, testUserId, -5, "admin123", "debt-added", "Pizza"
+        );
+
+        await expect(updateUserBalance(
+          testGroupId, testUserId, 8, "admin123", "write-off", "Birthday"
+        )).rejects.toThrow("cannot exceed the outstanding debt of 5");
+        await updateUserBalance(
+          testGroupId, testUserId, 8, "admin123", "payment-received", "Cash"
+        );
+
+        const history = await getBalanceHistory(testGroupId, testUserId);
+        expect(history.balance).toBe(3);
+      });
+
+    it("should reject amounts with the wrong sign for the type", async () => {
+      await expect(updateUserBalance(
+        testGroupId, testUserId, 10, "admin123", "debt-added", "Oops"
+      )).rejects.toThrow("Invalid amount");
+      await expect(updateUserBalance(
+        testGroupId, testUserId, -10, "admin123", "payment-received", "Oops"
+      )).rejects.toThrow("Invalid amount");
+    });
+
+    it("should sum to the balance across purchases and tab charges",
+      async () => {
+        await updateGroupPricing(testGroupId, {pricePerBucket: 8});
+        await purchaseBuckets(testGroupId, testUserId, 2, 10);
+        await updateGroupPricing(testGroupId, {
+          consumptionMode: "tab",
+          pricePerUnit: 1.5,
+        });
+        const [consumptionId] =
+          await recordConsumption(testGroupId, testUserId, 3);
+        await reverseConsumption(
+          testGroupId, consumptionId, testUserId, true, "Wrong person"
+        );
+        await updateUserBalance(
+          testGroupId, testUserId, 6, "admin123", "payment-received", "Cash"
+        );
+
+        const history = await getBalanceHistory(testGroupId, testUserId);
+        const total = history.items
+          .reduce((sum, entry) => sum + entry.amount, 0);
+
+        expect(history.items.map((entry) => entry.type)).toEqual([
+          "payment-received",
+          "tab-reversal",
+          "tab-consumption",
+          "bucket-purchase",
+        ]);
+        expect(history.balance).toBe(-10);
+        expect(Math.round(total * 100) / 100).toBe(history.balance);
+      });
+  });
+
+  describe("recordSettlement", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+      await updateUserBalance(
+        testGroupId, testUserId, -12.5, "admin123", "debt-added", "Drinks"
+      );
+    });
+
+    it("should preview the payments without changing anything", async () => {
+      const plan = await getSettlementPlan(testGroupId);
+
+      expect(plan).toEqual({
+        kittyBalance: 0,
+        payments: [{fromUserId: testUserId, toUserId: null, amount: 12.5}],
+        unsettled: [],
+      });
+      const details = await getGroupDetails(testGroupId);
+      expect(details.kittyBalance).toBe(0);
+    });
+
+    it("should apply every payment to balances and the ledger", async () => {
+      const settlement = await recordSettlement(testGroupId, "admin123");
+
+      expect(settlement.payments).toHaveLength(1);
+      const details = await getGroupDetails(testGroupId);
+      expect(details.kittyBalance).toBe(12.5);
+      const history = await getBalanceHistory(testGroupId, testUserId);
+      expect(history.balance).toBe(0);
+      expect(history.items[0]).toMatchObject({
+        type: "settlement",
+        amount: 12.5,
+        balanceAfter: 0,
+      });
+      const transactions = (await getGroupTransactions(testGroupId)).items;
+      expect(transactions[0]).toMatchObject({
+        type: "settlement-payment",
+        amount: 12.5,
+        balanceBefore: 0,
+        balanceAfter: 12.5,
+      });
+      expect((await reconcileKittyBalance(testGroupId)).drift).toBe(0);
+    });
+
+    it("should refuse to settle a group with no balances", async () => {
+      await recordSettlement(testGroupId, "admin123");
+
+      await expect(recordSettlement(testGroupId, "admin123"))
+        .rejects.toThrow("all balances are already zero");
+    });
+
+    it("should explain when only credit the kitty cannot pay is left",
+      async () => {
+        await admin.firestore().collection("groups").doc(testGroupId)
+          .collection("members").doc(testUserId)
+          .update({balance: 4, updatedAt: new Date()});
+
+        expect((await getSettlementPlan(testGroupId)).unsettled)
+          .toEqual([{userId: testUserId, amount: 4}]);
+        await expect(recordSettlement(testGroupId, "admin123"))
+          .rejects.toThrow("the kitty cannot pay out the remaining credit");
+      });
+  });
+
+  describe("processQRCode", () => {
+    const scan = (content: string, confirmed = false) => processQRCode(
+      content, {userId: testUserId, platform: "ios"}, confirmed
+    );
+
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+      await purchaseBuckets(testGroupId, testUserId, 1, 8);
+    });
+
+    it("should record the units on a consumption code", async () => {
+      const {qrCodeContent} = await generateQRCode(
+        testGroupId, "consumption", 300, {units: 2}
+      );
+
+      const result = await scan(qrCodeContent);
+
+      expect(result.action).toBe("consumed");
+      expect(result.consumption?.consumptionIds).toHaveLength(1);
+      const [bucket] = await getUserBuckets(testGroupId, testUserId);
+      expect(bucket.remainingUnits).toBe(6);
+    });
+
+    it("should wait for confirmation when the code asks for it", async () => {
+      const {qrCodeContent} = await generateQRCode(
+        testGroupId, "consumption", 300,
+        {units: 2, confirm: true, singleUse: true}
+      );
+
+      const prompt = await scan(qrCodeContent);
+      expect(prompt).toMatchObject({
+        action: "confirm-consumption",
+        consumption: {units: 2},
+      });
+      expect((await getUserBuckets(testGroupId, testUserId))[0]
+        .remainingUnits).toBe(8);
+
+      expect((await scan(qrCodeContent, true)).action).toBe("consumed");
+      await expect(scan(qrCodeContent, true))
+        .rejects.toMatchObject({code: "QR_ALREADY_USED"});
+    });
+
+    it("should keep a single-use code unused when consumption fails",
+      async () => {
+        const {qrCodeContent} = await generateQRCode(
+          testGroupId, "consumption", 300, {units: 10, singleUse: true}
+        );
+
+        await expect(scan(qrCodeContent))
+          .rejects.toThrow("Insufficient units");
+        const nonces = await admin.firestore().collection("groups")
+          .doc(testGroupId).collection("qr_nonces").get();
+        expect(nonces.empty).toBe(true);
+
+        await purchaseBuckets(testGroupId, testUserId, 1, 8);
+        expect((await scan(qrCodeContent)).action).toBe("consumed");
+        await expect(scan(qrCodeContent))
+          .rejects.toMatchObject({code: "QR_ALREADY_USED"});
+      });
+
+    it("should never consume on an onboarding code", async () => {
+      const {qrCodeContent} = await generateQRCode(testGroupId, "onboarding");
+
+      expect((await scan(qrCodeContent, true)).action)
+        .toBe("already-member");
+      expect((await getUserBuckets(testGroupId, testUserId))[0]
+        .remainingUnits).toBe(8);
+    });
+  });
+
+  describe("resolveQRShortLink", () => {
+    it("should follow the group's app links for printed codes", async () => {
+      const {shortCode, qrCodeContent} = await generateQRCode(testGroupId);
+      expect(qrCodeContent).toMatch(new RegExp(`/q/${shortCode}$`));
+
+      const iosStoreUrl = "https://apps.apple.com/app/id123456";
+      await updateGroupSettings(testGroupId, {appLinks: {iosStoreUrl}});
+
+      const link = await resolveQRShortLink(
+        shortCode, "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)"
+      );
+      expect(link).toMatchObject({
+        groupId: testGroupId,
+        expired: false,
+        redirectUrl: iosStoreUrl,
+      });
+    });
+
+    it("should reject unknown codes", async () => {
+      await expect(resolveQRShortLink("Unknown123"))
+        .rejects.toThrow("QR code not found");
+      await expect(processQRCode(
+        "https://kitty-fb.web.app/q/Unknown123", {platform: "web"}
+      )).rejects.toMatchObject({code: "QR_NOT_FOUND"});
+    });
+  });
+
+  describe("NFC tags", () => {
+    it("should resolve a registered tag to its group and amount", async () => {
+      const tag = await registerNfcTag(
+        testGroupId, {label: "Fridge 2", amount: 2, product: "Beer"},
+        "admin123"
+      );
+
+      expect(await resolveNfcTag(tag.tagId)).toMatchObject({
+        groupId: testGroupId,
+        label: "Fridge 2",
+        amount: 2,
+        product: "Beer",
+        enabled: true,
+      });
+      expect(await getNfcTags(testGroupId)).toHaveLength(1);
+    });
+
+    it("should refuse taps on a disabled tag", async () => {
+      const tag = await registerNfcTag(
+        testGroupId, {label: "Lost tag", amount: 1}, "admin123"
+      );
+
+      await updateNfcTag(
+        testGroupId, tag.tagId, {enabled: false}, "admin123"
+      );
+
+      await expect(resolveNfcTag(tag.tagId))
+        .rejects.toThrow("NFC tag is disabled");
+      const {items} = await getAuditLog(testGroupId);
+      expect(items[0]).toMatchObject({
+        action: "nfc-tag.disabled",
+        target: {type: "nfc-tag", id: tag.tagId},
+      });
+    });
+
+    it("should reject unknown tags", async () => {
+      await expect(resolveNfcTag("unknownTag1"))
+        .rejects.toThrow("NFC tag not found");
+      await expect(updateNfcTag(
+        testGroupId, "unknownTag1", {label: "Shelf"}, "admin123"
+      )).rejects.toThrow("NFC tag not found");
+    });
+  });
+
+  describe("getAuditLog", () => {
+    beforeEach(async () => {
+      await addUserToGroup(testUserId, testGroupId);
+    });
+
+    it("should record changes with before and after values", async () => {
+      await updateUserBalance(
+        testGroupId, testUserId, -20, "admin123", "debt-added", "Pizza"
+      );
+
+      const page = await getAuditLog(testGroupId);
+
+      expect(page.items.map((entry) => entry.action)).toEqual([
+        "member.balance-adjusted",
+        "member.added",
+      ]);
+      expect(page.items[0]).toMatchObject({
+        target: {type: "member", id: testUserId},
+        before: {balance: 0},
+        after: {balance: -20},
+        actorId: "admin123",
+        requestId: null,
+      });
+    });
+
+    it("should attribute changes to the request's caller", async () => {
+      await runWithRequestContext(
+        {requestId: "request123", actorId: testUserId},
+        () => createKittyTransaction(testGroupId, testUserId, 10)
+      );
+
+      const page = await getAuditLog(testGroupId, {
+        action: "kitty.contribution-recorded",
+      });
+
+      expect(page.items.length).toBe(1);
+      expect(page.items[0]).toMatchObject({
+        actorId: testUserId,
+        requestId: "request123",
+        before: {kittyBalance: 0},
+        after: {kittyBalance: 10},
+      });
+    });
+
+    it("should not record changes that fail", async () => {
+      await expect(recordKittyExpense(testGroupId, testUserId, 50, "drinks"))
+        .rejects.toThrow("Insufficient funds in kitty");
+
+      const page = await getAuditLog(testGroupId, {actorId: testUserId});
+
+      expect(page.items).toEqual([]);
+    });
   });
 });
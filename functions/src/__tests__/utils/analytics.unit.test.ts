@@ -0,0 +1,121 @@
+import {
+  StatsRange,
+  buildGroupStats,
+  getPeriodLabel,
+} from "../../utils/analytics";
+
+describe("Group Analytics (Unit Tests)", () => {
+  const range: StatsRange = {
+    from: new Date("2026-10-01T00:00:00Z"),
+    to: new Date("2026-10-31T23:59:59Z"),
+    granularity: "day",
+    utcOffset: 0,
+  };
+
+  const empty = {consumption: [], buckets: [], kittyMovements: []};
+
+  describe("getPeriodLabel", () => {
+    const sunday = new Date("2026-10-18T12:00:00Z");
+
+    it("should label days, weeks and months", () => {
+      expect(getPeriodLabel(sunday, "day")).toBe("2026-10-18");
+      expect(getPeriodLabel(sunday, "week")).toBe("2026-10-12");
+      expect(getPeriodLabel(sunday, "month")).toBe("2026-10");
+    });
+
+    it("should start weeks on Monday", () => {
+      const monday = new Date("2026-10-12T00:00:00Z");
+      expect(getPeriodLabel(monday, "week")).toBe("2026-10-12");
+    });
+  });
+
+  describe("buildGroupStats", () => {
+    const consumption = [
+      {userId: "alice", units: 2, consumedAt: new Date("2026-10-16T17:30:00Z")},
+      {userId: "bob", units: 1, consumedAt: new Date("2026-10-16T18:10:00Z")},
+      {userId: "alice", units: 3, consumedAt: new Date("2026-10-17T17:05:00Z")},
+      // Outside the range
+      {userId: "bob", units: 9, consumedAt: new Date("2026-09-30T17:00:00Z")},
+    ];
+
+    it("should total consumption per member, busiest first", () => {
+      const stats = buildGroupStats({...empty, consumption}, range);
+
+      expect(stats.totals).toEqual({units: 6, records: 3, activeMembers: 2});
+      expect(stats.perMember).toEqual([
+        {userId: "alice", units: 5, records: 2},
+        {userId: "bob", units: 1, records: 1},
+      ]);
+    });
+
+    it("should build a time series at the chosen granularity", () => {
+      expect(buildGroupStats({...empty, consumption}, range).timeSeries)
+        .toEqual([
+          {period: "2026-10-16", units: 3},
+          {period: "2026-10-17", units: 3},
+        ]);
+      expect(buildGroupStats(
+        {...empty, consumption},
+        {...range, granularity: "month"}
+      ).timeSeries).toEqual([{period: "2026-10", units: 6}]);
+    });
+
+    it("should rank the busiest hours and weekdays", () => {
+      const stats = buildGroupStats({...empty, consumption}, range);
+
+      expect(stats.busiestHours.slice(0, 2)).toEqual([
+        {hour: 17, units: 5},
+        {hour: 18, units: 1},
+      ]);
+      expect(stats.busiestHours.length).toBe(24);
+      // 2026-10-16 is a Friday (5), 2026-10-17 a Saturday (6)
+      expect(stats.busiestWeekdays.slice(0, 2)).toEqual([
+        {weekday: 5, units: 3},
+        {weekday: 6, units: 3},
+      ]);
+    });
+
+    it("should apply the caller's UTC offset", () => {
+      const stats = buildGroupStats(
+        {...empty, consumption},
+        {...range, utcOffset: 120}
+      );
+
+      expect(stats.busiestHours[0]).toEqual({hour: 19, units: 5});
+    });
+
+    it("should average the burn-down time of completed buckets", () => {
+      const purchasedAt = new Date("2026-10-10T12:00:00Z");
+      const stats = buildGroupStats({
+        ...empty,
+        buckets: [
+          {purchasedAt, completedAt: new Date("2026-10-11T12:00:00Z")},
+          {purchasedAt, completedAt: new Date("2026-10-13T12:00:00Z")},
+          {purchasedAt, completedAt: null},
+        ],
+      }, range);
+
+      expect(stats.bucketBurnDown).toEqual({
+        completedBuckets: 2,
+        averageHours: 48,
+      });
+      expect(buildGroupStats(empty, range).bucketBurnDown.averageHours)
+        .toBeNull();
+    });
+
+    it("should split kitty movements into inflow and outflow", () => {
+      const createdAt = new Date("2026-10-05T10:00:00Z");
+      const stats = buildGroupStats({
+        ...empty,
+        kittyMovements: [
+          {kittyDelta: 50, createdAt},
+          {kittyDelta: 20.1, createdAt},
+          {kittyDelta: -35.5, createdAt},
+          {kittyDelta: 0, createdAt},
+        ],
+      }, range);
+
+      expect(stats.kitty).toEqual({inflow: 70.1, outflow: 35.5, net: 34.6});
+    });
+  });
+});
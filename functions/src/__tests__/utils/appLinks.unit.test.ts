@@ -0,0 +1,134 @@
+import {
+  DEFAULT_APP_LINK_CONFIG,
+  SHORT_LINK_CODE_LENGTH,
+  detectLinkPlatform,
+  functionBaseUrl,
+  generateShortLinkCode,
+  mergeAppLinkConfig,
+  parseShortLinkCode,
+  pickRedirectTarget,
+  readAppLinkEnv,
+  resolveAppLinks,
+} from "../../utils/appLinks";
+
+describe("App Links (Unit Tests)", () => {
+  const iosStoreUrl = "https://apps.apple.com/app/id123456";
+  const androidStoreUrl =
+    "https://play.google.com/store/apps/details?id=app.kitty";
+
+  it("should read only the app link variables that are set", () => {
+    expect(readAppLinkEnv({
+      APP_SHORT_LINK_BASE_URL: "https://kitty.example",
+      APP_IOS_STORE_URL: iosStoreUrl,
+      APP_ANDROID_STORE_URL: "",
+      QR_SIGNING_KEY_ID: "2024b",
+    })).toEqual({
+      shortLinkBaseUrl: "https://kitty.example",
+      iosStoreUrl,
+    });
+  });
+
+  it("should point short links at the api function by default", () => {
+    expect(readAppLinkEnv({GCLOUD_PROJECT: "kitty-680c6"})).toEqual({
+      shortLinkBaseUrl:
+        "https://us-central1-kitty-680c6.cloudfunctions.net/api",
+    });
+    expect(functionBaseUrl({
+      GCLOUD_PROJECT: "kitty-680c6",
+      FUNCTIONS_EMULATOR: "true",
+    })).toBe("http://127.0.0.1:5001/kitty-680c6/us-central1/api");
+    expect(functionBaseUrl({})).toBeNull();
+
+    // A configured host wins
+    expect(readAppLinkEnv({
+      GCLOUD_PROJECT: "kitty-680c6",
+      APP_SHORT_LINK_BASE_URL: "https://kitty.example",
+    }).shortLinkBaseUrl).toBe("https://kitty.example");
+  });
+
+  it("should let later layers override earlier ones", () => {
+    const config = mergeAppLinkConfig(
+      DEFAULT_APP_LINK_CONFIG,
+      {iosStoreUrl, androidStoreUrl},
+      {webUrl: "https://kitty.example/g/{groupId}"},
+      {androidStoreUrl: null, webUrl: undefined},
+      null
+    );
+
+    expect(config).toEqual({
+      shortLinkBaseUrl: DEFAULT_APP_LINK_CONFIG.shortLinkBaseUrl,
+      webUrl: "https://kitty.example/g/{groupId}",
+      iosStoreUrl,
+      androidStoreUrl: null,
+      deepLinkUrl: null,
+    });
+  });
+
+  it("should never clear the short link host or web app", () => {
+    const config = mergeAppLinkConfig(DEFAULT_APP_LINK_CONFIG, {
+      shortLinkBaseUrl: null as unknown as string,
+      webUrl: "",
+    });
+
+    expect(config.shortLinkBaseUrl)
+      .toBe(DEFAULT_APP_LINK_CONFIG.shortLinkBaseUrl);
+    expect(config.webUrl).toBe(DEFAULT_APP_LINK_CONFIG.webUrl);
+  });
+
+  it("should generate distinct alphanumeric codes", () => {
+    const codes = new Set(
+      Array.from({length: 50}, () => generateShortLinkCode())
+    );
+
+    expect(codes.size).toBe(50);
+    codes.forEach((code) => {
+      expect(code).toMatch(
+        new RegExp(`^[0-9A-Za-z]{${SHORT_LINK_CODE_LENGTH}}$`)
+      );
+    });
+  });
+
+  it("should resolve templates and the short link", () => {
+    const config = mergeAppLinkConfig(DEFAULT_APP_LINK_CONFIG, {
+      shortLinkBaseUrl: "https://kitty.example/",
+      deepLinkUrl: "kittyfb://join/{groupId}?code={code}",
+    });
+
+    expect(resolveAppLinks(config, "group 1", "Ab3dE5gH9k")).toEqual({
+      shortLink: "https://kitty.example/q/Ab3dE5gH9k",
+      web: "https://kitty-fb.web.app/group/group%201",
+      ios: null,
+      android: null,
+      deepLink: "kittyfb://join/group%201?code=Ab3dE5gH9k",
+    });
+  });
+
+  it("should find codes in short links on any host", () => {
+    expect(parseShortLinkCode("https://kitty.example/q/Ab3dE5gH9k"))
+      .toBe("Ab3dE5gH9k");
+    expect(parseShortLinkCode(" https://go.example/app/q/Ab3dE5gH9k/?s=1 "))
+      .toBe("Ab3dE5gH9k");
+    expect(parseShortLinkCode("eyJ0eXBlIjoi.k1.Qm9v")).toBeNull();
+    expect(parseShortLinkCode("https://kitty.example/q/ab")).toBeNull();
+    expect(parseShortLinkCode("https://kitty.example/group/Ab3dE5gH9k"))
+      .toBeNull();
+  });
+
+  it("should send phones to their store and others to the web app", () => {
+    const targets = resolveAppLinks(
+      mergeAppLinkConfig(DEFAULT_APP_LINK_CONFIG, {iosStoreUrl}),
+      "group123",
+      "Ab3dE5gH9k"
+    );
+    const iphone = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)";
+    const android = "Mozilla/5.0 (Linux; Android 14; Pixel 8)";
+
+    expect(detectLinkPlatform(iphone)).toBe("ios");
+    expect(detectLinkPlatform(android)).toBe("android");
+    expect(detectLinkPlatform(undefined)).toBe("web");
+    expect(pickRedirectTarget(targets, "ios")).toBe(iosStoreUrl);
+    // No Play Store URL is configured, so Android falls back to the web
+    expect(pickRedirectTarget(targets, "android")).toBe(targets.web);
+    expect(pickRedirectTarget(targets, "web")).toBe(targets.web);
+  });
+});
@@ -0,0 +1,42 @@
+import {escapeCsvValue, toCsvRow} from "../../utils/csv";
+
+describe("CSV Formatting (Unit Tests)", () => {
+  describe("escapeCsvValue", () => {
+    it("should leave plain values unquoted", () => {
+      expect(escapeCsvValue("coffee")).toBe("coffee");
+      expect(escapeCsvValue(-12.5)).toBe("-12.5");
+      expect(escapeCsvValue(false)).toBe("false");
+    });
+
+    it("should write missing values as empty fields", () => {
+      expect(escapeCsvValue(null)).toBe("");
+      expect(escapeCsvValue(undefined)).toBe("");
+    });
+
+    it("should quote commas, quotes and line breaks", () => {
+      expect(escapeCsvValue("Coffee, large")).toBe("\"Coffee, large\"");
+      expect(escapeCsvValue("The \"good\" beans"))
+        .toBe("\"The \"\"good\"\" beans\"");
+      expect(escapeCsvValue("line one\nline two"))
+        .toBe("\"line one\nline two\"");
+    });
+
+    it("should write dates as ISO 8601", () => {
+      expect(escapeCsvValue(new Date("2026-10-18T12:00:00Z")))
+        .toBe("2026-10-18T12:00:00.000Z");
+    });
+
+    it("should neutralise text that spreadsheets run as formulas", () => {
+      expect(escapeCsvValue("=SUM(A1:A9)")).toBe("'=SUM(A1:A9)");
+      expect(escapeCsvValue("@cmd")).toBe("'@cmd");
+      expect(escapeCsvValue("-5 for the mugs")).toBe("'-5 for the mugs");
+    });
+  });
+
+  describe("toCsvRow", () => {
+    it("should join fields and end the line with CRLF", () => {
+      expect(toCsvRow(["member", "user123", null, 0]))
+        .toBe("member,user123,,0\r\n");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  importBucketRowSchema,
+  importMemberRowSchema,
+} from "../../schemas/validationSchemas";
+import {MAX_IMPORT_ROWS, parseCsvImport} from "../../utils/csvImport";
+import {parseCsv} from "../../utils/csv";
+
+describe("CSV Import (Unit Tests)", () => {
+  describe("parseCsv", () => {
+    it("should read quoted fields and mixed line endings", () => {
+      expect(parseCsv(
+        "\uFEFFname,note\r\n\"Doe, Jane\",\"said \"\"hi\"\"\"\nBob,\n\n"
+      )).toEqual([
+        {line: 1, fields: ["name", "note"]},
+        {line: 2, fields: ["Doe, Jane", "said \"hi\""]},
+        {line: 3, fields: ["Bob", ""]},
+      ]);
+    });
+
+    it("should keep line numbers across multi-line fields", () => {
+      const rows = parseCsv("a,b\n\"one\ntwo\",x\nlast,y");
+      expect(rows[1].fields[0]).toBe("one\ntwo");
+      expect(rows[2].line).toBe(4);
+    });
+
+    it("should reject an unterminated quote", () => {
+      expect(() => parseCsv("a,b\n\"open,x"))
+        .toThrow("Invalid CSV: unterminated quoted field");
+    });
+  });
+
+  describe("parseCsvImport", () => {
+    it("should validate rows and report errors by line", () => {
+      const {rows, errors} = parseCsvImport(
+        "Name,Email,Phone,Balance\n" +
+        "Jane Doe,JANE@example.com,,-12.5\n" +
+        "Bob,not-an-email,+15551234567,5\n" +
+        "Ann,ann@example.com\n",
+        importMemberRowSchema
+      );
+
+      expect(rows).toEqual([{
+        line: 2,
+        values: {name: "Jane Doe", email: "jane@example.com", balance: -12.5},
+      }]);
+      expect(errors).toEqual([
+        {
+          line: 3,
+          errors: ["Please provide a valid email address"],
+        },
+        {line: 4, errors: ["Row has 2 fields, expected 4"]},
+      ]);
+    });
+
+    it("should match headers ignoring case and separators", () => {
+      const {rows} = parseCsvImport(
+        "email,units,Remaining,purchased_at\n" +
+        "jane@example.com,10,4,2026-01-05T18:00:00Z\n",
+        importBucketRowSchema
+      );
+
+      expect(rows[0].values).toEqual({
+        email: "jane@example.com",
+        units: 10,
+        remaining: 4,
+        purchasedAt: new Date("2026-01-05T18:00:00Z"),
+      });
+    });
+
+    it("should reject unknown and missing columns", () => {
+      expect(() => parseCsvImport("name,email,age\nA,a@b.co,3",
+        importMemberRowSchema))
+        .toThrow("Invalid CSV: unknown column \"age\"");
+      expect(() => parseCsvImport("name\nA", importMemberRowSchema))
+        .toThrow("Invalid CSV: missing column email");
+    });
+
+    it("should reject files without data or with too many rows", () => {
+      expect(() => parseCsvImport("name,email\n", importMemberRowSchema))
+        .toThrow("Invalid CSV: the file has no data rows");
+
+      const tooMany = "name,email\n" +
+        "A,a@example.com\n".repeat(MAX_IMPORT_ROWS + 1);
+      expect(() => parseCsvImport(tooMany, importMemberRowSchema))
+        .toThrow(`Invalid CSV: imports are limited to ${MAX_IMPORT_ROWS}`);
+    });
+  });
+});
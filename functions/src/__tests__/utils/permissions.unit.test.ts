@@ -0,0 +1,80 @@
+import {
+  GroupRole,
+  hasAdminOtherThan,
+  hasRequiredRole,
+  MemberRoleData,
+  resolveMemberRole,
+} from "../../utils/permissions";
+
+describe("Group Permissions (Unit Tests)", () => {
+  describe("resolveMemberRole", () => {
+    it("should use the stored role when present", () => {
+      expect(resolveMemberRole({role: "owner", isAdmin: true})).toBe("owner");
+      expect(resolveMemberRole({role: "admin"})).toBe("admin");
+      expect(resolveMemberRole({role: "member"})).toBe("member");
+    });
+
+    it("should fall back to the isAdmin flag for legacy memberships", () => {
+      expect(resolveMemberRole({isAdmin: true})).toBe("admin");
+      expect(resolveMemberRole({isAdmin: false})).toBe("member");
+      expect(resolveMemberRole({})).toBe("member");
+    });
+
+    it("should ignore unknown stored roles", () => {
+      expect(resolveMemberRole({role: "superuser", isAdmin: false}))
+        .toBe("member");
+    });
+  });
+
+  describe("hasRequiredRole", () => {
+    // Full matrix: caller role (rows) x required role (columns)
+    const matrix: Array<[GroupRole | null, Record<GroupRole, boolean>]> = [
+      [null, {member: false, admin: false, owner: false}],
+      ["member", {member: true, admin: false, owner: false}],
+      ["admin", {member: true, admin: true, owner: false}],
+      ["owner", {member: true, admin: true, owner: true}],
+    ];
+
+    matrix.forEach(([role, expectations]) => {
+      (Object.keys(expectations) as GroupRole[]).forEach((required) => {
+        const allowed = expectations[required];
+        it(`should ${allowed ? "allow" : "deny"} ${role ?? "non-member"} ` +
+          `for ${required} routes`, () => {
+          expect(hasRequiredRole(role, required)).toBe(allowed);
+        });
+      });
+    });
+  });
+
+  describe("hasAdminOtherThan", () => {
+    const member = (id: string, data: MemberRoleData) => ({
+      id,
+      data: () => data,
+    });
+
+    it("should find another admin or owner", () => {
+      expect(hasAdminOtherThan([
+        member("a", {role: "admin"}),
+        member("b", {role: "admin"}),
+      ], "a")).toBe(true);
+      expect(hasAdminOtherThan([
+        member("a", {role: "admin"}),
+        member("o", {role: "owner"}),
+      ], "a")).toBe(true);
+    });
+
+    it("should count legacy isAdmin memberships", () => {
+      expect(hasAdminOtherThan([
+        member("a", {role: "admin"}),
+        member("legacy", {isAdmin: true}),
+      ], "a")).toBe(true);
+    });
+
+    it("should not count the excluded user or plain members", () => {
+      expect(hasAdminOtherThan([
+        member("a", {role: "admin"}),
+        member("m", {role: "member"}),
+      ], "a")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  GroupPricing,
+  calculateBucketPrice,
+  calculateTabCharge,
+  exceedsCreditLimit,
+  resolveGroupPricing,
+} from "../../utils/pricing";
+
+describe("Group Pricing (Unit Tests)", () => {
+  const unpriced: GroupPricing = {
+    pricePerBucket: null,
+    pricePerUnit: null,
+    consumptionMode: "buckets",
+    creditLimit: null,
+  };
+
+  describe("resolveGroupPricing", () => {
+    it("should read configured prices", () => {
+      expect(resolveGroupPricing({
+        pricePerBucket: 20,
+        pricePerUnit: 2,
+        consumptionMode: "tab",
+        creditLimit: 50,
+      })).toEqual({
+        pricePerBucket: 20,
+        pricePerUnit: 2,
+        consumptionMode: "tab",
+        creditLimit: 50,
+      });
+    });
+
+    it("should default legacy groups to unpriced bucket mode", () => {
+      expect(resolveGroupPricing({name: "Legacy Group"})).toEqual(unpriced);
+      expect(resolveGroupPricing(undefined)).toEqual(unpriced);
+    });
+
+    it("should ignore unknown consumption modes", () => {
+      expect(resolveGroupPricing({consumptionMode: "honesty-box"})
+        .consumptionMode).toBe("buckets");
+    });
+  });
+
+  describe("calculateBucketPrice", () => {
+    it("should charge the per-bucket price", () => {
+      expect(calculateBucketPrice(
+        {...unpriced, pricePerBucket: 25}, 10
+      )).toBe(25);
+    });
+
+    it("should charge per unit when no bucket price is set", () => {
+      expect(calculateBucketPrice(
+        {...unpriced, pricePerUnit: 1.5}, 10
+      )).toBe(15);
+    });
+
+    it("should prefer the per-bucket price when both are set", () => {
+      expect(calculateBucketPrice(
+        {...unpriced, pricePerBucket: 12, pricePerUnit: 2}, 10
+      )).toBe(12);
+    });
+
+    it("should round per-unit totals to cents", () => {
+      expect(calculateBucketPrice(
+        {...unpriced, pricePerUnit: 0.1}, 3
+      )).toBe(0.3);
+    });
+
+    it("should be free when no pricing is configured", () => {
+      expect(calculateBucketPrice(unpriced, 10)).toBe(0);
+    });
+  });
+
+  describe("calculateTabCharge", () => {
+    it("should charge the per-unit price for each unit", () => {
+      expect(calculateTabCharge({...unpriced, pricePerUnit: 2.5}, 3))
+        .toBe(7.5);
+    });
+
+    it("should require a per-unit price", () => {
+      expect(() => calculateTabCharge({...unpriced, pricePerBucket: 20}, 1))
+        .toThrow("Tab mode requires a price per unit");
+    });
+  });
+
+  describe("exceedsCreditLimit", () => {
+    it("should allow debt up to the limit", () => {
+      expect(exceedsCreditLimit(-50, 50)).toBe(false);
+      expect(exceedsCreditLimit(-49.99, 50)).toBe(false);
+    });
+
+    it("should refuse debt past the limit", () => {
+      expect(exceedsCreditLimit(-50.01, 50)).toBe(true);
+    });
+
+    it("should allow any debt when there is no limit", () => {
+      expect(exceedsCreditLimit(-10000, null)).toBe(false);
+    });
+  });
+});
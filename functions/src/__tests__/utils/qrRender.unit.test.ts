@@ -0,0 +1,121 @@
+import {PNG} from "pngjs";
+import {
+  QRPosterContent,
+  QRRenderOptions,
+  assertScannableColors,
+  decodeLogo,
+  renderQRCode,
+  renderQRCodePng,
+  renderQRCodeSvg,
+} from "../../utils/qrRender";
+
+describe("QR Code Rendering (Unit Tests)", () => {
+  const content = "eyJ0eXBlIjoiY29uc3VtcHRpb24ifQ.k1.c2lnbmF0dXJl";
+  const options: QRRenderOptions = {
+    size: 200,
+    darkColor: "#1A237E",
+    lightColor: "#FFF8E1",
+  };
+  const poster: QRPosterContent = {
+    groupName: "Office Coffee",
+    unitLabel: "coffees",
+    type: "consumption",
+    units: 1,
+    paperSize: "A4",
+  };
+
+  /**
+   * Builds a solid red PNG logo
+   *
+   * @param {number} size - Width and height in pixels
+   * @return {Buffer} The PNG image
+   */
+  function buildLogo(size = 16): Buffer {
+    const png = new PNG({width: size, height: size});
+    for (let i = 0; i < png.data.length; i += 4) {
+      png.data[i] = 255;
+      png.data[i + 3] = 255;
+    }
+    return PNG.sync.write(png);
+  }
+
+  /**
+   * Reads the colour of a pixel as #RRGGBB
+   *
+   * @param {PNG} png - The image
+   * @param {number} x - Column
+   * @param {number} y - Row
+   * @return {string} The colour
+   */
+  function pixel(png: PNG, x: number, y: number): string {
+    const offset = (y * png.width + x) * 4;
+    return "#" + [0, 1, 2].map((channel) => png.data[offset + channel]
+      .toString(16).padStart(2, "0")).join("").toUpperCase();
+  }
+
+  it("should render a PNG in the requested size and colours", () => {
+    const png = PNG.sync.read(renderQRCodePng(content, options));
+
+    expect(png.width).toBe(200);
+    expect(png.height).toBe(200);
+    // Quiet zone, then the finder pattern in the top left corner
+    expect(pixel(png, 0, 0)).toBe("#FFF8E1");
+    expect(pixel(png, 12, 12)).toBe("#FFF8E1");
+    expect(pixel(png, 18, 18)).toBe("#1A237E");
+  });
+
+  it("should draw a logo in the centre of a PNG", () => {
+    const png = PNG.sync.read(
+      renderQRCodePng(content, {...options, logo: buildLogo()})
+    );
+
+    expect(pixel(png, 100, 100)).toBe("#FF0000");
+  });
+
+  it("should render an SVG with the logo embedded", () => {
+    const svg = renderQRCodeSvg(content, {...options, logo: buildLogo()});
+
+    expect(svg).toMatch(/^<svg [^>]*width="200" height="200"/);
+    expect(svg).toContain("fill=\"#1A237E\"");
+    expect(svg).toContain("fill=\"#FFF8E1\"");
+    expect(svg).toContain("xlink:href=\"data:image/png;base64,");
+  });
+
+  it("should keep the logo small enough for error correction", () => {
+    const svg = renderQRCodeSvg(content, {...options, logo: buildLogo()});
+    const total = Number(svg.match(/viewBox="0 0 (\d+)/)?.[1]);
+    const logoSize = Number(svg.match(/<image [^>]*width="(\d+)"/)?.[1]);
+
+    // The symbol is the full width less a four-module quiet zone each side
+    expect(Math.pow(logoSize / (total - 8), 2)).toBeLessThan(0.1);
+  });
+
+  it("should render a printable PDF poster", async () => {
+    const {contentType, data} = await renderQRCode(
+      content, "pdf", options, {...poster, paperSize: "Letter"}
+    );
+
+    expect(contentType).toBe("application/pdf");
+    expect(data.subarray(0, 5).toString()).toBe("%PDF-");
+    // US Letter is 612 x 792 points
+    expect(data.toString("latin1")).toMatch(/MediaBox \[0 0 612 792\]/);
+  });
+
+  it("should refuse colours that will not scan", () => {
+    expect(() => assertScannableColors("#FFFFFF", "#000000"))
+      .toThrow("Invalid colours");
+    expect(() => assertScannableColors("#777777", "#888888"))
+      .toThrow("Invalid colours");
+    expect(() => assertScannableColors("#1A237E", "#FFF8E1"))
+      .not.toThrow();
+  });
+
+  it("should only accept PNG logos", () => {
+    const logo = buildLogo();
+
+    expect(decodeLogo(`data:image/png;base64,${logo.toString("base64")}`))
+      .toEqual(logo);
+    expect(() => decodeLogo("data:image/png;base64,R0lGODlhAQABAAAAACw="))
+      .toThrow("Invalid logo");
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  QRPayload,
+  QRSigningKeyring,
+  parseQRSigningKeys,
+  signQRPayload,
+  verifyQRPayload,
+} from "../../utils/qrSigning";
+
+describe("QR Code Signing (Unit Tests)", () => {
+  const keyring: QRSigningKeyring = {
+    activeKeyId: "k2",
+    keys: {
+      k1: "previous-secret-0123456789",
+      k2: "current-secret-0123456789",
+    },
+  };
+
+  const payload: QRPayload = {
+    type: "consumption",
+    groupId: "group123",
+    version: "2.0",
+    timestamp: 1700000000000,
+  };
+
+  /**
+   * Asserts that verifying a token fails with the given code
+   *
+   * @param {string} token - The token to verify
+   * @param {string} code - The expected error code
+   * @param {number} [now] - Current time in milliseconds
+   */
+  function expectRejected(token: string, code: string, now?: number) {
+    expect(() => verifyQRPayload(token, keyring, now))
+      .toThrow(expect.objectContaining({code}));
+  }
+
+  it("should round-trip a payload signed with the active key", () => {
+    const token = signQRPayload(payload, keyring);
+
+    expect(token.split(".")[1]).toBe("k2");
+    expect(verifyQRPayload(token, keyring)).toEqual(payload);
+  });
+
+  it("should keep verifying codes signed with a rotated-out key", () => {
+    const token = signQRPayload(payload, {...keyring, activeKeyId: "k1"});
+
+    expect(verifyQRPayload(token, keyring).groupId).toBe("group123");
+  });
+
+  it("should reject a payload pointed at another group", () => {
+    const [, keyId, signature] = signQRPayload(payload, keyring).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({...payload, groupId: "other-group"})
+    ).toString("base64url");
+
+    expectRejected(`${forged}.${keyId}.${signature}`, "QR_SIGNATURE_INVALID");
+  });
+
+  it("should reject codes signed with an unknown key", () => {
+    const token = signQRPayload(payload, {
+      activeKeyId: "k9",
+      keys: {k9: "someone-elses-secret-0123"},
+    });
+
+    expectRejected(token, "QR_UNKNOWN_KEY");
+  });
+
+  it("should reject expired codes", () => {
+    const token = signQRPayload(
+      {...payload, expiresAt: payload.timestamp + 60000},
+      keyring
+    );
+
+    expect(verifyQRPayload(token, keyring, payload.timestamp + 59999))
+      .toMatchObject({expiresAt: payload.timestamp + 60000});
+    expectRejected(token, "QR_EXPIRED", payload.timestamp + 60000);
+  });
+
+  it("should reject unsigned legacy JSON codes", () => {
+    expectRejected(
+      JSON.stringify({type: "dual-purpose", groupId: "group123"}),
+      "QR_INVALID_FORMAT"
+    );
+  });
+
+  it("should parse keys from the environment format", () => {
+    expect(parseQRSigningKeys(
+      "k2:current-secret-0123456789, k1:previous-secret-0123456789"
+    )).toEqual(keyring);
+    expect(() => parseQRSigningKeys("k1:short")).toThrow("QR_SIGNING_KEYS");
+    expect(() => parseQRSigningKeys("k1:previous-secret-0123456789", "k3"))
+      .toThrow("QR_SIGNING_KEY_ID");
+  });
+});
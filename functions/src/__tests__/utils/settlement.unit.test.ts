@@ -0,0 +1,84 @@
+import {planSettlement} from "../../utils/settlement";
+
+describe("Settle-up Planning (Unit Tests)", () => {
+  it("should have every debtor pay the kitty when nobody is owed", () => {
+    const plan = planSettlement([
+      {userId: "alice", balance: -12.5},
+      {userId: "bob", balance: -3},
+      {userId: "carol", balance: 0},
+    ], 20);
+
+    expect(plan).toEqual({
+      payments: [
+        {fromUserId: "alice", toUserId: null, amount: 12.5},
+        {fromUserId: "bob", toUserId: null, amount: 3},
+      ],
+      unsettled: [],
+    });
+  });
+
+  it("should pay members the group owes directly", () => {
+    const plan = planSettlement([
+      {userId: "alice", balance: -10},
+      {userId: "bob", balance: 4},
+    ], 0);
+
+    expect(plan.payments).toEqual([
+      {fromUserId: "alice", toUserId: null, amount: 6},
+      {fromUserId: "alice", toUserId: "bob", amount: 4},
+    ]);
+  });
+
+  it("should pair balances that cancel exactly", () => {
+    const plan = planSettlement([
+      {userId: "alice", balance: -7},
+      {userId: "bob", balance: -5},
+      {userId: "carol", balance: 5},
+      {userId: "dave", balance: 7},
+    ], 0);
+
+    expect(plan.payments).toEqual([
+      {fromUserId: "alice", toUserId: "dave", amount: 7},
+      {fromUserId: "bob", toUserId: "carol", amount: 5},
+    ]);
+  });
+
+  it("should never need more payments than parties minus one", () => {
+    const balances = [-9.99, -4.01, -3.5, 2.25, 6.75, 1.1].map(
+      (balance, index) => ({userId: `user${index}`, balance})
+    );
+
+    const plan = planSettlement(balances, 100);
+
+    // Six members plus the kitty
+    expect(plan.payments.length).toBeLessThanOrEqual(6);
+    const net = new Map<string, number>();
+    plan.payments.forEach(({fromUserId, toUserId, amount}) => {
+      const from = fromUserId || "kitty";
+      const to = toUserId || "kitty";
+      net.set(from, (net.get(from) || 0) + amount * 100);
+      net.set(to, (net.get(to) || 0) - amount * 100);
+    });
+    balances.forEach(({userId, balance}) => {
+      expect(Math.round((net.get(userId) || 0) + balance * 100)).toBe(0);
+    });
+  });
+
+  it("should pay out credit from the kitty up to its funds", () => {
+    const plan = planSettlement([
+      {userId: "alice", balance: -2},
+      {userId: "bob", balance: 10},
+    ], 5);
+
+    expect(plan.payments).toEqual([
+      {fromUserId: null, toUserId: "bob", amount: 5},
+      {fromUserId: "alice", toUserId: "bob", amount: 2},
+    ]);
+    expect(plan.unsettled).toEqual([{userId: "bob", amount: 3}]);
+  });
+
+  it("should return an empty plan when everything is settled", () => {
+    expect(planSettlement([{userId: "alice", balance: 0}], 50))
+      .toEqual({payments: [], unsettled: []});
+  });
+});
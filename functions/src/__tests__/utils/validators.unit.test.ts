@@ -10,8 +10,6 @@ import {
   validateGroupExists,
   validateUserGroupMembership,
   validateUserNotInGroup,
-  validateSingleAdmin,
-  validateUserIsGroupAdmin,
 } from "../../utils/validators";
 
 describe("Validation Utilities (Unit Tests)", () => {
@@ -152,121 +150,4 @@ describe("Validation Utilities (Unit Tests)", () => {
         .rejects.toThrow("User is already a member of this group");
     });
   });
-
-  describe("validateSingleAdmin", () => {
-    beforeEach(async () => {
-      // Add user to group as admin
-      const db = admin.firestore();
-      await db.collection("users").doc(testUserId)
-        .collection("groups").doc(testGroupId).set({
-          balance: 0,
-          joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-          isAdmin: true,
-        });
-
-      await db.collection("groups").doc(testGroupId)
-        .collection("members").doc(testUserId).set({
-          balance: 0,
-          joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-          isAdmin: true,
-        });
-    });
-
-    it("should not throw when removing admin and other admins exist",
-      async () => {
-      // Add another admin
-        const otherUserId = await createTestUser();
-        const db = admin.firestore();
-        await db.collection("users").doc(otherUserId)
-          .collection("groups").doc(testGroupId).set({
-            balance: 0,
-            joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-            isAdmin: true,
-          });
-
-        await db.collection("groups").doc(testGroupId)
-          .collection("members").doc(otherUserId).set({
-            balance: 0,
-            joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-            isAdmin: true,
-          });
-
-        // Should not throw when removing admin (isAdmin = false)
-        await expect(validateSingleAdmin(testGroupId, false))
-          .resolves.not.toThrow();
-      });
-
-    it("should throw error when removing last admin", async () => {
-      // Remove admin status first to have 0 admins
-      const db = admin.firestore();
-      await db.collection("users").doc(testUserId)
-        .collection("groups").doc(testGroupId).update({isAdmin: false});
-
-      await db.collection("groups").doc(testGroupId)
-        .collection("members").doc(testUserId).update({isAdmin: false});
-
-      // Should throw when trying to remove admin status when there are 0 admins
-      await expect(validateSingleAdmin(testGroupId, false))
-        .rejects.toThrow("Group must have an admin");
-    });
-
-    it("should not throw when adding admin to group without admin",
-      async () => {
-      // Remove admin status first
-        const db = admin.firestore();
-        await db.collection("users").doc(testUserId)
-          .collection("groups").doc(testGroupId).update({isAdmin: false});
-
-        await db.collection("groups").doc(testGroupId)
-          .collection("members").doc(testUserId).update({isAdmin: false});
-
-        await expect(validateSingleAdmin(testGroupId, true))
-          .resolves.not.toThrow();
-      });
-  });
-
-  describe("validateUserIsGroupAdmin", () => {
-    beforeEach(async () => {
-      // Add user to group as admin
-      const db = admin.firestore();
-      await db.collection("users").doc(testUserId)
-        .collection("groups").doc(testGroupId).set({
-          balance: 0,
-          joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-          isAdmin: true,
-        });
-
-      await db.collection("groups").doc(testGroupId)
-        .collection("members").doc(testUserId).set({
-          balance: 0,
-          joinedAt: admin.firestore.FieldValue.serverTimestamp(),
-          isAdmin: true,
-        });
-    });
-
-    it("should not throw error when user is admin", async () => {
-      await expect(validateUserIsGroupAdmin(testUserId, testGroupId))
-        .resolves.not.toThrow();
-    });
-
-    it("should throw error when user is not admin", async () => {
-      // Change user to non-admin
-      const db = admin.firestore();
-      await db.collection("users").doc(testUserId)
-        .collection("groups").doc(testGroupId).update({isAdmin: false});
-
-      await db.collection("groups").doc(testGroupId)
-        .collection("members").doc(testUserId).update({isAdmin: false});
-
-      await expect(validateUserIsGroupAdmin(testUserId, testGroupId))
-        .rejects.toThrow("Only group admins can perform this action");
-    });
-
-    it("should throw error when user is not in group", async () => {
-      const otherUserId = await createTestUser();
-
-      await expect(validateUserIsGroupAdmin(otherUserId, testGroupId))
-        .rejects.toThrow("User is not a member of this group");
-    });
-  });
 });
@@ -8,16 +8,34 @@ import {
   QRCodeController,
   DevController,
   NFCController,
+  ExportController,
+  ImportController,
 } from "./controllers";
 import {errorHandler, asyncHandler} from "./middleware/errorHandler";
+import {authenticate} from "./middleware/auth";
+import {requestContext} from "./middleware/requestContext";
+import {idempotency} from "./middleware/idempotency";
+import {resolveRequestNfcTag} from "./middleware/nfcTag";
+import {
+  requireRole,
+  requireSelfOrRole,
+  requireSelf,
+} from "./middleware/authorization";
 import {
   validateCreateUser,
   validateCreateGroup,
+  validateGroupSettings,
+  validateGroupPricing,
   validateGroupRoute,
+  validateRemoveGroupMember,
+  validateUpdateMemberRole,
+  validateTransferOwnership,
   validateBucketPurchase,
   validateConsumption,
+  validateReverseConsumption,
   validateUpdateBalance,
   validateKittyTransaction,
+  validateKittyExpense,
   validateCreateJoinRequest,
   validateApproveJoinRequest,
   validateDenyJoinRequest,
@@ -27,13 +45,41 @@ import {
   validateUserIdParam,
   validateGroupAndUserIdParam,
   validateGroupAndRequestIdParam,
+  validateGroupAndConsumptionIdParam,
   validateNfcConsumption,
   validateNfcProfileUpdate,
   validatePhoneNumberParam,
+  validateConsumptionQuery,
+  validateTransactionQuery,
+  validateJoinRequestQuery,
+  validateGroupStatsQuery,
+  validateAuditLogQuery,
+  validateBalanceHistoryQuery,
+  validateGroupExportQuery,
+  validateImportGroupData,
+  validateShortLinkCodeParam,
+  validateRegisterNfcTag,
+  validateUpdateNfcTag,
+  validateGroupAndTagIdParam,
 } from "./middleware/joiValidation";
 
 const app = express();
-app.use(express.json());
+// Raised from the 100kb default so CSV imports fit in one request
+app.use(express.json({limit: "2mb"}));
+
+// Every request gets an ID, used to trace it through the audit log
+app.use(requestContext);
+
+// QR short links are opened by phone cameras without a token, so they
+// resolve before authentication
+app.get(
+  "/q/:code",
+  validateShortLinkCodeParam,
+  asyncHandler(QRCodeController.resolveShortLink)
+);
+
+// Every other route requires a valid Firebase ID token
+app.use(asyncHandler(authenticate));
 
 // Handle creating a new user
 app.post(
@@ -52,6 +98,7 @@ app.post(
 // Handle adding a user to a group
 app.post(
   "/groups/:groupId/members",
+  asyncHandler(requireRole("admin")),
   validateGroupRoute,
   asyncHandler(GroupController.addUserToGroup)
 );
@@ -68,6 +115,8 @@ app.post(
 app.get(
   "/groups/:groupId/join-requests",
   validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateJoinRequestQuery,
   asyncHandler(GroupController.getJoinRequests)
 );
 
@@ -75,6 +124,7 @@ app.get(
 app.post(
   "/groups/:groupId/join-requests/:requestId/approve",
   validateGroupAndRequestIdParam,
+  asyncHandler(requireRole("admin")),
   validateApproveJoinRequest,
   asyncHandler(GroupController.approveJoinRequest)
 );
@@ -83,6 +133,7 @@ app.post(
 app.post(
   "/groups/:groupId/join-requests/:requestId/deny",
   validateGroupAndRequestIdParam,
+  asyncHandler(requireRole("admin")),
   validateDenyJoinRequest,
   asyncHandler(GroupController.denyJoinRequest)
 );
@@ -91,6 +142,8 @@ app.post(
 app.post(
   "/groups/:groupId/buckets",
   validateBucketPurchase,
+  asyncHandler(requireSelfOrRole("admin")),
+  asyncHandler(idempotency),
   asyncHandler(BucketController.purchaseBuckets)
 );
 
@@ -98,20 +151,93 @@ app.post(
 app.post(
   "/groups/:groupId/consumption",
   validateConsumption,
+  asyncHandler(requireSelfOrRole("admin")),
+  asyncHandler(idempotency),
   asyncHandler(BucketController.recordConsumption)
 );
 
+// Handle removing a member, or a member leaving the group
+app.delete(
+  "/groups/:groupId/members/:userId",
+  validateGroupAndUserIdParam,
+  asyncHandler(requireSelfOrRole("admin")),
+  validateRemoveGroupMember,
+  asyncHandler(GroupController.removeUserFromGroup)
+);
+
+// Handle promoting or demoting a member
+app.patch(
+  "/groups/:groupId/members/:userId/role",
+  validateGroupAndUserIdParam,
+  asyncHandler(requireRole("admin")),
+  validateUpdateMemberRole,
+  asyncHandler(GroupController.updateMemberRole)
+);
+
+// Handle transferring group ownership
+app.post(
+  "/groups/:groupId/owner",
+  validateGroupIdParam,
+  asyncHandler(requireRole("owner")),
+  validateTransferOwnership,
+  asyncHandler(GroupController.transferOwnership)
+);
+
 // Handle getting group details
 app.get(
   "/groups/:groupId",
   validateGroupIdParam,
+  asyncHandler(requireRole("member")),
   asyncHandler(GroupController.getGroupDetails)
 );
 
+// Handle updating group settings
+app.patch(
+  "/groups/:groupId",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateGroupSettings,
+  asyncHandler(GroupController.updateGroupSettings)
+);
+
+// Handle archiving a group
+app.post(
+  "/groups/:groupId/archive",
+  validateGroupIdParam,
+  asyncHandler(requireRole("owner")),
+  asyncHandler(GroupController.archiveGroup)
+);
+
+// Handle restoring an archived group
+app.post(
+  "/groups/:groupId/unarchive",
+  validateGroupIdParam,
+  asyncHandler(requireRole("owner")),
+  asyncHandler(GroupController.unarchiveGroup)
+);
+
+// Handle permanently deleting a group
+app.delete(
+  "/groups/:groupId",
+  validateGroupIdParam,
+  asyncHandler(requireRole("owner")),
+  asyncHandler(GroupController.deleteGroup)
+);
+
+// Handle updating group pricing and consumption mode
+app.patch(
+  "/groups/:groupId/pricing",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateGroupPricing,
+  asyncHandler(GroupController.updateGroupPricing)
+);
+
 // Handle getting group members
 app.get(
   "/groups/:groupId/members",
   validateGroupIdParam,
+  asyncHandler(requireRole("member")),
   asyncHandler(GroupController.getGroupMembers)
 );
 
@@ -119,6 +245,7 @@ app.get(
 app.get(
   "/groups/:groupId/members/:userId/buckets",
   validateGroupAndUserIdParam,
+  asyncHandler(requireRole("member")),
   asyncHandler(GroupController.getUserBuckets)
 );
 
@@ -126,36 +253,130 @@ app.get(
 app.patch(
   "/groups/:groupId/members/:userId/balance",
   validateGroupAndUserIdParam,
+  asyncHandler(requireRole("admin")),
   validateUpdateBalance,
   asyncHandler(BalanceController.updateUserBalance)
 );
 
+// Handle previewing the payments that settle a group
+app.get(
+  "/groups/:groupId/settlement",
+  validateGroupIdParam,
+  asyncHandler(requireRole("member")),
+  asyncHandler(BalanceController.getSettlementPlan)
+);
+
+// Handle recording a settle-up
+app.post(
+  "/groups/:groupId/settlement",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  asyncHandler(BalanceController.recordSettlement)
+);
+
+// Handle getting a member's balance history
+app.get(
+  "/groups/:groupId/members/:userId/balance/history",
+  validateGroupAndUserIdParam,
+  asyncHandler(requireSelfOrRole("admin")),
+  validateBalanceHistoryQuery,
+  asyncHandler(BalanceController.getBalanceHistory)
+);
+
 // Handle creating kitty transactions
 app.post(
   "/groups/:groupId/transactions",
   validateGroupIdParam,
   validateKittyTransaction,
+  asyncHandler(requireSelfOrRole("admin")),
   asyncHandler(TransactionController.createKittyTransaction)
 );
 
+// Handle recording kitty expenses and withdrawals
+app.post(
+  "/groups/:groupId/expenses",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateKittyExpense,
+  asyncHandler(TransactionController.recordKittyExpense)
+);
+
 // Handle getting group transaction history
 app.get(
   "/groups/:groupId/transactions",
   validateGroupIdParam,
+  asyncHandler(requireRole("member")),
+  validateTransactionQuery,
   asyncHandler(TransactionController.getGroupTransactions)
 );
 
+// Handle reconciling the kitty balance against the ledger
+app.get(
+  "/groups/:groupId/transactions/reconciliation",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  asyncHandler(TransactionController.reconcileKittyBalance)
+);
+
 // Handle getting group consumption history
 app.get(
   "/groups/:groupId/consumption",
   validateGroupIdParam,
+  asyncHandler(requireRole("member")),
+  validateConsumptionQuery,
   asyncHandler(GroupController.getGroupConsumption)
 );
 
+// Handle getting group consumption and kitty statistics
+app.get(
+  "/groups/:groupId/stats",
+  validateGroupIdParam,
+  asyncHandler(requireRole("member")),
+  validateGroupStatsQuery,
+  asyncHandler(GroupController.getGroupStats)
+);
+
+// Handle getting a group's audit log
+app.get(
+  "/groups/:groupId/audit",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateAuditLogQuery,
+  asyncHandler(GroupController.getAuditLog)
+);
+
+// Handle exporting a group's full ledger as CSV or JSON
+app.get(
+  "/groups/:groupId/export",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateGroupExportQuery,
+  asyncHandler(ExportController.exportGroupData)
+);
+
+// Handle importing members, buckets or consumption history from CSV
+app.post(
+  "/groups/:groupId/import",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateImportGroupData,
+  asyncHandler(ImportController.importGroupData)
+);
+
+// Handle reversing a consumption record
+app.post(
+  "/groups/:groupId/consumption/:consumptionId/reverse",
+  validateGroupAndConsumptionIdParam,
+  asyncHandler(requireRole("member")),
+  validateReverseConsumption,
+  asyncHandler(BucketController.reverseConsumption)
+);
+
 // Handle getting user details
 app.get(
   "/users/:userId",
   validateUserIdParam,
+  asyncHandler(requireSelf),
   asyncHandler(UserController.getUserDetails)
 );
 
@@ -163,6 +384,7 @@ app.get(
 app.post(
   "/groups/:groupId/qr-code",
   validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
   validateGenerateQRCode,
   asyncHandler(QRCodeController.generateQRCode)
 );
@@ -170,6 +392,7 @@ app.post(
 app.post(
   "/groups/:groupId/qr-code/image",
   validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
   validateGenerateQRCode,
   asyncHandler(QRCodeController.generateQRCodeImage)
 );
@@ -177,6 +400,7 @@ app.post(
 app.post(
   "/qr-code/process",
   validateProcessQRCode,
+  asyncHandler(idempotency),
   asyncHandler(QRCodeController.processQRCode)
 );
 
@@ -205,6 +429,9 @@ if (
 app.post(
   "/nfc/consume",
   validateNfcConsumption,
+  asyncHandler(resolveRequestNfcTag),
+  asyncHandler(requireSelfOrRole("admin")),
+  asyncHandler(idempotency),
   asyncHandler(NFCController.consume)
 );
 
@@ -220,6 +447,30 @@ app.get(
   asyncHandler(NFCController.lookupUser)
 );
 
+// NFC tag registry (admin-only)
+app.post(
+  "/groups/:groupId/nfc-tags",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  validateRegisterNfcTag,
+  asyncHandler(NFCController.registerTag)
+);
+
+app.get(
+  "/groups/:groupId/nfc-tags",
+  validateGroupIdParam,
+  asyncHandler(requireRole("admin")),
+  asyncHandler(NFCController.getTags)
+);
+
+app.patch(
+  "/groups/:groupId/nfc-tags/:tagId",
+  validateGroupAndTagIdParam,
+  asyncHandler(requireRole("admin")),
+  validateUpdateNfcTag,
+  asyncHandler(NFCController.updateTag)
+);
+
 // Error handling middleware
 app.use(errorHandler);
 
@@ -1,5 +1,12 @@
 import {Request, Response} from "express";
-import {updateUserBalance} from "../services/firestore";
+import {
+  BalanceAdjustmentType,
+  getBalanceHistory,
+  getSettlementPlan,
+  recordSettlement,
+  updateUserBalance,
+} from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
 
 /**
  * Balance Controller
@@ -11,23 +18,103 @@ export class BalanceController {
   /**
    * Updates a user's balance in a group
    *
+   * The acting admin is taken from the caller's ID token.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    * @return {Promise<void>}
    */
   static async updateUserBalance(req: Request, res: Response): Promise<void> {
     const {groupId, userId} = req.params;
-    const {amount, adminUserId} = req.body;
+    const {amount, type, reason} = req.body as {
+      amount: number;
+      type: BalanceAdjustmentType;
+      reason: string;
+    };
+    const adminUserId = getActingUserId(req);
 
-    await updateUserBalance(groupId, userId, amount, adminUserId);
+    const adjustmentId = await updateUserBalance(
+      groupId,
+      userId,
+      amount,
+      adminUserId,
+      type,
+      reason
+    );
     res.status(200).json({
       message: "User balance updated successfully",
       details: {
         groupId,
         userId,
+        adjustmentId,
         amount,
+        type,
+        reason,
         adminUserId,
       },
     });
   }
+
+  /**
+   * Gets a page of a member's balance history
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async getBalanceHistory(req: Request, res: Response): Promise<void> {
+    const {groupId, userId} = req.params;
+
+    const {balance, items, nextCursor} = await getBalanceHistory(
+      groupId,
+      userId,
+      req.query
+    );
+    res.status(200).json({
+      groupId,
+      userId,
+      balance,
+      history: items,
+      count: items.length,
+      nextCursor,
+    });
+  }
+
+  /**
+   * Gets the payments that would settle all balances in a group
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async getSettlementPlan(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    const plan = await getSettlementPlan(groupId);
+    res.status(200).json({
+      groupId,
+      ...plan,
+    });
+  }
+
+  /**
+   * Records a settle-up, applying every payment of the settlement plan
+   *
+   * The acting admin is taken from the caller's ID token.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async recordSettlement(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    const adminUserId = getActingUserId(req);
+
+    const settlement = await recordSettlement(groupId, adminUserId);
+    res.status(201).json({
+      message: "Settlement recorded successfully",
+      groupId,
+      ...settlement,
+    });
+  }
 }
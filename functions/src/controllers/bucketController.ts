@@ -1,5 +1,11 @@
 import {Request, Response} from "express";
-import {purchaseBuckets, recordConsumption} from "../services/firestore";
+import {
+  purchaseBuckets,
+  recordConsumption,
+  reverseConsumption,
+} from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
+import {hasRequiredRole} from "../utils/permissions";
 
 /**
  * Bucket Controller
@@ -11,13 +17,17 @@ export class BucketController {
   /**
    * Purchases buckets for a user in a group
    *
+   * Defaults to the calling user when no userId is given. Groups in tab
+   * mode do not use buckets, so purchases are refused there.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    * @return {Promise<void>}
    */
   static async purchaseBuckets(req: Request, res: Response): Promise<void> {
     const {groupId} = req.params;
-    const {userId, bucketCount, unitsPerBucket} = req.body;
+    const {bucketCount, unitsPerBucket} = req.body;
+    const userId = req.body.userId || getActingUserId(req);
 
     const bucketIds = await purchaseBuckets(
       groupId,
@@ -39,7 +49,10 @@ export class BucketController {
   }
 
   /**
-   * Records consumption of units from a user's active bucket
+   * Records consumption of units from a user's buckets
+   *
+   * Defaults to the calling user when no userId is given. In tab mode the
+   * units are charged to the user's balance instead of a bucket.
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -47,11 +60,13 @@ export class BucketController {
    */
   static async recordConsumption(req: Request, res: Response): Promise<void> {
     const {groupId} = req.params;
-    const {userId, units} = req.body;
+    const {units} = req.body;
+    const userId = req.body.userId || getActingUserId(req);
 
-    await recordConsumption(groupId, userId, units);
+    const consumptionIds = await recordConsumption(groupId, userId, units);
     res.status(200).json({
       message: "Consumption recorded successfully",
+      consumptionIds,
       details: {
         groupId,
         userId,
@@ -59,4 +74,34 @@ export class BucketController {
       },
     });
   }
+
+  /**
+   * Reverses a consumption record
+   *
+   * Relies on the route's membership check to know the caller's role;
+   * the service decides whether the caller may reverse this record.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async reverseConsumption(req: Request, res: Response): Promise<void> {
+    const {groupId, consumptionId} = req.params;
+    const {reason} = req.body;
+    const reversedBy = getActingUserId(req);
+    const isAdmin = hasRequiredRole(req.membership?.role ?? null, "admin");
+
+    const reversal = await reverseConsumption(
+      groupId,
+      consumptionId,
+      reversedBy,
+      isAdmin,
+      reason
+    );
+    res.status(200).json({
+      message: "Consumption reversed successfully",
+      ...reversal,
+      reversedBy,
+    });
+  }
 }
@@ -0,0 +1,183 @@
+import {Request, Response} from "express";
+import {once} from "events";
+import {
+  ExportSection,
+  GroupExport,
+  getGroupExport,
+} from "../services/firestore";
+import {toCsvRow} from "../utils/csv";
+
+/**
+ * Columns of the CSV export, shared by every record type
+ */
+const CSV_COLUMNS = [
+  "section",
+  "id",
+  "date",
+  "userId",
+  "displayName",
+  "type",
+  "units",
+  "amount",
+  "balanceBefore",
+  "balanceAfter",
+  "note",
+];
+
+/**
+ * Maps an export record onto the shared CSV columns
+ *
+ * @param {ExportSection} section - The section the record belongs to
+ * @param {Record<string, unknown>} record - The export record
+ * @return {unknown[]} The row's values, in CSV_COLUMNS order
+ */
+export function toCsvValues(
+  section: ExportSection,
+  record: Record<string, unknown>
+): unknown[] {
+  const common = [record.userId, record.displayName];
+
+  switch (section) {
+  case "members":
+    return [section, record.userId, record.joinedAt, ...common,
+      record.role, null, record.balance, null, null, null];
+  case "buckets":
+    return [section, record.bucketId, record.purchasedAt, ...common,
+      record.status, record.unitsInBucket, record.unitPrice, null, null,
+      `${record.remainingUnits} of ${record.unitsInBucket} remaining`];
+  case "consumption":
+    return [section, record.consumptionId, record.consumedAt, ...common,
+      record.reversed ? "reversed" : "consumed", record.units,
+      record.charge, null, null,
+      record.reversalReason || (record.bucketId ?
+        `bucket ${record.bucketId}` :
+        "tab")];
+  case "transactions":
+    return [section, record.transactionId, record.createdAt, ...common,
+      record.type, null, record.amount, record.balanceBefore,
+      record.balanceAfter,
+      [record.category, record.comment, record.receiptNote]
+        .filter(Boolean).join(" - ")];
+  case "balanceAdjustments":
+    return [section, record.adjustmentId, record.createdAt, ...common,
+      record.type, null, record.amount, record.balanceBefore,
+      record.balanceAfter,
+      [record.reason, `by ${record.adjustedByName || record.adjustedBy}`]
+        .filter(Boolean).join(" - ")];
+  }
+}
+
+/**
+ * Writes a chunk to the response, waiting for the client to catch up
+ *
+ * @param {Response} res - Express response object
+ * @param {string} chunk - The text to write
+ * @return {Promise<void>}
+ * @throws {Error} "Client disconnected" if the connection has closed
+ */
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed) {
+    throw new Error("Client disconnected");
+  }
+  if (!res.write(chunk)) {
+    await Promise.race([once(res, "drain"), once(res, "close")]);
+  }
+}
+
+/**
+ * Streams an export as a single CSV file
+ *
+ * @param {Response} res - Express response object
+ * @param {GroupExport} groupExport - The export to write
+ * @return {Promise<void>}
+ */
+async function writeCsv(
+  res: Response,
+  groupExport: GroupExport
+): Promise<void> {
+  await write(res, toCsvRow(CSV_COLUMNS));
+  for (const {section, records} of groupExport.sections) {
+    for await (const record of records) {
+      await write(res, toCsvRow(toCsvValues(section, record)));
+    }
+  }
+}
+
+/**
+ * Streams an export as a JSON document with one array per section
+ *
+ * @param {Response} res - Express response object
+ * @param {GroupExport} groupExport - The export to write
+ * @return {Promise<void>}
+ */
+async function writeJson(
+  res: Response,
+  groupExport: GroupExport
+): Promise<void> {
+  await write(res, `{"group":${JSON.stringify(groupExport.group)}`);
+  for (const {section, records} of groupExport.sections) {
+    await write(res, `,"${section}":[`);
+    let separator = "";
+    for await (const record of records) {
+      await write(res, separator + JSON.stringify(record));
+      separator = ",";
+    }
+    await write(res, "]");
+  }
+  await write(res, "}");
+}
+
+/**
+ * Export Controller
+ *
+ * Handles exporting a group's full ledger for accounting. Exports are
+ * streamed so that groups with tens of thousands of records never have
+ * their history held in memory.
+ */
+export class ExportController {
+  /**
+   * Streams a group's members, buckets, consumption, transactions and
+   * balance adjustments as CSV or JSON
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async exportGroupData(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    // Query values have been validated and converted by Joi
+    const {format, from, to} = req.query as unknown as {
+      format: "csv" | "json";
+      from?: Date;
+      to?: Date;
+    };
+
+    // Fails before anything is written, so errors get a normal response
+    const groupExport = await getGroupExport(groupId, {from, to});
+
+    const date = groupExport.group.exportedAt.toISOString().slice(0, 10);
+    res.status(200);
+    res.setHeader(
+      "Content-Type",
+      format === "csv" ? "text/csv; charset=utf-8" : "application/json"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="group-${groupId}-${date}.${format}"`
+    );
+
+    try {
+      if (format === "csv") {
+        await writeCsv(res, groupExport);
+      } else {
+        await writeJson(res, groupExport);
+      }
+      res.end();
+    } catch (error) {
+      // Headers are already sent; abort so the client sees a failed
+      // download rather than a silently truncated file
+      console.error("Export failed mid-stream:", error);
+      res.destroy(error as Error);
+    }
+  }
+}
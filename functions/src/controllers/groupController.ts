@@ -1,16 +1,26 @@
 import {Request, Response} from "express";
 import {
   createGroup,
+  updateGroupSettings,
+  setGroupArchived,
+  deleteGroup,
+  updateGroupPricing,
   addUserToGroup,
+  removeUserFromGroup,
+  updateMemberRole,
+  transferOwnership,
   getGroupDetails,
   getGroupMembers,
   getUserBuckets,
   getGroupConsumption,
+  getGroupStats,
+  getAuditLog,
   createJoinRequest,
   getJoinRequests,
   approveJoinRequest,
   denyJoinRequest,
 } from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
 
 /**
  * Group Controller
@@ -21,7 +31,7 @@ import {
  */
 export class GroupController {
   /**
-   * Creates a new group
+   * Creates a new group owned by the calling user
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -29,10 +39,123 @@ export class GroupController {
    */
   static async createGroup(req: Request, res: Response): Promise<void> {
     const {name} = req.body;
-    const groupId = await createGroup(name);
+    const groupId = await createGroup(name, getActingUserId(req));
     res.status(201).json({groupId});
   }
 
+  /**
+   * Updates a group's name, description, currency or unit label
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async updateGroupSettings(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const {groupId} = req.params;
+    const {name, description, currency, unitLabel, appLinks} = req.body;
+
+    const settings = await updateGroupSettings(groupId, {
+      name,
+      description,
+      currency,
+      unitLabel,
+      appLinks,
+    });
+    res.status(200).json({
+      message: "Group settings updated successfully",
+      groupId,
+      settings,
+    });
+  }
+
+  /**
+   * Archives a group, making it read-only
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async archiveGroup(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    await setGroupArchived(groupId, true, getActingUserId(req));
+    res.status(200).json({
+      message: "Group archived successfully",
+      groupId,
+      status: "archived",
+    });
+  }
+
+  /**
+   * Restores an archived group
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async unarchiveGroup(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    await setGroupArchived(groupId, false, getActingUserId(req));
+    res.status(200).json({
+      message: "Group restored successfully",
+      groupId,
+      status: "active",
+    });
+  }
+
+  /**
+   * Permanently deletes a group and all of its data
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async deleteGroup(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    const result = await deleteGroup(groupId);
+    res.status(200).json({
+      message: "Group deleted successfully",
+      ...result,
+    });
+  }
+
+  /**
+   * Sets the pricing and consumption mode for a group
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async updateGroupPricing(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const {groupId} = req.params;
+    const {
+      pricePerBucket,
+      pricePerUnit,
+      consumptionMode,
+      creditLimit,
+    } = req.body;
+
+    const pricing = await updateGroupPricing(groupId, {
+      pricePerBucket,
+      pricePerUnit,
+      consumptionMode,
+      creditLimit,
+    });
+    res.status(200).json({
+      message: "Group pricing updated successfully",
+      groupId,
+      pricing,
+    });
+  }
+
   /**
    * Adds a user to a group
    *
@@ -51,7 +174,84 @@ export class GroupController {
   }
 
   /**
-   * Creates a join request for a user to join a group
+   * Removes a user from a group
+   *
+   * Members use this to leave a group themselves; admins can also remove
+   * other members.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async removeUserFromGroup(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const {groupId, userId} = req.params;
+    const {bucketHandling, transferToUserId} = req.body;
+    const removedBy = getActingUserId(req);
+
+    const removal = await removeUserFromGroup(
+      groupId,
+      userId,
+      removedBy,
+      bucketHandling,
+      transferToUserId
+    );
+    res.status(200).json({
+      message: userId === removedBy ?
+        "Left group successfully" :
+        "User removed from group successfully",
+      ...removal,
+    });
+  }
+
+  /**
+   * Promotes or demotes a group member
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async updateMemberRole(req: Request, res: Response): Promise<void> {
+    const {groupId, userId} = req.params;
+    const {role} = req.body;
+
+    const change = await updateMemberRole(
+      groupId,
+      userId,
+      role,
+      getActingUserId(req)
+    );
+    res.status(200).json({
+      message: "Member role updated successfully",
+      ...change,
+    });
+  }
+
+  /**
+   * Transfers ownership of a group from the calling owner to another member
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async transferOwnership(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    const {userId} = req.body;
+    const previousOwnerId = getActingUserId(req);
+
+    await transferOwnership(groupId, userId, previousOwnerId);
+    res.status(200).json({
+      message: "Group ownership transferred successfully",
+      groupId,
+      ownerId: userId,
+      previousOwnerId,
+    });
+  }
+
+  /**
+   * Creates a join request for the calling user to join a group
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -59,7 +259,8 @@ export class GroupController {
    */
   static async createJoinRequest(req: Request, res: Response): Promise<void> {
     const {groupId} = req.params;
-    const {userId, message} = req.body;
+    const {message} = req.body;
+    const userId = getActingUserId(req);
 
     const requestId = await createJoinRequest(groupId, userId, message);
     res.status(201).json({
@@ -74,7 +275,7 @@ export class GroupController {
   }
 
   /**
-   * Gets all join requests for a group
+   * Gets a page of join requests for a group
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -83,11 +284,12 @@ export class GroupController {
   static async getJoinRequests(req: Request, res: Response): Promise<void> {
     const {groupId} = req.params;
 
-    const requests = await getJoinRequests(groupId);
+    const {items, nextCursor} = await getJoinRequests(groupId, req.query);
     res.status(200).json({
       groupId,
-      requests,
-      count: requests.length,
+      requests: items,
+      count: items.length,
+      nextCursor,
     });
   }
 
@@ -100,7 +302,8 @@ export class GroupController {
    */
   static async approveJoinRequest(req: Request, res: Response): Promise<void> {
     const {groupId, requestId} = req.params;
-    const {adminUserId, reason} = req.body;
+    const {reason} = req.body;
+    const adminUserId = getActingUserId(req);
 
     await approveJoinRequest(groupId, requestId, adminUserId, reason);
     res.status(200).json({
@@ -123,7 +326,8 @@ export class GroupController {
    */
   static async denyJoinRequest(req: Request, res: Response): Promise<void> {
     const {groupId, requestId} = req.params;
-    const {adminUserId, reason} = req.body;
+    const {reason} = req.body;
+    const adminUserId = getActingUserId(req);
 
     await denyJoinRequest(groupId, requestId, adminUserId, reason);
     res.status(200).json({
@@ -177,7 +381,7 @@ export class GroupController {
   }
 
   /**
-   * Gets consumption history for a group
+   * Gets a page of consumption history for a group
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -185,7 +389,47 @@ export class GroupController {
    */
   static async getGroupConsumption(req: Request, res: Response): Promise<void> {
     const {groupId} = req.params;
-    const consumption = await getGroupConsumption(groupId);
-    res.status(200).json(consumption);
+    const {items, nextCursor} = await getGroupConsumption(groupId, req.query);
+    res.status(200).json({
+      groupId,
+      consumption: items,
+      count: items.length,
+      nextCursor,
+    });
+  }
+
+  /**
+   * Gets consumption and kitty statistics for a group
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async getGroupStats(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    const stats = await getGroupStats(groupId, req.query);
+    res.status(200).json({
+      groupId,
+      ...stats,
+    });
+  }
+
+  /**
+   * Gets a page of a group's audit log
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async getAuditLog(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    const {items, nextCursor} = await getAuditLog(groupId, req.query);
+    res.status(200).json({
+      groupId,
+      entries: items,
+      count: items.length,
+      nextCursor,
+    });
   }
 }
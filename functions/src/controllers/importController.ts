@@ -0,0 +1,53 @@
+import {Request, Response} from "express";
+import {importGroupData} from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
+
+/**
+ * Import Controller
+ *
+ * Handles loading existing members, buckets and consumption history into
+ * a group from CSV, for groups moving over from paper tally sheets or
+ * spreadsheets.
+ */
+export class ImportController {
+  /**
+   * Validates a CSV import and, unless it is a dry run, commits it
+   *
+   * Dry runs and successful imports return 200 with the per-row report.
+   * A real import with invalid rows writes nothing and returns 400 with
+   * the same report.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async importGroupData(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    const {type, csv, dryRun} = req.body;
+
+    const report = await importGroupData(
+      groupId,
+      type,
+      csv,
+      getActingUserId(req),
+      dryRun
+    );
+
+    if (!report.dryRun && !report.committed) {
+      res.status(400).json({
+        error: "Import has invalid rows; nothing was imported",
+        statusCode: 400,
+        ...report,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: report.dryRun ?
+        "Dry run completed" :
+        `Imported ${report.validRows} rows`,
+      groupId,
+      ...report,
+    });
+  }
+}
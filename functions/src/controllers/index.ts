@@ -14,3 +14,5 @@ export {TransactionController} from "./transactionController";
 export {QRCodeController} from "./qrCodeController";
 export {DevController} from "./devController";
 export {NFCController} from "./nfcController";
+export {ExportController} from "./exportController";
+export {ImportController} from "./importController";
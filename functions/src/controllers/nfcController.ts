@@ -4,7 +4,35 @@ import {
   recordConsumption,
   updateUserProfile,
   getGroupDetails,
+  registerNfcTag,
+  getNfcTags,
+  updateNfcTag,
 } from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
+
+/**
+ * Suggests what the user should do after a failed NFC consumption
+ *
+ * @param {string} message - The error message from recordConsumption
+ * @return {string | null} The suggested action, or null if none applies
+ */
+function getConsumptionFailureAction(message: string): string | null {
+  const errorMessage = message.toLowerCase();
+
+  if (errorMessage.includes("not a member")) {
+    return "join-request"; // Suggest joining the group
+  }
+  if (errorMessage.includes("credit limit exceeded")) {
+    return "settle-balance";
+  }
+  if (
+    errorMessage.includes("no active bucket") ||
+    errorMessage.includes("insufficient units")
+  ) {
+    return "purchase-buckets";
+  }
+  return null;
+}
 
 /**
  * NFC Controller
@@ -22,6 +50,16 @@ export class NFCController {
    * 2. User without phone number - prompt for phone
    * 3. New user - onboarding flow
    *
+   * Consumption follows the group's consumption mode: buckets are drained
+   * in "buckets" mode, while "tab" mode charges the user's balance.
+   *
+   * When neither userId nor phoneNumber is given, the calling user is
+   * the consumer.
+   *
+   * Registered tags send only a tagId; the group and amount have been
+   * resolved from the registry by the time this handler runs. Requests
+   * naming the group and amount themselves only get here from admins.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    * @return {Promise<void>}
@@ -59,6 +97,11 @@ export class NFCController {
         }
       }
 
+      // Otherwise the authenticated caller is consuming
+      if (!targetUserId && !phoneNumber) {
+        targetUserId = getActingUserId(req);
+      }
+
       // Scenario 1: User identified (by userId or phone number)
       if (targetUserId) {
         try {
@@ -72,16 +115,22 @@ export class NFCController {
               userId: targetUserId,
               amount,
               groupName: groupDetails.name,
+              consumptionMode: groupDetails.pricing.consumptionMode,
+              tag: req.nfcTag ? {
+                tagId: req.nfcTag.tagId,
+                label: req.nfcTag.label,
+                product: req.nfcTag.product,
+              } : null,
             },
           });
           return;
         } catch (error) {
-          // User might not be in group or other validation error
+          const message = error instanceof Error ? error.message :
+            "Failed to record consumption";
           res.status(400).json({
-            error: error instanceof Error ? error.message :
-              "Failed to record consumption",
+            error: message,
             statusCode: 400,
-            action: "join-request", // Suggest joining the group
+            action: getConsumptionFailureAction(message),
             groupInfo: {
               id: groupId,
               name: groupDetails.name,
@@ -113,7 +162,8 @@ export class NFCController {
   }
 
   /**
-   * Updates user profile with phone number for NFC identification
+   * Updates the calling user's profile with phone number for NFC
+   * identification
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -121,11 +171,12 @@ export class NFCController {
    */
   static async updateProfile(req: Request, res: Response): Promise<void> {
     try {
-      const {userId, phoneNumber} = req.body;
+      const {phoneNumber} = req.body;
+      const userId = getActingUserId(req);
 
-      if (!userId || !phoneNumber) {
+      if (!phoneNumber) {
         res.status(400).json({
-          error: "Missing required fields: userId and phoneNumber are required",
+          error: "Missing required field: phoneNumber is required",
           statusCode: 400,
         });
         return;
@@ -150,6 +201,9 @@ export class NFCController {
   /**
    * Looks up user by phone number
    *
+   * Any signed-in user can call this, so only the user's ID and display
+   * name are returned; email and phone number stay private.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    * @return {Promise<void>}
@@ -182,8 +236,6 @@ export class NFCController {
         data: {
           userId: user.userId,
           displayName: user.displayName,
-          email: user.email,
-          phoneNumber: user.phoneNumber,
         },
       });
     } catch (error) {
@@ -194,4 +246,61 @@ export class NFCController {
       });
     }
   }
+
+  /**
+   * Registers an NFC tag for a group
+   *
+   * The response's `uri` is what should be written to the tag.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async registerTag(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+    const {label, amount, product} = req.body;
+
+    const tag = await registerNfcTag(
+      groupId, {label, amount, product}, getActingUserId(req)
+    );
+    res.status(201).json({
+      message: "NFC tag registered successfully",
+      tag,
+      uri: `kitty://tag/${tag.tagId}`,
+    });
+  }
+
+  /**
+   * Lists a group's NFC tags
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async getTags(req: Request, res: Response): Promise<void> {
+    const {groupId} = req.params;
+
+    const tags = await getNfcTags(groupId);
+    res.status(200).json({groupId, tags});
+  }
+
+  /**
+   * Updates an NFC tag, or disables it so taps are refused
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async updateTag(req: Request, res: Response): Promise<void> {
+    const {groupId, tagId} = req.params;
+    const {label, amount, product, enabled} = req.body;
+
+    const tag = await updateNfcTag(
+      groupId, tagId, {label, amount, product, enabled}, getActingUserId(req)
+    );
+    res.status(200).json({
+      message: "NFC tag updated successfully",
+      tag,
+    });
+  }
 }
@@ -1,5 +1,12 @@
 import {Request, Response} from "express";
-import {generateQRCode, processQRCode} from "../services/firestore";
+import {
+  generateQRCode,
+  generateQRCodeImage,
+  processQRCode,
+  resolveQRShortLink,
+} from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
+import {QRCodeError} from "../utils/qrSigning";
 
 /**
  * QR Code Controller
@@ -18,9 +25,9 @@ export class QRCodeController {
   static async generateQRCode(req: Request, res: Response): Promise<void> {
     try {
       const {groupId} = req.params;
-      const {type, size} = req.body;
+      const {type, size, ...options} = req.body;
 
-      const result = await generateQRCode(groupId, type, size);
+      const result = await generateQRCode(groupId, type, size, options);
 
       res.status(200).json({
         success: true,
@@ -38,16 +45,22 @@ export class QRCodeController {
   }
 
   /**
-   * Processes a scanned QR code
+   * Processes a scanned QR code on behalf of the calling user
+   *
+   * Consumption codes that carry a unit amount record the consumption in
+   * this call, unless they ask the caller to confirm first.
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    */
   static async processQRCode(req: Request, res: Response): Promise<void> {
     try {
-      const {qrData, userContext} = req.body;
+      const {qrData, userContext, confirmed} = req.body;
 
-      const result = await processQRCode(qrData, userContext);
+      const result = await processQRCode(qrData, {
+        ...userContext,
+        userId: getActingUserId(req),
+      }, confirmed);
 
       res.status(200).json({
         success: true,
@@ -59,6 +72,8 @@ export class QRCodeController {
         success: false,
         error: error instanceof Error ? error.message :
           "Failed to process QR code",
+        // Lets clients tell tampered, expired and reused codes apart
+        code: error instanceof QRCodeError ? error.code : null,
         statusCode: 400,
       });
     }
@@ -67,29 +82,31 @@ export class QRCodeController {
   /**
    * Generates and returns QR code as an image
    *
+   * Returns a PNG or SVG image, or a printable PDF poster, depending on
+   * the requested format.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    */
   static async generateQRCodeImage(req: Request, res: Response): Promise<void> {
     try {
       const {groupId} = req.params;
-      const {type, size} = req.body;
-
-      const result = await generateQRCode(groupId, type, size);
+      const {type, size, ...options} = req.body;
 
-      // Convert data URL to buffer
-      const base64Data = result.qrCodeDataUrl.replace(
-        /^data:image\/png;base64,/,
-        ""
-      );
-      const buffer = Buffer.from(base64Data, "base64");
+      const image = await generateQRCodeImage(groupId, type, size, options);
 
       // Set response headers for image
-      res.setHeader("Content-Type", "image/png");
-      res.setHeader("Content-Length", buffer.length);
+      res.setHeader("Content-Type", image.contentType);
+      res.setHeader("Content-Length", image.data.length);
       res.setHeader("Cache-Control", "public, max-age=3600"); // Cache 1 hour
+      if (image.contentType === "application/pdf") {
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename="${image.fileName}"`
+        );
+      }
 
-      res.send(buffer);
+      res.send(image.data);
     } catch (error) {
       res.status(400).json({
         success: false,
@@ -99,4 +116,30 @@ export class QRCodeController {
       });
     }
   }
+
+  /**
+   * Resolves a QR short link opened outside the app
+   *
+   * Browsers are redirected to the app store or web app; clients asking
+   * for JSON get the link's details instead. This route is public.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   */
+  static async resolveShortLink(req: Request, res: Response): Promise<void> {
+    const {code} = req.params;
+
+    const link = await resolveQRShortLink(code, req.get("User-Agent"));
+
+    // Targets follow configuration changes, so never cache the redirect
+    res.setHeader("Cache-Control", "no-store");
+    if (req.accepts(["html", "json"]) === "json") {
+      res.status(200).json({
+        success: true,
+        data: link,
+      });
+      return;
+    }
+    res.redirect(302, link.redirectUrl);
+  }
 }
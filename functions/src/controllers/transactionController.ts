@@ -1,8 +1,11 @@
 import {Request, Response} from "express";
 import {
   createKittyTransaction,
+  recordKittyExpense,
   getGroupTransactions,
+  reconcileKittyBalance,
 } from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
 
 /**
  * Controller for handling kitty balance transactions
@@ -11,6 +14,8 @@ export class TransactionController {
   /**
    * Creates a new kitty balance transaction
    *
+   * Defaults to the calling user as contributor when no userId is given.
+   *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
    * @return {Promise<void>}
@@ -20,7 +25,8 @@ export class TransactionController {
     res: Response
   ): Promise<void> {
     const {groupId} = req.params;
-    const {userId, amount, comment} = req.body;
+    const {amount, comment} = req.body;
+    const userId = req.body.userId || getActingUserId(req);
 
     const transactionId = await createKittyTransaction(
       groupId,
@@ -42,7 +48,47 @@ export class TransactionController {
   }
 
   /**
-   * Gets transaction history for a group
+   * Records an expense or withdrawal from the kitty
+   *
+   * The calling admin is recorded as the user who spent the money.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async recordKittyExpense(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const {groupId} = req.params;
+    const {amount, type, category, receiptNote} = req.body;
+    const adminUserId = getActingUserId(req);
+
+    const transactionId = await recordKittyExpense(
+      groupId,
+      adminUserId,
+      amount,
+      category,
+      receiptNote,
+      type
+    );
+
+    res.status(201).json({
+      message: "Kitty expense recorded successfully",
+      transactionId,
+      details: {
+        groupId,
+        userId: adminUserId,
+        amount,
+        type,
+        category,
+        receiptNote: receiptNote || "",
+      },
+    });
+  }
+
+  /**
+   * Gets a page of transaction history for a group
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -54,12 +100,31 @@ export class TransactionController {
   ): Promise<void> {
     const {groupId} = req.params;
 
-    const transactions = await getGroupTransactions(groupId);
+    const {items, nextCursor} = await getGroupTransactions(groupId, req.query);
 
     res.status(200).json({
       groupId,
-      transactions,
-      count: transactions.length,
+      transactions: items,
+      count: items.length,
+      nextCursor,
     });
   }
+
+  /**
+   * Reconciles a group's kitty balance against its transaction ledger
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @return {Promise<void>}
+   */
+  static async reconcileKittyBalance(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const {groupId} = req.params;
+
+    const report = await reconcileKittyBalance(groupId);
+
+    res.status(200).json(report);
+  }
 }
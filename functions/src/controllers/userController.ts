@@ -1,5 +1,6 @@
 import {Request, Response} from "express";
 import {createUser, getUserDetails} from "../services/firestore";
+import {getActingUserId} from "../middleware/auth";
 
 /**
  * User Controller
@@ -9,7 +10,7 @@ import {createUser, getUserDetails} from "../services/firestore";
  */
 export class UserController {
   /**
-   * Creates a new user
+   * Creates the user document for the calling Firebase Auth user
    *
    * @param {Request} req - Express request object
    * @param {Response} res - Express response object
@@ -17,7 +18,12 @@ export class UserController {
    */
   static async createUser(req: Request, res: Response): Promise<void> {
     const {displayName, email} = req.body;
-    const userId = await createUser(displayName, email);
+    const userId = await createUser(
+      displayName,
+      email,
+      undefined,
+      getActingUserId(req)
+    );
     res.status(201).json({userId});
   }
 
@@ -0,0 +1,135 @@
+import * as admin from "firebase-admin";
+import {Request, Response, NextFunction} from "express";
+import {AppError} from "./errorHandler";
+import {setRequestActor} from "../utils/requestContext";
+
+/**
+ * AUTHENTICATION MIDDLEWARE
+ *
+ * This middleware verifies the Firebase ID token sent by the client in the
+ * `Authorization: Bearer <token>` header and attaches the caller's identity
+ * to the request. Controllers read the acting user from the request instead
+ * of trusting user IDs sent in the request body.
+ *
+ * Token verification is pluggable so that tests can swap in a fake verifier.
+ * When FIREBASE_AUTH_EMULATOR_HOST is set, the Admin SDK verifies tokens
+ * issued by the local Auth emulator automatically.
+ */
+
+/**
+ * Identity of the authenticated caller
+ */
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+}
+
+/**
+ * Function that turns a raw ID token into an authenticated user
+ */
+export type TokenVerifier = (idToken: string) => Promise<AuthenticatedUser>;
+
+/**
+ * Default verifier backed by Firebase Auth
+ *
+ * @param {string} idToken - The Firebase ID token to verify
+ * @return {Promise<AuthenticatedUser>} The verified identity
+ */
+const firebaseTokenVerifier: TokenVerifier = async (idToken) => {
+  const decodedToken = await admin.auth().verifyIdToken(idToken);
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email,
+  };
+};
+
+let tokenVerifier: TokenVerifier = firebaseTokenVerifier;
+
+/**
+ * Replaces the token verifier used by the authentication middleware
+ *
+ * Intended for tests, which can verify fake tokens without reaching
+ * Firebase Auth. Call resetTokenVerifier to restore the default.
+ *
+ * @param {TokenVerifier} verifier - The verifier to use
+ *
+ * @example
+ * setTokenVerifier(async (token) => ({uid: token}));
+ */
+export function setTokenVerifier(verifier: TokenVerifier): void {
+  tokenVerifier = verifier;
+}
+
+/**
+ * Restores the default Firebase Auth token verifier
+ */
+export function resetTokenVerifier(): void {
+  tokenVerifier = firebaseTokenVerifier;
+}
+
+/**
+ * Extracts the bearer token from the Authorization header
+ *
+ * @param {Request} req - Express request object
+ * @return {string | null} The token, or null if the header is missing
+ * or malformed
+ */
+function extractBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(" ");
+  if (scheme !== "Bearer" || !token) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Authentication middleware
+ *
+ * Rejects the request with 401 when no valid ID token is provided,
+ * otherwise attaches the verified identity as `req.user` and records it
+ * as the actor in the request context.
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} _res - Express response object (unused)
+ * @param {NextFunction} next - Express next function
+ * @return {Promise<void>}
+ */
+export const authenticate = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const idToken = extractBearerToken(req);
+  if (!idToken) {
+    throw new AppError("Missing or malformed Authorization header", 401);
+  }
+
+  try {
+    req.user = await tokenVerifier(idToken);
+  } catch (error) {
+    throw new AppError("Invalid or expired ID token", 401);
+  }
+
+  setRequestActor(req.user.uid);
+  next();
+};
+
+/**
+ * Returns the ID of the authenticated caller
+ *
+ * @param {Request} req - Express request object
+ * @return {string} The caller's user ID
+ * @throws {AppError} 401 if the request was not authenticated
+ */
+export function getActingUserId(req: Request): string {
+  if (!req.user) {
+    throw new AppError("Authentication required", 401);
+  }
+  return req.user.uid;
+}
@@ -0,0 +1,148 @@
+import {Request, Response, NextFunction} from "express";
+import {AppError} from "./errorHandler";
+import {getActingUserId} from "./auth";
+import {getGroupMemberRole} from "../utils/validators";
+import {GroupRole, hasRequiredRole} from "../utils/permissions";
+
+/**
+ * AUTHORIZATION MIDDLEWARE
+ *
+ * Declarative, per-route permission checks for group-scoped routes.
+ * Each route states the minimum role it needs, for example:
+ *
+ *   app.patch("/groups/:groupId/members/:userId/balance",
+ *     asyncHandler(requireRole("admin")), ...)
+ *
+ * The group is taken from the `groupId` path parameter, or from the
+ * request body for routes that carry it there (e.g. NFC consumption).
+ * These middlewares must run after `authenticate`.
+ */
+
+/**
+ * The caller's membership, attached by the authorization middleware
+ */
+export interface GroupMembershipContext {
+  groupId: string;
+  userId: string;
+  role: GroupRole;
+}
+
+/**
+ * Gets the group ID a request is scoped to
+ *
+ * @param {Request} req - Express request object
+ * @return {string | undefined} The group ID, if any
+ */
+function getRequestGroupId(req: Request): string | undefined {
+  return req.params?.groupId || req.body?.groupId;
+}
+
+/**
+ * Checks that the caller holds at least the required role in the group
+ * and attaches their membership to the request
+ *
+ * @param {Request} req - Express request object
+ * @param {GroupRole} required - The minimum role required
+ * @return {Promise<void>}
+ * @throws {AppError} 400 if the request has no group, 403 if the caller
+ * is not a member or lacks the role
+ */
+async function authorizeGroupRole(
+  req: Request,
+  required: GroupRole
+): Promise<void> {
+  const userId = getActingUserId(req);
+  const groupId = getRequestGroupId(req);
+
+  if (!groupId) {
+    throw new AppError("Missing group ID", 400);
+  }
+
+  const role = await getGroupMemberRole(userId, groupId);
+
+  if (!role) {
+    throw new AppError("Only group members can access this group", 403);
+  }
+
+  if (!hasRequiredRole(role, required)) {
+    throw new AppError(`This action requires the ${required} role`, 403);
+  }
+
+  req.membership = {groupId, userId, role};
+}
+
+/**
+ * Requires the caller to hold at least the given role in the group
+ *
+ * @param {GroupRole} required - The minimum role required
+ * @return {Function} Async Express middleware
+ *
+ * @example
+ * app.get("/groups/:groupId", asyncHandler(requireRole("member")), ...);
+ */
+export const requireRole = (required: GroupRole) => {
+  return async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await authorizeGroupRole(req, required);
+    next();
+  };
+};
+
+/**
+ * Allows callers to act for themselves, but requires the given role
+ * when acting on behalf of another user
+ *
+ * A request acts on behalf of someone else when it names a different
+ * `userId` (path or body), or identifies the user by `phoneNumber`.
+ * Self-targeted requests pass through; the service layer still
+ * validates that the caller is a member of the group.
+ *
+ * @param {GroupRole} required - The role required to act for others
+ * @return {Function} Async Express middleware
+ *
+ * @example
+ * app.post("/groups/:groupId/consumption",
+ *   asyncHandler(requireSelfOrRole("admin")), ...);
+ */
+export const requireSelfOrRole = (required: GroupRole) => {
+  return async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const callerId = getActingUserId(req);
+    const targetUserId = req.params?.userId || req.body?.userId;
+    const actsForOther = targetUserId ?
+      targetUserId !== callerId :
+      !!req.body?.phoneNumber;
+
+    if (actsForOther) {
+      await authorizeGroupRole(req, required);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Restricts user-scoped routes to the user themselves
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} _res - Express response object (unused)
+ * @param {NextFunction} next - Express next function
+ * @return {Promise<void>}
+ * @throws {AppError} 403 if the `userId` path parameter is not the caller
+ */
+export const requireSelf = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (req.params?.userId !== getActingUserId(req)) {
+    throw new AppError("Users can only access their own profile", 403);
+  }
+  next();
+};
@@ -81,7 +81,11 @@ export const errorHandler = (
     errorMessage.includes("invalid") ||
     errorMessage.includes("less than 0") ||
     errorMessage.includes("withdraw more than current balance") ||
-    errorMessage.includes("insufficient funds in kitty")
+    errorMessage.includes("insufficient funds in kitty") ||
+    errorMessage.includes("insufficient units") ||
+    errorMessage.includes("no active bucket") ||
+    errorMessage.includes("credit limit exceeded") ||
+    errorMessage.includes("tab mode")
   ) {
     res.status(400).json({
       error: error.message,
@@ -102,8 +106,32 @@ export const errorHandler = (
     return;
   }
 
+  // Permission errors (403 Forbidden)
+  if (
+    errorMessage.includes("only group admins") ||
+    errorMessage.includes("only the group owner") ||
+    errorMessage.includes("nfc tag is disabled")
+  ) {
+    res.status(403).json({
+      error: error.message,
+      statusCode: 403,
+    });
+    return;
+  }
+
   // Conflict errors (409 Conflict)
-  if (errorMessage.includes("already a member")) {
+  if (
+    errorMessage.includes("already a member") ||
+    errorMessage.includes("already exists") ||
+    errorMessage.includes("already been reversed") ||
+    errorMessage.includes("cannot be reversed") ||
+    errorMessage.includes("outstanding debt") ||
+    errorMessage.includes("unsettled credit") ||
+    errorMessage.includes("must have an admin") ||
+    errorMessage.includes("ownership") ||
+    errorMessage.includes("group is archived") ||
+    errorMessage.includes("nothing to settle")
+  ) {
     res.status(409).json({
       error: error.message,
       statusCode: 409,
@@ -0,0 +1,225 @@
+import * as admin from "firebase-admin";
+import {createHash} from "crypto";
+import {Request, Response, NextFunction} from "express";
+import {AppError} from "./errorHandler";
+import {getActingUserId} from "./auth";
+
+/**
+ * IDEMPOTENCY MIDDLEWARE
+ *
+ * Lets clients retry mutating requests safely. A request that carries an
+ * `Idempotency-Key` header is processed once; its response is stored and
+ * replayed for any retry with the same key, so an NFC reader or a mobile
+ * client on a flaky connection cannot record the same consumption twice.
+ *
+ * Keys are scoped to the caller, method and URL, and kept for
+ * IDEMPOTENCY_KEY_TTL_HOURS. Reusing a key with a different body is
+ * rejected with 422, and a retry that arrives while the first request is
+ * still running gets 409. Server errors (5xx) are not stored, so the
+ * request can be retried with the same key.
+ *
+ * Storage is pluggable so that tests can swap in an in-memory store.
+ * Must run after `authenticate`.
+ */
+
+/**
+ * How long responses are kept for replay
+ */
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+/**
+ * How long a request may run before its key can be claimed again, in case
+ * the instance handling it died
+ */
+export const IDEMPOTENCY_LOCK_SECONDS = 60;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+/**
+ * A stored idempotency key and, once complete, the response to replay
+ */
+export interface IdempotencyRecord {
+  requestHash: string;
+  state: "in-progress" | "completed";
+  statusCode?: number;
+  body?: unknown;
+}
+
+/**
+ * Storage for idempotency keys
+ */
+export interface IdempotencyStore {
+  /**
+   * Claims a key for a new request
+   *
+   * Returns null when the key was free (or expired) and is now claimed,
+   * otherwise the existing record.
+   */
+  claim(id: string, requestHash: string): Promise<IdempotencyRecord | null>;
+  /** Stores the response of a claimed request */
+  complete(id: string, statusCode: number, body: unknown): Promise<void>;
+  /** Frees a claimed key so the request can be retried */
+  release(id: string): Promise<void>;
+}
+
+/**
+ * Default store backed by the `idempotency_keys` collection
+ *
+ * Bodies are stored as JSON text so they replay exactly as first sent.
+ * Expired records are removed by a Firestore TTL policy on `expiresAt`.
+ */
+const firestoreIdempotencyStore: IdempotencyStore = {
+  async claim(id, requestHash) {
+    const db = admin.firestore();
+    const keyRef = db.collection("idempotency_keys").doc(id);
+
+    return db.runTransaction(async (transaction) => {
+      const keyDoc = await transaction.get(keyRef);
+      const keyData = keyDoc.data();
+      const now = Date.now();
+
+      const expired = !keyData || keyData.expiresAt.toMillis() <= now;
+      const abandoned = keyData?.state === "in-progress" &&
+        keyData.lockedUntil.toMillis() <= now;
+
+      if (keyData && !expired && !abandoned) {
+        return {
+          requestHash: keyData.requestHash,
+          state: keyData.state,
+          statusCode: keyData.statusCode,
+          body: keyData.responseBody === undefined ?
+            undefined :
+            JSON.parse(keyData.responseBody),
+        };
+      }
+
+      transaction.set(keyRef, {
+        requestHash,
+        state: "in-progress",
+        createdAt: new Date(now),
+        lockedUntil: new Date(now + IDEMPOTENCY_LOCK_SECONDS * 1000),
+        expiresAt: new Date(now + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+      });
+      return null;
+    });
+  },
+
+  async complete(id, statusCode, body) {
+    await admin.firestore().collection("idempotency_keys").doc(id).update({
+      state: "completed",
+      statusCode,
+      responseBody: JSON.stringify(body ?? null),
+      completedAt: new Date(),
+    });
+  },
+
+  async release(id) {
+    await admin.firestore().collection("idempotency_keys").doc(id).delete();
+  },
+};
+
+let idempotencyStore: IdempotencyStore = firestoreIdempotencyStore;
+
+/**
+ * Replaces the store used by the idempotency middleware
+ *
+ * Intended for tests. Call resetIdempotencyStore to restore the default.
+ *
+ * @param {IdempotencyStore} store - The store to use
+ */
+export function setIdempotencyStore(store: IdempotencyStore): void {
+  idempotencyStore = store;
+}
+
+/**
+ * Restores the default Firestore idempotency store
+ */
+export function resetIdempotencyStore(): void {
+  idempotencyStore = firestoreIdempotencyStore;
+}
+
+/**
+ * Hashes a value for use as a document ID or fingerprint
+ *
+ * @param {string} value - The value to hash
+ * @return {string} The hex SHA-256 digest
+ */
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Idempotency middleware
+ *
+ * Requests without an `Idempotency-Key` header pass straight through.
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @return {Promise<void>}
+ * @throws {AppError} 400 for a malformed key, 409 while the original
+ * request is still running, 422 if the key was used with another body
+ *
+ * @example
+ * app.post("/groups/:groupId/consumption", validateConsumption,
+ *   asyncHandler(requireSelfOrRole("admin")), asyncHandler(idempotency),
+ *   asyncHandler(BucketController.recordConsumption));
+ */
+export const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) {
+    next();
+    return;
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new AppError(
+      "Invalid Idempotency-Key header: use 1-255 printable characters",
+      400
+    );
+  }
+
+  const id = sha256(
+    [getActingUserId(req), req.method, req.originalUrl, key].join("\n")
+  );
+  const requestHash = sha256(JSON.stringify(req.body ?? null));
+
+  const existing = await idempotencyStore.claim(id, requestHash);
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      throw new AppError(
+        "Idempotency-Key has already been used with a different request",
+        422
+      );
+    }
+    if (existing.state === "in-progress") {
+      throw new AppError(
+        "A request with this Idempotency-Key is still being processed",
+        409
+      );
+    }
+    res.setHeader("Idempotent-Replayed", "true");
+    res.status(existing.statusCode || 200).json(existing.body);
+    return;
+  }
+
+  // Store the response before sending it, so a retry that follows
+  // immediately is replayed rather than reported as in progress
+  const sendJson = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    const saved = res.statusCode < 500 ?
+      idempotencyStore.complete(id, res.statusCode, body) :
+      idempotencyStore.release(id);
+    saved
+      .catch((error) => {
+        console.error("Failed to store idempotent response:", error);
+      })
+      .finally(() => sendJson(body));
+    return res;
+  }) as Response["json"];
+
+  next();
+};
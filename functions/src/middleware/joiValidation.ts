@@ -2,11 +2,18 @@
 import {
   createUserSchema,
   createGroupSchema,
+  updateGroupSettingsSchema,
+  updateGroupPricingSchema,
   addUserToGroupSchema,
+  removeGroupMemberSchema,
+  updateMemberRoleSchema,
+  transferOwnershipSchema,
   purchaseBucketsSchema,
   recordConsumptionSchema,
+  reverseConsumptionSchema,
   updateUserBalanceSchema,
   createKittyTransactionSchema,
+  recordKittyExpenseSchema,
   createJoinRequestSchema,
   approveJoinRequestSchema,
   denyJoinRequestSchema,
@@ -14,22 +21,36 @@ import {
   userIdParamSchema,
   groupAndUserIdParamSchema,
   groupAndRequestIdParamSchema,
+  groupAndConsumptionIdParamSchema,
   generateQRCodeSchema,
   processQRCodeSchema,
   enhancedCreateJoinRequestSchema,
   nfcConsumptionSchema,
   nfcProfileUpdateSchema,
+  registerNfcTagSchema,
+  updateNfcTagSchema,
+  groupAndTagIdParamSchema,
   phoneNumberParamSchema,
+  shortLinkCodeParamSchema,
+  consumptionQuerySchema,
+  transactionQuerySchema,
+  joinRequestQuerySchema,
+  auditLogQuerySchema,
+  balanceHistoryQuerySchema,
+  groupStatsQuerySchema,
+  groupExportQuerySchema,
+  importGroupDataSchema,
   createValidationMiddleware,
   createParamValidationMiddleware,
+  createQueryValidationMiddleware,
 } from "../schemas/validationSchemas";
 
 /**
  * Joi Validation Middleware
  *
  * This file exports pre-configured validation middleware for each API endpoint.
- * Each middleware function validates request bodies or path parameters
- * using Joi schemas and provides consistent error handling.
+ * Each middleware function validates request bodies, path parameters or
+ * query strings using Joi schemas and provides consistent error handling.
  */
 
 // User creation validation
@@ -39,10 +60,39 @@ export const validateCreateUser = createValidationMiddleware(createUserSchema);
 export const validateCreateGroup =
 createValidationMiddleware(createGroupSchema);
 
+// Group settings validation
+export const validateGroupSettings = createValidationMiddleware(
+  updateGroupSettingsSchema
+);
+
+// Group pricing validation
+export const validateGroupPricing = createValidationMiddleware(
+  updateGroupPricingSchema
+);
+
 // Add user to group validation
 export const validateGroupRoute =
 createValidationMiddleware(addUserToGroupSchema);
 
+// Member role and ownership validation
+export const validateUpdateMemberRole = createValidationMiddleware(
+  updateMemberRoleSchema
+);
+
+export const validateTransferOwnership = createValidationMiddleware(
+  transferOwnershipSchema
+);
+
+// Group data import validation
+export const validateImportGroupData = createValidationMiddleware(
+  importGroupDataSchema
+);
+
+// Remove group member validation
+export const validateRemoveGroupMember = createValidationMiddleware(
+  removeGroupMemberSchema
+);
+
 // Bucket purchase validation
 export const validateBucketPurchase = createValidationMiddleware(
   purchaseBucketsSchema
@@ -53,6 +103,11 @@ export const validateConsumption = createValidationMiddleware(
   recordConsumptionSchema
 );
 
+// Consumption reversal validation
+export const validateReverseConsumption = createValidationMiddleware(
+  reverseConsumptionSchema
+);
+
 // Update user balance validation
 export const validateUpdateBalance = createValidationMiddleware(
   updateUserBalanceSchema
@@ -63,6 +118,11 @@ export const validateKittyTransaction = createValidationMiddleware(
   createKittyTransactionSchema
 );
 
+// Kitty expense validation
+export const validateKittyExpense = createValidationMiddleware(
+  recordKittyExpenseSchema
+);
+
 // Join request validation
 export const validateCreateJoinRequest = createValidationMiddleware(
   createJoinRequestSchema
@@ -102,6 +162,31 @@ export const validateGroupAndUserIdParam = createParamValidationMiddleware(
 export const validateGroupAndRequestIdParam = createParamValidationMiddleware(
   groupAndRequestIdParamSchema
 );
+export const validateGroupAndConsumptionIdParam =
+  createParamValidationMiddleware(groupAndConsumptionIdParamSchema);
+
+// Query string validations
+export const validateConsumptionQuery = createQueryValidationMiddleware(
+  consumptionQuerySchema
+);
+export const validateTransactionQuery = createQueryValidationMiddleware(
+  transactionQuerySchema
+);
+export const validateJoinRequestQuery = createQueryValidationMiddleware(
+  joinRequestQuerySchema
+);
+export const validateAuditLogQuery = createQueryValidationMiddleware(
+  auditLogQuerySchema
+);
+export const validateBalanceHistoryQuery = createQueryValidationMiddleware(
+  balanceHistoryQuerySchema
+);
+export const validateGroupStatsQuery = createQueryValidationMiddleware(
+  groupStatsQuerySchema
+);
+export const validateGroupExportQuery = createQueryValidationMiddleware(
+  groupExportQuerySchema
+);
 
 // NFC validation
 export const validateNfcConsumption = createValidationMiddleware(
@@ -112,6 +197,22 @@ export const validateNfcProfileUpdate = createValidationMiddleware(
   nfcProfileUpdateSchema
 );
 
+export const validateRegisterNfcTag = createValidationMiddleware(
+  registerNfcTagSchema
+);
+
+export const validateUpdateNfcTag = createValidationMiddleware(
+  updateNfcTagSchema
+);
+
+export const validateGroupAndTagIdParam = createParamValidationMiddleware(
+  groupAndTagIdParamSchema
+);
+
 export const validatePhoneNumberParam = createParamValidationMiddleware(
   phoneNumberParamSchema
 );
+
+export const validateShortLinkCodeParam = createParamValidationMiddleware(
+  shortLinkCodeParamSchema
+);
@@ -0,0 +1,47 @@
+import {Request, Response, NextFunction} from "express";
+import {resolveNfcTag} from "../services/firestore";
+import {requireRole} from "./authorization";
+
+/**
+ * NFC TAG MIDDLEWARE
+ *
+ * Resolves a registered NFC tag for `POST /nfc/consume`. Tags carry only
+ * their ID, so the group and amount come from the group's `nfc_tags`
+ * registry instead of the request. They are copied into the body before
+ * authorization runs, which lets `requireSelfOrRole` check the tag's
+ * group like any other NFC request.
+ *
+ * Requests without a `tagId` name the group and amount themselves, as
+ * tags written before the registry did. Those tags can never be revoked,
+ * so such requests are only accepted from the group's admins, e.g. to
+ * record a tap by hand.
+ */
+
+/**
+ * NFC tag resolution middleware
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @return {Promise<void>}
+ * @throws {Error} "NFC tag not found" or "NFC tag is disabled"
+ * @throws {AppError} 403 if a non-admin sends a group and amount instead
+ * of a tag
+ */
+export const resolveRequestNfcTag = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const tagId = req.body?.tagId;
+  if (!tagId) {
+    await requireRole("admin")(req, res, next);
+    return;
+  }
+
+  const tag = await resolveNfcTag(tagId);
+  req.nfcTag = tag;
+  req.body.groupId = tag.groupId;
+  req.body.amount = tag.amount;
+  next();
+};
@@ -0,0 +1,36 @@
+import {randomUUID} from "crypto";
+import {Request, Response, NextFunction} from "express";
+import {runWithRequestContext} from "../utils/requestContext";
+
+/**
+ * REQUEST CONTEXT MIDDLEWARE
+ *
+ * Gives every request an ID and makes it available to the rest of the
+ * request's handling through the request context. A client-supplied
+ * `X-Request-Id` is kept when it looks like an ID, so requests can be
+ * traced end to end; otherwise a new one is generated. The ID is echoed
+ * in the response's `X-Request-Id` header.
+ */
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Request context middleware
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const headerId = req.get("X-Request-Id");
+  const requestId = headerId && REQUEST_ID_PATTERN.test(headerId) ?
+    headerId :
+    randomUUID();
+
+  res.setHeader("X-Request-Id", requestId);
+  runWithRequestContext({requestId, actorId: null}, () => next());
+};
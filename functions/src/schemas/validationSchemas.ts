@@ -1,4 +1,5 @@
 import * as Joi from "joi";
+import {Request, Response, NextFunction} from "express";
 
 /**
  * VALIDATION SCHEMAS
@@ -86,6 +87,106 @@ export const createGroupSchema = Joi.object({
     }),
 });
 
+/**
+ * Update group settings schema
+ */
+export const updateGroupSettingsSchema = Joi.object({
+  name: Joi.string()
+    .min(1)
+    .max(100)
+    .trim()
+    .messages({
+      "string.empty": "Group name cannot be empty",
+      "string.min": "Group name must be at least 1 character",
+      "string.max": "Group name cannot exceed 100 characters",
+    }),
+  description: Joi.string()
+    .max(500)
+    .trim()
+    .allow("")
+    .messages({
+      "string.max": "Description cannot exceed 500 characters",
+    }),
+  currency: Joi.string()
+    .uppercase()
+    .pattern(/^[A-Z]{3}$/)
+    .messages({
+      "string.pattern.base":
+        "Currency must be a 3-letter ISO 4217 code (e.g. USD, EUR)",
+    }),
+  unitLabel: Joi.string()
+    .min(1)
+    .max(30)
+    .trim()
+    .messages({
+      "string.empty": "Unit label cannot be empty",
+      "string.max": "Unit label cannot exceed 30 characters",
+    }),
+  // Where this group's QR short links lead; null restores the default
+  appLinks: Joi.object({
+    webUrl: Joi.string().uri({scheme: ["https"]}).max(500).allow(null),
+    iosStoreUrl: Joi.string().uri({scheme: ["https"]}).max(500).allow(null),
+    androidStoreUrl: Joi.string().uri({scheme: ["https"]}).max(500)
+      .allow(null),
+    deepLinkUrl: Joi.string().uri().max(500).allow(null),
+  }).min(1).messages({
+    "object.min": "App links must include at least one URL",
+    "string.uri": "App links must be valid URLs",
+    "string.uriCustomScheme": "App store and web links must use https",
+    "string.max": "App links cannot exceed 500 characters",
+  }),
+}).or("name", "description", "currency", "unitLabel", "appLinks")
+  .messages({
+    "object.missing": "Provide at least one setting to update",
+  });
+
+/**
+ * Update group pricing and consumption mode schema
+ */
+export const updateGroupPricingSchema = Joi.object({
+  pricePerBucket: Joi.number()
+    .precision(2)
+    .min(0)
+    .max(10000)
+    .allow(null)
+    .messages({
+      "number.base": "Price per bucket must be a number",
+      "number.precision": "Price per bucket can have up to 2 decimal places",
+      "number.min": "Price per bucket cannot be negative",
+      "number.max": "Price per bucket cannot exceed 10000",
+    }),
+  pricePerUnit: Joi.number()
+    .precision(2)
+    .min(0)
+    .max(1000)
+    .allow(null)
+    .messages({
+      "number.base": "Price per unit must be a number",
+      "number.precision": "Price per unit can have up to 2 decimal places",
+      "number.min": "Price per unit cannot be negative",
+      "number.max": "Price per unit cannot exceed 1000",
+    }),
+  consumptionMode: Joi.string()
+    .valid("buckets", "tab")
+    .messages({
+      "any.only": "Consumption mode must be either \"buckets\" or \"tab\"",
+    }),
+  creditLimit: Joi.number()
+    .precision(2)
+    .min(0)
+    .max(10000)
+    .allow(null)
+    .messages({
+      "number.base": "Credit limit must be a number",
+      "number.precision": "Credit limit can have up to 2 decimal places",
+      "number.min": "Credit limit cannot be negative",
+      "number.max": "Credit limit cannot exceed 10000",
+    }),
+}).or("pricePerBucket", "pricePerUnit", "consumptionMode", "creditLimit")
+  .messages({
+    "object.missing": "Provide at least one pricing setting to update",
+  });
+
 /**
  * Add user to group schema
  */
@@ -108,6 +209,64 @@ export const addUserToGroupSchema = Joi.object({
     }),
 });
 
+/**
+ * Update member role schema
+ */
+export const updateMemberRoleSchema = Joi.object({
+  role: Joi.string()
+    .valid("member", "admin")
+    .required()
+    .messages({
+      "any.only": "Role must be either \"member\" or \"admin\"",
+      "any.required": "Role is required",
+    }),
+});
+
+/**
+ * Transfer ownership schema
+ */
+export const transferOwnershipSchema = Joi.object({
+  userId: Joi.string()
+    .min(1)
+    .max(100)
+    .trim()
+    .required()
+    .messages({
+      "string.empty": "User ID cannot be empty",
+      "string.max": "User ID cannot exceed 100 characters",
+      "any.required": "User ID of the new owner is required",
+    }),
+});
+
+/**
+ * Remove group member schema
+ */
+export const removeGroupMemberSchema = Joi.object({
+  bucketHandling: Joi.string()
+    .valid("forfeit", "refund", "transfer")
+    .default("forfeit")
+    .messages({
+      "any.only":
+        "Bucket handling must be one of: forfeit, refund, transfer",
+    }),
+  transferToUserId: Joi.string()
+    .min(1)
+    .max(100)
+    .trim()
+    .when("bucketHandling", {
+      is: "transfer",
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    })
+    .messages({
+      "string.empty": "Transfer recipient cannot be empty",
+      "string.max": "Transfer recipient cannot exceed 100 characters",
+      "any.required": "transferToUserId is required when transferring buckets",
+      "any.unknown":
+        "transferToUserId is only allowed when transferring buckets",
+    }),
+});
+
 /**
  * Bucket purchase schema
  */
@@ -116,12 +275,11 @@ export const purchaseBucketsSchema = Joi.object({
     .min(1)
     .max(100)
     .trim()
-    .required()
+    .optional()
     .messages({
       "string.empty": "User ID cannot be empty",
       "string.min": "User ID must be at least 1 character",
       "string.max": "User ID cannot exceed 100 characters",
-      "any.required": "User ID is required",
     }),
   bucketCount: Joi.number()
     .integer()
@@ -158,12 +316,11 @@ export const recordConsumptionSchema = Joi.object({
     .min(1)
     .max(100)
     .trim()
-    .required()
+    .optional()
     .messages({
       "string.empty": "User ID cannot be empty",
       "string.min": "User ID must be at least 1 character",
       "string.max": "User ID cannot exceed 100 characters",
-      "any.required": "User ID is required",
     }),
   units: Joi.number()
     .integer()
@@ -179,6 +336,43 @@ export const recordConsumptionSchema = Joi.object({
     }),
 });
 
+/**
+ * Reverse consumption schema
+ */
+export const reverseConsumptionSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .trim()
+    .optional()
+    .allow("")
+    .messages({
+      "string.max": "Reason cannot exceed 500 characters",
+    }),
+});
+
+/**
+ * Kinds of manual balance adjustment an admin can make
+ */
+export const BALANCE_ADJUSTMENT_TYPES = [
+  "debt-added",
+  "payment-received",
+  "correction",
+  "write-off",
+];
+
+/**
+ * Entry types in a member's balance history: the manual adjustments plus
+ * the changes made by purchases, tab consumption and imports
+ */
+export const BALANCE_HISTORY_TYPES = [
+  ...BALANCE_ADJUSTMENT_TYPES,
+  "bucket-purchase",
+  "tab-consumption",
+  "tab-reversal",
+  "opening-balance",
+  "settlement",
+];
+
 /**
  * Update user balance schema
  */
@@ -195,16 +389,23 @@ export const updateUserBalanceSchema = Joi.object({
       "number.max": "Amount cannot exceed 10000",
       "any.required": "Amount is required",
     }),
-  adminUserId: Joi.string()
+  type: Joi.string()
+    .valid(...BALANCE_ADJUSTMENT_TYPES)
+    .required()
+    .messages({
+      "any.only":
+        `Type must be one of: ${BALANCE_ADJUSTMENT_TYPES.join(", ")}`,
+      "any.required": "Type is required",
+    }),
+  reason: Joi.string()
     .min(1)
-    .max(100)
+    .max(500)
     .trim()
     .required()
     .messages({
-      "string.empty": "Admin user ID cannot be empty",
-      "string.min": "Admin user ID must be at least 1 character",
-      "string.max": "Admin user ID cannot exceed 100 characters",
-      "any.required": "Admin user ID is required",
+      "string.empty": "Reason cannot be empty",
+      "string.max": "Reason cannot exceed 500 characters",
+      "any.required": "Reason is required",
     }),
 });
 
@@ -216,12 +417,11 @@ export const createKittyTransactionSchema = Joi.object({
     .min(1)
     .max(100)
     .trim()
-    .required()
+    .optional()
     .messages({
       "string.empty": "User ID cannot be empty",
       "string.min": "User ID must be at least 1 character",
       "string.max": "User ID cannot exceed 100 characters",
-      "any.required": "User ID is required",
     }),
   amount: Joi.number()
     .precision(2)
@@ -245,6 +445,56 @@ export const createKittyTransactionSchema = Joi.object({
     }),
 });
 
+/**
+ * Categories that kitty expenses can be filed under
+ */
+export const EXPENSE_CATEGORIES = [
+  "drinks",
+  "food",
+  "supplies",
+  "equipment",
+  "other",
+];
+
+/**
+ * Record kitty expense schema
+ */
+export const recordKittyExpenseSchema = Joi.object({
+  amount: Joi.number()
+    .precision(2)
+    .min(0.01)
+    .max(10000)
+    .required()
+    .messages({
+      "number.base": "Amount must be a number",
+      "number.precision": "Amount can have up to 2 decimal places",
+      "number.min": "Amount must be greater than 0",
+      "number.max": "Amount cannot exceed 10000",
+      "any.required": "Amount is required",
+    }),
+  type: Joi.string()
+    .valid("expense", "withdrawal")
+    .default("expense")
+    .messages({
+      "any.only": "Type must be either \"expense\" or \"withdrawal\"",
+    }),
+  category: Joi.string()
+    .valid(...EXPENSE_CATEGORIES)
+    .required()
+    .messages({
+      "any.only": `Category must be one of: ${EXPENSE_CATEGORIES.join(", ")}`,
+      "any.required": "Category is required",
+    }),
+  receiptNote: Joi.string()
+    .max(500)
+    .trim()
+    .optional()
+    .allow("")
+    .messages({
+      "string.max": "Receipt note cannot exceed 500 characters",
+    }),
+});
+
 /**
  * Path parameter schemas
  */
@@ -310,14 +560,6 @@ export const groupAndUserIdParamSchema = Joi.object({
  * Schema for creating a join request
  */
 export const createJoinRequestSchema = Joi.object({
-  userId: Joi.string()
-    .required()
-    .max(100)
-    .messages({
-      "any.required": "User ID is required",
-      "string.empty": "User ID cannot be empty",
-      "string.max": "User ID cannot exceed 100 characters",
-    }),
   message: Joi.string()
     .max(500)
     .optional()
@@ -330,14 +572,6 @@ export const createJoinRequestSchema = Joi.object({
  * Schema for approving a join request
  */
 export const approveJoinRequestSchema = Joi.object({
-  adminUserId: Joi.string()
-    .required()
-    .max(100)
-    .messages({
-      "any.required": "Admin user ID is required",
-      "string.empty": "Admin user ID cannot be empty",
-      "string.max": "Admin user ID cannot exceed 100 characters",
-    }),
   reason: Joi.string()
     .max(500)
     .optional()
@@ -350,14 +584,6 @@ export const approveJoinRequestSchema = Joi.object({
  * Schema for denying a join request
  */
 export const denyJoinRequestSchema = Joi.object({
-  adminUserId: Joi.string()
-    .required()
-    .max(100)
-    .messages({
-      "any.required": "Admin user ID is required",
-      "string.empty": "Admin user ID cannot be empty",
-      "string.max": "Admin user ID cannot exceed 100 characters",
-    }),
   reason: Joi.string()
     .required()
     .max(500)
@@ -390,6 +616,292 @@ export const groupAndRequestIdParamSchema = Joi.object({
     }),
 });
 
+/**
+ * Schema for group and consumption ID parameters
+ */
+export const groupAndConsumptionIdParamSchema = Joi.object({
+  groupId: Joi.string()
+    .required()
+    .max(100)
+    .messages({
+      "any.required": "Group ID is required",
+      "string.empty": "Group ID cannot be empty",
+      "string.max": "Group ID cannot exceed 100 characters",
+    }),
+  consumptionId: Joi.string()
+    .required()
+    .max(100)
+    .messages({
+      "any.required": "Consumption ID is required",
+      "string.empty": "Consumption ID cannot be empty",
+      "string.max": "Consumption ID cannot exceed 100 characters",
+    }),
+});
+
+/**
+ * Transaction types that can appear in a group's ledger
+ */
+export const TRANSACTION_TYPES = [
+  "contribution",
+  "expense",
+  "withdrawal",
+  "bucket-purchase",
+  "tab-consumption",
+  "tab-reversal",
+  "member-refund",
+  "settlement-payment",
+  "settlement-payout",
+  "settlement-transfer",
+];
+
+/**
+ * Pagination and date-range keys shared by the history query schemas
+ */
+const historyQueryKeys = {
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .messages({
+      "number.base": "Limit must be a number",
+      "number.integer": "Limit must be a whole number",
+      "number.min": "Limit must be at least 1",
+      "number.max": "Limit cannot exceed 100",
+    }),
+  cursor: Joi.string()
+    .max(100)
+    .trim()
+    .messages({
+      "string.empty": "Cursor cannot be empty",
+      "string.max": "Cursor cannot exceed 100 characters",
+    }),
+  userId: Joi.string()
+    .max(100)
+    .trim()
+    .pattern(/^[a-zA-Z0-9_-]+$/)
+    .messages({
+      "string.empty": "User ID cannot be empty",
+      "string.max": "User ID cannot exceed 100 characters",
+      "string.pattern.base": "User ID contains invalid characters",
+    }),
+  from: Joi.date()
+    .iso()
+    .messages({
+      "date.base": "From must be a valid date",
+      "date.format": "From must be an ISO 8601 date",
+    }),
+  to: Joi.date()
+    .iso()
+    .min(Joi.ref("from"))
+    .messages({
+      "date.base": "To must be a valid date",
+      "date.format": "To must be an ISO 8601 date",
+      "date.min": "To must not be before from",
+    }),
+};
+
+/**
+ * Group consumption history query schema
+ */
+export const consumptionQuerySchema = Joi.object(historyQueryKeys);
+
+/**
+ * Group transaction history query schema
+ */
+export const transactionQuerySchema = Joi.object({
+  ...historyQueryKeys,
+  type: Joi.string()
+    .valid(...TRANSACTION_TYPES)
+    .messages({
+      "any.only": `Type must be one of: ${TRANSACTION_TYPES.join(", ")}`,
+    }),
+});
+
+/**
+ * Join request listing query schema
+ */
+export const joinRequestQuerySchema = Joi.object({
+  ...historyQueryKeys,
+  status: Joi.string()
+    .valid("pending", "approved", "denied")
+    .messages({
+      "any.only": "Status must be pending, approved, or denied",
+    }),
+});
+
+/**
+ * Group audit log query schema
+ */
+export const auditLogQuerySchema = Joi.object({
+  limit: historyQueryKeys.limit,
+  cursor: historyQueryKeys.cursor,
+  from: historyQueryKeys.from,
+  to: historyQueryKeys.to,
+  actorId: historyQueryKeys.userId.messages({
+    "string.empty": "Actor ID cannot be empty",
+    "string.max": "Actor ID cannot exceed 100 characters",
+    "string.pattern.base": "Actor ID contains invalid characters",
+  }),
+  action: Joi.string()
+    .trim()
+    .pattern(/^[a-z-]+\.[a-z-]+$/)
+    .messages({
+      "string.empty": "Action cannot be empty",
+      "string.pattern.base": "Action must look like \"member.removed\"",
+    }),
+  targetId: Joi.string()
+    .max(100)
+    .trim()
+    .messages({
+      "string.empty": "Target ID cannot be empty",
+      "string.max": "Target ID cannot exceed 100 characters",
+    }),
+});
+
+/**
+ * Member balance history query schema
+ */
+export const balanceHistoryQuerySchema = Joi.object({
+  limit: historyQueryKeys.limit,
+  cursor: historyQueryKeys.cursor,
+  from: historyQueryKeys.from,
+  to: historyQueryKeys.to,
+  type: Joi.string()
+    .valid(...BALANCE_HISTORY_TYPES)
+    .messages({
+      "any.only": `Type must be one of: ${BALANCE_HISTORY_TYPES.join(", ")}`,
+    }),
+});
+
+/**
+ * Group stats query schema
+ */
+export const groupStatsQuerySchema = Joi.object({
+  from: historyQueryKeys.from,
+  to: historyQueryKeys.to,
+  granularity: Joi.string()
+    .valid("day", "week", "month")
+    .default("day")
+    .messages({
+      "any.only": "Granularity must be day, week, or month",
+    }),
+  utcOffset: Joi.number()
+    .integer()
+    .min(-720)
+    .max(840)
+    .default(0)
+    .messages({
+      "number.base": "UTC offset must be a number of minutes",
+      "number.integer": "UTC offset must be a whole number of minutes",
+      "number.min": "UTC offset cannot be less than -720 minutes",
+      "number.max": "UTC offset cannot exceed 840 minutes",
+    }),
+});
+
+/**
+ * Group export query schema
+ */
+export const groupExportQuerySchema = Joi.object({
+  format: Joi.string()
+    .valid("csv", "json")
+    .default("csv")
+    .messages({
+      "any.only": "Format must be csv or json",
+    }),
+  from: historyQueryKeys.from,
+  to: historyQueryKeys.to,
+});
+
+/**
+ * Import row schemas
+ *
+ * Each row of an import CSV is validated with the same field rules as the
+ * matching API request. Empty cells are treated as missing values.
+ */
+export const importMemberRowSchema = Joi.object({
+  name: createUserSchema.extract("displayName"),
+  email: createUserSchema.extract("email"),
+  phone: createUserSchema.extract("phoneNumber").empty(""),
+  balance: updateUserBalanceSchema.extract("amount")
+    .optional()
+    .empty(""),
+});
+
+export const importBucketRowSchema = Joi.object({
+  email: createUserSchema.extract("email"),
+  units: purchaseBucketsSchema.extract("unitsPerBucket"),
+  remaining: Joi.number()
+    .integer()
+    .min(0)
+    .max(Joi.ref("units"))
+    .empty("")
+    .messages({
+      "number.base": "Remaining units must be a number",
+      "number.integer": "Remaining units must be a whole number",
+      "number.min": "Remaining units cannot be negative",
+      "number.max": "Remaining units cannot exceed the bucket's units",
+    }),
+  purchasedAt: Joi.date()
+    .iso()
+    .max("now")
+    .empty("")
+    .messages({
+      "date.base": "Purchase date must be a valid date",
+      "date.format": "Purchase date must be an ISO 8601 date",
+      "date.max": "Purchase date cannot be in the future",
+    }),
+  unitPrice: Joi.number()
+    .precision(2)
+    .min(0)
+    .max(10000)
+    .empty("")
+    .messages({
+      "number.base": "Unit price must be a number",
+      "number.precision": "Unit price can have up to 2 decimal places",
+      "number.min": "Unit price cannot be negative",
+      "number.max": "Unit price cannot exceed 10000",
+    }),
+});
+
+export const importConsumptionRowSchema = Joi.object({
+  email: createUserSchema.extract("email"),
+  units: recordConsumptionSchema.extract("units"),
+  consumedAt: Joi.date()
+    .iso()
+    .max("now")
+    .required()
+    .messages({
+      "date.base": "Consumption date must be a valid date",
+      "date.format": "Consumption date must be an ISO 8601 date",
+      "date.max": "Consumption date cannot be in the future",
+      "any.required": "Consumption date is required",
+    }),
+});
+
+/**
+ * Group data import schema
+ */
+export const importGroupDataSchema = Joi.object({
+  type: Joi.string()
+    .valid("members", "buckets", "consumption")
+    .required()
+    .messages({
+      "any.only": "Type must be members, buckets, or consumption",
+      "any.required": "Type is required",
+    }),
+  csv: Joi.string()
+    .max(1000000)
+    .required()
+    .messages({
+      "string.empty": "CSV cannot be empty",
+      "string.max": "CSV cannot exceed 1000000 characters",
+      "any.required": "CSV is required",
+    }),
+  dryRun: Joi.boolean()
+    .default(true),
+});
+
 /**
  * Custom validation functions
  */
@@ -496,7 +1008,7 @@ export const enhancedPurchaseBucketsSchema = purchaseBucketsSchema.keys({
  * @return {Function} Express middleware function
  */
 export const createValidationMiddleware = (schema: Joi.ObjectSchema) => {
-  return (req: any, res: any, next: any) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
     const {error, value} = schema.validate(req.body, {
       abortEarly: false,
       stripUnknown: true,
@@ -515,11 +1027,12 @@ export const createValidationMiddleware = (schema: Joi.ObjectSchema) => {
         `Validation failed for fields: ${fieldErrors.join(", ")}` :
         "Validation failed";
 
-      return res.status(400).json({
+      res.status(400).json({
         error: errorMessage,
         details: errorMessages,
         statusCode: 400,
       });
+      return;
     }
 
     // Replace request body with validated and sanitized data
@@ -549,11 +1062,91 @@ export const generateQRCodeSchema = Joi.object({
       "number.min": "Size must be at least 100",
       "number.max": "Size cannot exceed 1000",
     }),
+  format: Joi.string()
+    .valid("png", "svg", "pdf")
+    .default("png")
+    .messages({
+      "any.only": "Format must be png, svg, or pdf",
+    }),
+  paperSize: Joi.string()
+    .valid("A4", "Letter")
+    .when("format", {
+      is: "pdf",
+      then: Joi.optional().default("A4"),
+      otherwise: Joi.forbidden(),
+    })
+    .messages({
+      "any.only": "Paper size must be A4 or Letter",
+      "any.unknown": "paperSize is only allowed for pdf posters",
+    }),
+  darkColor: Joi.string()
+    .pattern(/^#[0-9A-Fa-f]{6}$/)
+    .messages({
+      "string.pattern.base": "Dark colour must be a #RRGGBB hex colour",
+    }),
+  lightColor: Joi.string()
+    .pattern(/^#[0-9A-Fa-f]{6}$/)
+    .messages({
+      "string.pattern.base": "Light colour must be a #RRGGBB hex colour",
+    }),
   includeLogo: Joi.boolean()
     .default(false)
     .messages({
       "boolean.base": "Include logo must be a boolean value",
     }),
+  logo: Joi.string()
+    .max(140000)
+    .pattern(/^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/)
+    .when("includeLogo", {
+      is: true,
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    })
+    .messages({
+      "string.max": "Logo cannot exceed 100 KB",
+      "string.pattern.base": "Logo must be a base64 PNG data URL",
+      "any.required": "logo is required when includeLogo is true",
+      "any.unknown": "logo is only allowed when includeLogo is true",
+    }),
+  expiresInMinutes: Joi.number()
+    .integer()
+    .min(1)
+    .max(525600)
+    .messages({
+      "number.base": "Expiry must be a number of minutes",
+      "number.integer": "Expiry must be a whole number of minutes",
+      "number.min": "Expiry must be at least 1 minute",
+      "number.max": "Expiry cannot exceed one year",
+    }),
+  singleUse: Joi.boolean()
+    .default(false)
+    .messages({
+      "boolean.base": "Single use must be a boolean value",
+    }),
+  units: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .when("type", {
+      is: "consumption",
+      otherwise: Joi.forbidden(),
+    })
+    .messages({
+      "number.base": "Units must be a number",
+      "number.integer": "Units must be an integer",
+      "number.min": "Units must be at least 1",
+      "number.max": "Units cannot exceed 100",
+      "any.unknown": "units is only allowed on consumption QR codes",
+    }),
+  confirm: Joi.boolean()
+    .when("units", {
+      is: Joi.exist(),
+      otherwise: Joi.forbidden(),
+    })
+    .messages({
+      "boolean.base": "Confirm must be a boolean value",
+      "any.unknown": "confirm is only allowed when units are set",
+    }),
 });
 
 /**
@@ -606,6 +1199,11 @@ export const processQRCodeSchema = Joi.object({
   }).required().messages({
     "any.required": "User context is required",
   }),
+  confirmed: Joi.boolean()
+    .default(false)
+    .messages({
+      "boolean.base": "Confirmed must be a boolean value",
+    }),
 });
 
 /**
@@ -633,7 +1231,7 @@ export const enhancedCreateJoinRequestSchema = createJoinRequestSchema.keys({
  * @return {Function} Express middleware function
  */
 export const createParamValidationMiddleware = (schema: Joi.ObjectSchema) => {
-  return (req: any, res: any, next: any) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
     const {error, value} = schema.validate(req.params, {
       abortEarly: false,
       stripUnknown: true,
@@ -643,11 +1241,12 @@ export const createParamValidationMiddleware = (schema: Joi.ObjectSchema) => {
       const errorMessages = error.details.map(
         (detail: Joi.ValidationErrorItem) => detail.message
       );
-      return res.status(400).json({
+      res.status(400).json({
         error: "Invalid path parameters",
         details: errorMessages,
         statusCode: 400,
       });
+      return;
     }
 
     // Replace request params with validated data
@@ -656,16 +1255,68 @@ export const createParamValidationMiddleware = (schema: Joi.ObjectSchema) => {
   };
 };
 
+/**
+ * Creates validation middleware for query string parameters
+ *
+ * Express 5 exposes req.query through a getter, so the validated and
+ * converted values are defined on the request directly.
+ *
+ * @param {Joi.ObjectSchema} schema - The Joi schema to validate against
+ * @return {Function} Express middleware function
+ */
+export const createQueryValidationMiddleware = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const {error, value} = schema.validate(req.query, {
+      abortEarly: false,
+      stripUnknown: true,
+    });
+
+    if (error) {
+      const errorMessages = error.details.map(
+        (detail: Joi.ValidationErrorItem) => detail.message
+      );
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: errorMessages,
+        statusCode: 400,
+      });
+      return;
+    }
+
+    // Replace request query with validated and converted data
+    Object.defineProperty(req, "query", {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+    next();
+  };
+};
+
 /**
  * NFC consumption schema
  */
 export const nfcConsumptionSchema = Joi.object({
+  // Registered tags carry only their ID; the group and amount are looked
+  // up on the server and cannot be given alongside it
+  tagId: Joi.string()
+    .pattern(/^[A-Za-z0-9]{1,100}$/)
+    .messages({
+      "string.empty": "Tag ID cannot be empty",
+      "string.pattern.base": "Invalid NFC tag ID",
+    }),
   groupId: Joi.string()
     .min(1)
     .max(100)
     .trim()
-    .required()
+    .when("tagId", {
+      is: Joi.exist(),
+      then: Joi.forbidden(),
+      otherwise: Joi.required(),
+    })
     .messages({
+      "any.unknown": "Group ID comes from the NFC tag",
       "string.empty": "Group ID cannot be empty",
       "string.min": "Group ID must be at least 1 character",
       "string.max": "Group ID cannot exceed 100 characters",
@@ -675,8 +1326,13 @@ export const nfcConsumptionSchema = Joi.object({
     .integer()
     .min(1)
     .max(100)
-    .required()
+    .when("tagId", {
+      is: Joi.exist(),
+      then: Joi.forbidden(),
+      otherwise: Joi.required(),
+    })
     .messages({
+      "any.unknown": "Amount comes from the NFC tag",
       "number.base": "Amount must be a number",
       "number.integer": "Amount must be a whole number",
       "number.min": "Amount must be at least 1",
@@ -712,12 +1368,11 @@ export const nfcProfileUpdateSchema = Joi.object({
     .min(1)
     .max(100)
     .trim()
-    .required()
+    .optional()
     .messages({
       "string.empty": "User ID cannot be empty",
       "string.min": "User ID must be at least 1 character",
       "string.max": "User ID cannot exceed 100 characters",
-      "any.required": "User ID is required",
     }),
   phoneNumber: Joi.string()
     .pattern(/^\+?[1-9]\d{7,14}$/) // E.164 format: +1234567890
@@ -731,6 +1386,95 @@ export const nfcProfileUpdateSchema = Joi.object({
     }),
 });
 
+/**
+ * Group and NFC tag ID parameter schema
+ */
+export const groupAndTagIdParamSchema = Joi.object({
+  groupId: Joi.string()
+    .required()
+    .max(100)
+    .messages({
+      "any.required": "Group ID is required",
+      "string.empty": "Group ID cannot be empty",
+      "string.max": "Group ID cannot exceed 100 characters",
+    }),
+  tagId: Joi.string()
+    .required()
+    .max(100)
+    .messages({
+      "any.required": "Tag ID is required",
+      "string.empty": "Tag ID cannot be empty",
+      "string.max": "Tag ID cannot exceed 100 characters",
+    }),
+});
+
+const nfcTagKeys = {
+  label: Joi.string()
+    .min(1)
+    .max(50)
+    .trim()
+    .messages({
+      "string.empty": "Tag label cannot be empty",
+      "string.max": "Tag label cannot exceed 50 characters",
+    }),
+  amount: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .messages({
+      "number.base": "Amount must be a number",
+      "number.integer": "Amount must be a whole number",
+      "number.min": "Amount must be at least 1",
+      "number.max": "Amount cannot exceed 100",
+    }),
+  product: Joi.string()
+    .max(50)
+    .trim()
+    .allow(null)
+    .messages({
+      "string.empty": "Product cannot be empty",
+      "string.max": "Product cannot exceed 50 characters",
+    }),
+};
+
+/**
+ * NFC tag registration schema
+ */
+export const registerNfcTagSchema = Joi.object({
+  ...nfcTagKeys,
+  label: nfcTagKeys.label.required().messages({
+    "any.required": "Tag label is required",
+  }),
+  amount: nfcTagKeys.amount.default(1),
+});
+
+/**
+ * NFC tag update schema
+ */
+export const updateNfcTagSchema = Joi.object({
+  ...nfcTagKeys,
+  enabled: Joi.boolean()
+    .messages({
+      "boolean.base": "Enabled must be a boolean value",
+    }),
+}).or("label", "amount", "product", "enabled")
+  .messages({
+    "object.missing": "Provide at least one tag setting to update",
+  });
+
+/**
+ * QR short link code parameter schema
+ */
+export const shortLinkCodeParamSchema = Joi.object({
+  code: Joi.string()
+    .pattern(/^[0-9A-Za-z]{6,32}$/)
+    .required()
+    .messages({
+      "string.pattern.base": "Invalid QR link code",
+      "any.required": "QR link code is required",
+    }),
+});
+
 /**
  * Phone number parameter schema
  */
@@ -1,13 +1,66 @@
 import * as admin from "firebase-admin";
-import * as QRCode from "qrcode";
 import {
   validateUserGroupMembership,
   validateUserNotInGroup,
-  validateSingleAdmin,
-  validateUserIsGroupAdmin,
   validateGroupExists,
   validateUserExists,
 } from "../utils/validators";
+import {
+  GroupRole,
+  hasAdminOtherThan,
+  resolveMemberRole,
+} from "../utils/permissions";
+import {
+  GroupPricing,
+  calculateBucketPrice,
+  calculateTabCharge,
+  exceedsCreditLimit,
+  resolveGroupPricing,
+} from "../utils/pricing";
+import {
+  GroupStats,
+  StatsGranularity,
+  buildGroupStats,
+} from "../utils/analytics";
+import {CsvImportError, parseCsvImport} from "../utils/csvImport";
+import {getRequestContext} from "../utils/requestContext";
+import {SettlementPlan, planSettlement} from "../utils/settlement";
+import {
+  QRCodeError,
+  QRCodeType,
+  QRPayload,
+  QR_PAYLOAD_VERSION,
+  generateQRNonce,
+  getQRSigningKeyring,
+  signQRPayload,
+  verifyQRPayload,
+} from "../utils/qrSigning";
+import {
+  DEFAULT_DARK_COLOR,
+  DEFAULT_LIGHT_COLOR,
+  PosterPaperSize,
+  QRImageFormat,
+  decodeLogo,
+  renderQRCode,
+} from "../utils/qrRender";
+import {
+  AppLinkConfig,
+  AppLinkOverrides,
+  AppLinkTargets,
+  DEFAULT_APP_LINK_CONFIG,
+  detectLinkPlatform,
+  generateShortLinkCode,
+  mergeAppLinkConfig,
+  parseShortLinkCode,
+  pickRedirectTarget,
+  readAppLinkEnv,
+  resolveAppLinks,
+} from "../utils/appLinks";
+import {
+  importMemberRowSchema,
+  importBucketRowSchema,
+  importConsumptionRowSchema,
+} from "../schemas/validationSchemas";
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -36,25 +89,39 @@ if (!admin.apps.length) {
  * The user will have no groups initially, and groups will be added
  * through the addUserToGroup function.
  *
+ * When a userId is given (the caller's Firebase Auth UID), it is used
+ * as the document ID so that authenticated requests map directly to
+ * the user document. Otherwise an ID is generated.
+ *
  * @param {string} displayName - The user's display name
  * @param {string} email - The user's email address
  * @param {string} [phoneNumber] - The user's phone number (optional)
+ * @param {string} [userId] - The document ID to use (optional)
  * @return {Promise<string>} The ID of the created user
  *
  * @example
  * const userId = await createUser("John Doe", "john@example.com");
  * console.log("Created user with ID:", userId);
+ *
+ * @throws {Error} "User already exists" if the given userId is taken
  */
 export async function createUser(
   displayName: string,
   email: string,
-  phoneNumber?: string
+  phoneNumber?: string,
+  userId?: string
 ): Promise<string> {
   const db = admin.firestore();
-  const userRef = db.collection("users").doc();
+  const userRef = userId ?
+    db.collection("users").doc(userId) :
+    db.collection("users").doc();
+
+  if (userId && (await userRef.get()).exists) {
+    throw new Error("User already exists");
+  }
 
   // Create the user document with basic information
-  const userData: any = {
+  const userData: admin.firestore.DocumentData = {
     displayName,
     email,
     createdAt: new Date(),
@@ -74,30 +141,307 @@ export async function createUser(
  * Creates a new group in Firestore
  *
  * This function creates a new group with an initial kitty balance of 0.
- * The group will have no members initially, and members will be added
+ * When an owner is given, they are added as the group's first member
+ * with the "owner" role in the same batch. Further members are added
  * through the addUserToGroup function.
  *
  * @param {string} name - The name of the group
+ * @param {string} [ownerUserId] - The ID of the user creating the group
  * @return {Promise<string>} The ID of the created group
  *
  * @example
- * const groupId = await createGroup("Weekend Trip");
+ * const groupId = await createGroup("Weekend Trip", "user123");
  * console.log("Created group with ID:", groupId);
  */
-export async function createGroup(name: string): Promise<string> {
+export async function createGroup(
+  name: string,
+  ownerUserId?: string
+): Promise<string> {
   const db = admin.firestore();
   const groupRef = db.collection("groups").doc();
+  const batch = db.batch();
 
   // Create the group document with initial balance
-  await groupRef.set({
+  batch.set(groupRef, {
     name,
     kittyBalance: 0, // Initial balance starts at 0
+    status: "active",
     createdAt: new Date(),
   });
 
+  // Add the creator as owner on both sides of the relationship
+  if (ownerUserId) {
+    const membershipData = {
+      activeBucketId: null,
+      balance: 0,
+      isAdmin: true,
+      role: "owner",
+      joinedAt: new Date(),
+    };
+    batch.set(
+      db.collection("users").doc(ownerUserId)
+        .collection("groups").doc(groupRef.id),
+      {groupId: groupRef.id, ...membershipData}
+    );
+    batch.set(
+      groupRef.collection("members").doc(ownerUserId),
+      {userId: ownerUserId, ...membershipData}
+    );
+  }
+
+  writeAuditEntry(batch, groupRef, {
+    action: "group.created",
+    target: {type: "group", id: groupRef.id},
+    after: {name, ownerUserId: ownerUserId || null},
+    actorId: ownerUserId,
+  });
+
+  await batch.commit();
+
   return groupRef.id;
 }
 
+/**
+ * Editable settings of a group
+ */
+export interface GroupSettings {
+  name: string;
+  description: string;
+  currency: string;
+  unitLabel: string;
+  appLinks: AppLinkOverrides; // where this group's QR codes lead
+}
+
+/**
+ * Reads a group's settings, filling in defaults for older groups
+ *
+ * @param {admin.firestore.DocumentData | undefined} groupData - The group
+ * document data
+ * @return {GroupSettings} The group's settings
+ */
+function resolveGroupSettings(
+  groupData: admin.firestore.DocumentData | undefined
+): GroupSettings {
+  return {
+    name: groupData?.name,
+    description: groupData?.description || "",
+    currency: groupData?.currency || "USD",
+    unitLabel: groupData?.unitLabel || "units",
+    appLinks: groupData?.appLinks || {},
+  };
+}
+
+/**
+ * Rejects changes to archived groups
+ *
+ * Archived groups keep their history but accept no new consumption,
+ * purchases or QR/NFC activity.
+ *
+ * @param {admin.firestore.DocumentData | undefined} groupData - The group
+ * document data
+ * @throws {Error} "Group is archived" if the group has been archived
+ */
+function assertGroupActive(
+  groupData: admin.firestore.DocumentData | undefined
+): void {
+  if (groupData?.status === "archived") {
+    throw new Error("Group is archived");
+  }
+}
+
+/**
+ * A state change to record in a group's audit log
+ */
+interface AuditChange {
+  action: string; // e.g. "member.role-updated"
+  target: {type: string; id: string};
+  before?: admin.firestore.DocumentData | null;
+  after?: admin.firestore.DocumentData | null;
+  actorId?: string | null; // defaults to the request's caller
+}
+
+/**
+ * Adds an entry to a group's audit log as part of a batch or transaction
+ *
+ * The entry is written alongside the change it describes, so the log
+ * never records a change that did not happen and never misses one that
+ * did. The actor defaults to the authenticated caller and the request ID
+ * comes from the request context; both are null outside a request.
+ *
+ * @param {admin.firestore.Transaction | admin.firestore.WriteBatch} writer -
+ * The transaction or batch making the change
+ * @param {admin.firestore.DocumentReference} groupRef - The group document
+ * @param {AuditChange} change - What changed
+ */
+function writeAuditEntry(
+  writer: admin.firestore.Transaction | admin.firestore.WriteBatch,
+  groupRef: admin.firestore.DocumentReference,
+  change: AuditChange
+): void {
+  const context = getRequestContext();
+
+  // Both writers have the same set(); TypeScript cannot call the union
+  (writer as admin.firestore.WriteBatch).set(
+    groupRef.collection("audit_log").doc(),
+    {
+      action: change.action,
+      targetType: change.target.type,
+      targetId: change.target.id,
+      before: change.before ?? null,
+      after: change.after ?? null,
+      actorId: change.actorId ?? context?.actorId ?? null,
+      requestId: context?.requestId ?? null,
+      createdAt: new Date(),
+    }
+  );
+}
+
+/**
+ * Updates a group's name, description, currency, unit label or app links
+ *
+ * Settings that are omitted keep their current value. App link overrides
+ * are merged into the group's existing ones; setting one to null removes
+ * it, so the deployment's link is used again.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {Partial<GroupSettings>} settings - The settings to update
+ * @return {Promise<GroupSettings>} The group's updated settings
+ *
+ * @example
+ * await updateGroupSettings("group123", {unitLabel: "coffees"});
+ */
+export async function updateGroupSettings(
+  groupId: string,
+  settings: Partial<GroupSettings>
+): Promise<GroupSettings> {
+  const groupRef = await validateGroupExists(groupId);
+  const currentSettings = resolveGroupSettings((await groupRef.get()).data());
+
+  const update: Record<string, unknown> = {};
+  const before: Record<string, unknown> = {};
+  for (const key of [
+    "name",
+    "description",
+    "currency",
+    "unitLabel",
+  ] as const) {
+    if (settings[key] !== undefined) {
+      update[key] = settings[key];
+      before[key] = currentSettings[key];
+    }
+  }
+  if (settings.appLinks !== undefined) {
+    const appLinks: Record<string, unknown> = {...currentSettings.appLinks};
+    Object.entries(settings.appLinks).forEach(([key, value]) => {
+      if (value === null) {
+        delete appLinks[key];
+      } else if (value !== undefined) {
+        appLinks[key] = value;
+      }
+    });
+    update.appLinks = appLinks;
+    before.appLinks = currentSettings.appLinks;
+  }
+
+  const batch = admin.firestore().batch();
+  batch.update(groupRef, {...update, updatedAt: new Date()});
+  writeAuditEntry(batch, groupRef, {
+    action: "group.settings-updated",
+    target: {type: "group", id: groupId},
+    before,
+    after: update,
+  });
+  await batch.commit();
+
+  const groupDoc = await groupRef.get();
+  return resolveGroupSettings(groupDoc.data());
+}
+
+/**
+ * Archives a group, or restores an archived group
+ *
+ * An archived group is read-only: consumption, bucket purchases and
+ * QR/NFC activity are refused, while its history stays readable and
+ * balances can still be settled.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {boolean} archived - True to archive, false to restore
+ * @param {string} changedBy - The ID of the user making the change
+ * @return {Promise<void>}
+ *
+ * @example
+ * // The season is over
+ * await setGroupArchived("group123", true, "owner456");
+ */
+export async function setGroupArchived(
+  groupId: string,
+  archived: boolean,
+  changedBy: string
+): Promise<void> {
+  const groupRef = await validateGroupExists(groupId);
+  const groupDoc = await groupRef.get();
+  const status = archived ? "archived" : "active";
+
+  const batch = admin.firestore().batch();
+  batch.update(groupRef, {
+    status,
+    archivedAt: archived ? new Date() : null,
+    archivedBy: archived ? changedBy : null,
+    updatedAt: new Date(),
+  });
+  writeAuditEntry(batch, groupRef, {
+    action: archived ? "group.archived" : "group.unarchived",
+    target: {type: "group", id: groupId},
+    before: {status: groupDoc.data()?.status || "active"},
+    after: {status},
+    actorId: changedBy,
+  });
+  await batch.commit();
+}
+
+/**
+ * Permanently deletes a group and everything in it
+ *
+ * This function removes the group document with all of its
+ * subcollections (members, buckets, consumption, transactions, join
+ * requests), the mirrored users/{userId}/groups/{groupId} documents
+ * of every member and the group's QR short links in `qr_links`. This
+ * cannot be undone; archiving is the reversible alternative.
+ *
+ * @param {string} groupId - The ID of the group to delete
+ * @return {Promise<Object>} The group ID and number of members removed
+ *
+ * @example
+ * const {membersRemoved} = await deleteGroup("group123");
+ */
+export async function deleteGroup(
+  groupId: string
+): Promise<{groupId: string; membersRemoved: number}> {
+  const groupRef = await validateGroupExists(groupId);
+  const db = admin.firestore();
+
+  const [membersSnapshot, linksSnapshot] = await Promise.all([
+    groupRef.collection("members").get(),
+    db.collection("qr_links").where("groupId", "==", groupId).get(),
+  ]);
+  const bulkWriter = db.bulkWriter();
+
+  // Remove the user side of each membership first
+  membersSnapshot.docs.forEach((doc) => {
+    bulkWriter.delete(
+      db.collection("users").doc(doc.id).collection("groups").doc(groupId)
+    );
+  });
+  // Short links live outside the group, so they would otherwise outlive it
+  linksSnapshot.docs.forEach((doc) => {
+    bulkWriter.delete(doc.ref);
+  });
+
+  await db.recursiveDelete(groupRef, bulkWriter);
+
+  return {groupId, membersRemoved: membersSnapshot.size};
+}
+
 /**
  * Adds an existing user to an existing group
  *
@@ -138,225 +482,461 @@ export async function addUserToGroup(
   const groupRef = db.collection("groups").doc(groupId);
   const membersSnapshot = await groupRef.collection("members").get();
 
-  // Determine if this user should be admin
-  let shouldBeAdmin = isAdmin;
-
+  // The first member of a group without one becomes its owner, so every
+  // group has someone who can manage it. Any number of admins is allowed.
+  let role: GroupRole = isAdmin === true ? "admin" : "member";
   if (membersSnapshot.empty) {
-    // First user in group - automatically becomes admin
-    shouldBeAdmin = true;
-  } else if (isAdmin === true) {
-    // User explicitly wants to be admin, but group already has members
-    // Validate that only one admin can exist per group
-    await validateSingleAdmin(groupId, true);
-  } else {
-    // Not first user and not explicitly requesting admin - must be false
-    shouldBeAdmin = false;
+    role = "owner";
   }
+  const shouldBeAdmin = role !== "member";
 
   // Create the bidirectional relationship atomically
   // This ensures data consistency -
   // if one side fails, the other won't be created
-  await Promise.all([
-    // Add group to user's groups subcollection
-    userGroupRef.set({
-      groupId,
-      activeBucketId: null, // No active bucket initially
-      balance: 0, // Initial balance starts at 0 (no debt)
-      isAdmin: shouldBeAdmin, // Group admin flag
-      joinedAt: new Date(),
-    }),
-    // Add user to group's members subcollection
-    groupMemberRef.set({
-      userId,
-      activeBucketId: null, // No active bucket initially
-      balance: 0, // Initial balance starts at 0 (no debt)
-      isAdmin: shouldBeAdmin, // Group admin flag
-      joinedAt: new Date(),
-    }),
-  ]);
+  const batch = db.batch();
+  // Add group to user's groups subcollection
+  batch.set(userGroupRef, {
+    groupId,
+    activeBucketId: null, // No active bucket initially
+    balance: 0, // Initial balance starts at 0 (no debt)
+    isAdmin: shouldBeAdmin, // Group admin flag
+    role,
+    joinedAt: new Date(),
+  });
+  // Add user to group's members subcollection
+  batch.set(groupMemberRef, {
+    userId,
+    activeBucketId: null, // No active bucket initially
+    balance: 0, // Initial balance starts at 0 (no debt)
+    isAdmin: shouldBeAdmin, // Group admin flag
+    role,
+    joinedAt: new Date(),
+  });
+  writeAuditEntry(batch, groupRef, {
+    action: "member.added",
+    target: {type: "member", id: userId},
+    after: {role, balance: 0},
+  });
+  await batch.commit();
 }
 
 /**
- * Purchases buckets for a user in a group
+ * What happens to a departing member's unused buckets
+ */
+export type BucketHandling = "forfeit" | "refund" | "transfer";
+
+/**
+ * Summary of a member's removal from a group
+ */
+export interface MemberRemoval {
+  groupId: string;
+  userId: string;
+  removedBy: string;
+  bucketHandling: BucketHandling;
+  bucketsAffected: number;
+  unitsAffected: number;
+  refundAmount: number;
+  transferToUserId?: string | null; // only set when buckets were transferred
+}
+
+/**
+ * Removes a user from a group, or lets them leave it
  *
- * This function allows users to purchase multiple buckets of the same size.
- * Each bucket is tracked individually with its own remaining units.
- * The first bucket becomes the user's active bucket.
+ * This function deletes both sides of the membership relationship in a
+ * single Firestore transaction, after checking that:
+ * - The user has no outstanding debt or unsettled credit (balances must
+ *   be settled first, so no money disappears with the membership)
+ * - The user is not the owner (ownership must be transferred first)
+ * - Admins are only removed by themselves or the owner
+ * - The group keeps at least one admin
+ *
+ * The user's unused buckets are handled according to bucketHandling:
+ * - forfeit: buckets are marked "forfeited" and their units are lost
+ * - refund: the unused share of each bucket's price is paid out of the
+ *   kitty and recorded as a "member-refund" transaction
+ * - transfer: buckets are reassigned to another member of the group
+ *
+ * Consumption and transaction history is kept.
  *
  * @param {string} groupId - The ID of the group
- * @param {string} userId - The ID of the user purchasing buckets
- * @param {number} bucketCount - Number of buckets to purchase
- * @param {number} unitsPerBucket - Units in each bucket
- * @return {Promise<string[]>} Array of bucket IDs created
+ * @param {string} userId - The ID of the user leaving the group
+ * @param {string} removedBy - The ID of the user performing the removal
+ * @param {BucketHandling} bucketHandling - What to do with unused buckets
+ * @param {string} transferToUserId - Recipient when transferring buckets
+ * @return {Promise<Object>} Summary of the removal
  *
  * @example
- * const bucketIds = await purchaseBuckets("group123", "user456", 5, 8);
- * console.log("Purchased 5 buckets of 8 units each:", bucketIds);
+ * // Leave a group and hand unused buckets to a friend
+ * await removeUserFromGroup(
+ *   "group123", "user456", "user456", "transfer", "user789"
+ * );
  *
- * @throws {Error} Various validation errors from validators
+ * @throws {Error} "User has outstanding debt", "User has unsettled
+ * credit", "Group must have an admin", or "Insufficient funds in kitty"
+ * when refunding
  */
-export async function purchaseBuckets(
+export async function removeUserFromGroup(
   groupId: string,
   userId: string,
-  bucketCount: number,
-  unitsPerBucket: number
-): Promise<string[]> {
+  removedBy: string,
+  bucketHandling: BucketHandling = "forfeit",
+  transferToUserId?: string
+): Promise<MemberRemoval> {
   // Validate that user is a member of the group
-  await validateUserGroupMembership(userId, groupId);
+  const {userGroupRef, groupMemberRef} =
+    await validateUserGroupMembership(userId, groupId);
+
+  if (bucketHandling === "transfer") {
+    if (!transferToUserId || transferToUserId === userId) {
+      throw new Error("Invalid transfer recipient");
+    }
+    await validateUserGroupMembership(transferToUserId, groupId);
+  }
 
   const db = admin.firestore();
   const groupRef = db.collection("groups").doc(groupId);
-  const userGroupRef = db.collection("users").doc(userId)
-    .collection("groups").doc(groupId);
-  const groupMemberRef = groupRef.collection("members").doc(userId);
-
-  // Get current user membership data
-  const [userGroupDoc] = await Promise.all([
-    userGroupRef.get(),
-    groupMemberRef.get(),
-  ]);
 
-  const userGroupData = userGroupDoc.data();
+  return db.runTransaction(async (transaction) => {
+    // All reads must happen before any writes in a transaction
+    const [groupDoc, userGroupDoc, membersSnapshot, bucketsSnapshot] =
+      await Promise.all([
+        transaction.get(groupRef),
+        transaction.get(userGroupRef),
+        transaction.get(groupRef.collection("members")),
+        transaction.get(
+          groupRef
+            .collection("buckets")
+            .where("userId", "==", userId)
+            .where("status", "==", "active")
+            .orderBy("purchasedAt", "asc")
+        ),
+      ]);
+
+    const balance = userGroupDoc.data()?.balance || 0;
+    if (balance < 0) {
+      throw new Error(
+        `User has outstanding debt of ${Math.abs(balance)}. ` +
+        "Settle the balance before leaving the group"
+      );
+    }
+    if (balance > 0) {
+      throw new Error(
+        `User has unsettled credit of ${balance}. ` +
+        "Pay out the credit before leaving the group"
+      );
+    }
 
-  // Create bucket documents
-  const bucketIds: string[] = [];
-  const bucketPromises: Promise<any>[] = [];
+    const memberRoles = new Map(membersSnapshot.docs.map((doc) =>
+      [doc.id, resolveMemberRole(doc.data())]
+    ));
+    const role = memberRoles.get(userId);
 
-  for (let i = 0; i < bucketCount; i++) {
-    const bucketRef = groupRef.collection("buckets").doc();
-    bucketIds.push(bucketRef.id);
+    if (role === "owner") {
+      throw new Error(
+        "The group owner must transfer ownership before leaving the group"
+      );
+    }
+    if (
+      role === "admin" &&
+      removedBy !== userId &&
+      memberRoles.get(removedBy) !== "owner"
+    ) {
+      throw new Error("Only the group owner can remove admins");
+    }
+    if (!hasAdminOtherThan(membersSnapshot.docs, userId)) {
+      throw new Error("Group must have an admin");
+    }
 
-    const bucketData = {
-      userId,
-      unitsInBucket: unitsPerBucket,
-      remainingUnits: unitsPerBucket,
-      purchasedAt: new Date(),
-      status: i === 0 ? "active" : "active", // All buckets start as active
-      purchaseBatchId: `batch_${Date.now()}_${userId}`,
-    };
+    const buckets = bucketsSnapshot.docs
+      .filter((doc) => (doc.data().remainingUnits || 0) > 0);
+    const unitsAffected = buckets.reduce(
+      (sum, doc) => sum + doc.data().remainingUnits,
+      0
+    );
+    let refundAmount = 0;
 
-    bucketPromises.push(bucketRef.set(bucketData));
-  }
+    if (bucketHandling === "transfer" && transferToUserId) {
+      const recipientUserGroupRef = db.collection("users")
+        .doc(transferToUserId).collection("groups").doc(groupId);
+      const recipientDoc = await transaction.get(recipientUserGroupRef);
 
-  // Set the first bucket as the active bucket if user has no active bucket
-  const currentActiveBucketId = userGroupData?.activeBucketId;
-  const newActiveBucketId = currentActiveBucketId || bucketIds[0];
+      buckets.forEach((doc) => {
+        transaction.update(doc.ref, {
+          userId: transferToUserId,
+          transferredFrom: userId,
+          updatedAt: new Date(),
+        });
+      });
 
-  // Update user membership with new active bucket
-  const updatePromises = [
-    userGroupRef.update({
-      activeBucketId: newActiveBucketId,
-      updatedAt: new Date(),
-    }),
-    groupMemberRef.update({
-      activeBucketId: newActiveBucketId,
-      updatedAt: new Date(),
-    }),
-  ];
+      // Give the recipient an active bucket if they had none
+      if (buckets.length > 0 && !recipientDoc.data()?.activeBucketId) {
+        const recipientUpdate = {
+          activeBucketId: buckets[0].id,
+          updatedAt: new Date(),
+        };
+        transaction.update(recipientUserGroupRef, recipientUpdate);
+        transaction.update(
+          groupRef.collection("members").doc(transferToUserId),
+          recipientUpdate
+        );
+      }
+    } else {
+      const status = bucketHandling === "refund" ? "refunded" : "forfeited";
+
+      buckets.forEach((doc) => {
+        const bucketData = doc.data();
+        if (bucketHandling === "refund" && bucketData.unitsInBucket > 0) {
+          refundAmount += (bucketData.unitPrice || 0) *
+            bucketData.remainingUnits / bucketData.unitsInBucket;
+        }
+        transaction.update(doc.ref, {status, updatedAt: new Date()});
+      });
+      refundAmount = roundMoney(refundAmount);
+
+      if (refundAmount > 0) {
+        const balanceBefore = groupDoc.data()?.kittyBalance || 0;
+        if (refundAmount > balanceBefore) {
+          throw new Error(
+            `Insufficient funds in kitty. Available: ${balanceBefore}, ` +
+            `requested: ${refundAmount}`
+          );
+        }
+        const balanceAfter = roundMoney(balanceBefore - refundAmount);
+
+        transaction.set(groupRef.collection("transactions").doc(), {
+          userId,
+          amount: refundAmount,
+          type: "member-refund",
+          comment: `Refund of ${unitsAffected} unused unit(s) on leaving`,
+          bucketIds: buckets.map((doc) => doc.id),
+          balanceBefore,
+          balanceAfter,
+          createdAt: new Date(),
+        });
+        transaction.update(groupRef, {
+          kittyBalance: balanceAfter,
+          updatedAt: new Date(),
+        });
+      }
+    }
 
-  // Execute all operations atomically
-  await Promise.all([...bucketPromises, ...updatePromises]);
+    // Remove both sides of the relationship
+    transaction.delete(userGroupRef);
+    transaction.delete(groupMemberRef);
+
+    writeAuditEntry(transaction, groupRef, {
+      action: removedBy === userId ? "member.left" : "member.removed",
+      target: {type: "member", id: userId},
+      before: {role, balance},
+      after: {
+        bucketHandling,
+        bucketIds: buckets.map((doc) => doc.id),
+        refundAmount,
+        transferToUserId: bucketHandling === "transfer" ?
+          transferToUserId :
+          null,
+      },
+      actorId: removedBy,
+    });
 
-  return bucketIds;
+    return {
+      groupId,
+      userId,
+      removedBy,
+      bucketHandling,
+      bucketsAffected: buckets.length,
+      unitsAffected,
+      refundAmount,
+      transferToUserId: bucketHandling === "transfer" ?
+        transferToUserId :
+        null,
+    };
+  });
 }
 
 /**
- * Updates a user's balance in a group
+ * Promotes a member to admin or demotes an admin to member
  *
- * This function allows admins to add debt (negative amount) or clear debt
- * (positive amount) for a user in a group. The balance can only be negative
- * (representing debt).
+ * Admins can promote members. Demoting an admin requires the owner,
+ * except that admins may step down themselves. The owner's role only
+ * changes through transferOwnership, and the group must keep at least
+ * one admin.
  *
  * @param {string} groupId - The ID of the group
- * @param {string} userId - The ID of the user whose balance to update
- * @param {number} amount - Amount to add to balance (negative for debt,
- * positive for payment)
- * @param {string} adminUserId - The ID of the admin making the change
- * @return {Promise<void>}
+ * @param {string} userId - The ID of the member whose role changes
+ * @param {GroupRole} role - The new role ("member" or "admin")
+ * @param {string} changedBy - The ID of the user making the change
+ * @return {Promise<Object>} The member's previous and new role
  *
  * @example
- * // Add $20 debt
- * await updateUserBalance("group123", "user456", -20, "admin789");
+ * // Let a second person approve join requests
+ * await updateMemberRole("group123", "user456", "admin", "owner789");
  *
- * // Clear $15 debt
- * await updateUserBalance("group123", "user456", 15, "admin789");
- *
- * @throws {Error} Various validation errors from validators
+ * @throws {Error} "Only the group owner can demote admins" or
+ * "Group must have an admin"
  */
-export async function updateUserBalance(
+export async function updateMemberRole(
   groupId: string,
   userId: string,
-  amount: number,
-  adminUserId: string
-): Promise<void> {
+  role: Exclude<GroupRole, "owner">,
+  changedBy: string
+): Promise<{
+  groupId: string;
+  userId: string;
+  previousRole: GroupRole | undefined;
+  role: GroupRole;
+}> {
   // Validate that user is a member of the group
-  await validateUserGroupMembership(userId, groupId);
-
-  // Validate that admin is a member and is admin
-  await validateUserIsGroupAdmin(adminUserId, groupId);
+  const {userGroupRef, groupMemberRef} =
+    await validateUserGroupMembership(userId, groupId);
 
   const db = admin.firestore();
-  const userGroupRef = db.collection("users").doc(userId)
-    .collection("groups").doc(groupId);
-  const groupMemberRef = db.collection("groups").doc(groupId)
-    .collection("members").doc(userId);
+  const groupRef = db.collection("groups").doc(groupId);
 
-  // Get current user data
-  const userGroupDoc = await userGroupRef.get();
-  const userGroupData = userGroupDoc.data();
+  return db.runTransaction(async (transaction) => {
+    const membersSnapshot = await transaction.get(
+      groupRef.collection("members")
+    );
+    const memberRoles = new Map(membersSnapshot.docs.map((doc) =>
+      [doc.id, resolveMemberRole(doc.data())]
+    ));
+    const previousRole = memberRoles.get(userId);
+
+    if (previousRole === "owner") {
+      throw new Error(
+        "The owner's role can only change through an ownership transfer"
+      );
+    }
+    if (
+      previousRole === "admin" &&
+      role === "member" &&
+      changedBy !== userId &&
+      memberRoles.get(changedBy) !== "owner"
+    ) {
+      throw new Error("Only the group owner can demote admins");
+    }
+    if (role === "member" && !hasAdminOtherThan(membersSnapshot.docs, userId)) {
+      throw new Error("Group must have an admin");
+    }
 
-  // Validate amount is not zero
-  if (amount === 0) {
-    throw new Error("Amount cannot be zero");
+    const roleUpdate = {
+      role,
+      isAdmin: role === "admin",
+      roleUpdatedBy: changedBy,
+      updatedAt: new Date(),
+    };
+    transaction.update(userGroupRef, roleUpdate);
+    transaction.update(groupMemberRef, roleUpdate);
+    writeAuditEntry(transaction, groupRef, {
+      action: "member.role-updated",
+      target: {type: "member", id: userId},
+      before: {role: previousRole},
+      after: {role},
+      actorId: changedBy,
+    });
+
+    return {groupId, userId, previousRole, role};
+  });
+}
+
+/**
+ * Transfers ownership of a group to another member
+ *
+ * The new owner must already be a member. The previous owner stays in
+ * the group as an admin. Both memberships are updated on both sides of
+ * the relationship in a single Firestore transaction.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} newOwnerId - The ID of the member becoming owner
+ * @param {string} currentOwnerId - The ID of the current owner
+ * @return {Promise<void>}
+ *
+ * @example
+ * await transferOwnership("group123", "user456", "owner789");
+ *
+ * @throws {Error} "Only the group owner can transfer ownership" if the
+ * caller is not the owner
+ */
+export async function transferOwnership(
+  groupId: string,
+  newOwnerId: string,
+  currentOwnerId: string
+): Promise<void> {
+  if (newOwnerId === currentOwnerId) {
+    throw new Error("Invalid new owner: user already owns the group");
   }
 
-  const currentBalance = userGroupData?.balance || 0;
-  const newBalance = currentBalance + amount;
+  const [newOwnerRefs, currentOwnerRefs] = await Promise.all([
+    validateUserGroupMembership(newOwnerId, groupId),
+    validateUserGroupMembership(currentOwnerId, groupId),
+  ]);
 
-  // Validate that balance doesn't become positive (users can only have debt)
-  if (newBalance > 0) {
-    throw new Error(
-      "User balance cannot be positive. Maximum payment allowed: " +
-      Math.abs(currentBalance)
+  await admin.firestore().runTransaction(async (transaction) => {
+    const currentOwnerDoc = await transaction.get(
+      currentOwnerRefs.groupMemberRef
     );
-  }
+    if (resolveMemberRole(currentOwnerDoc.data()) !== "owner") {
+      throw new Error("Only the group owner can transfer ownership");
+    }
 
-  // Update user balance in both locations
-  await Promise.all([
-    userGroupRef.update({
-      balance: newBalance,
+    const ownerUpdate = {
+      role: "owner",
+      isAdmin: true,
+      roleUpdatedBy: currentOwnerId,
       updatedAt: new Date(),
-    }),
-    groupMemberRef.update({
-      balance: newBalance,
-      updatedAt: new Date(),
-    }),
-  ]);
+    };
+    transaction.update(newOwnerRefs.userGroupRef, ownerUpdate);
+    transaction.update(newOwnerRefs.groupMemberRef, ownerUpdate);
+
+    const previousOwnerUpdate = {...ownerUpdate, role: "admin"};
+    transaction.update(currentOwnerRefs.userGroupRef, previousOwnerUpdate);
+    transaction.update(currentOwnerRefs.groupMemberRef, previousOwnerUpdate);
+
+    writeAuditEntry(
+      transaction,
+      admin.firestore().collection("groups").doc(groupId),
+      {
+        action: "group.ownership-transferred",
+        target: {type: "group", id: groupId},
+        before: {ownerId: currentOwnerId},
+        after: {ownerId: newOwnerId},
+        actorId: currentOwnerId,
+      }
+    );
+  });
 }
 
 /**
- * Records consumption of units from a user's active bucket
+ * Purchases buckets for a user in a group
+ *
+ * This function allows users to purchase multiple buckets of the same size.
+ * Each bucket is tracked individually with its own remaining units.
+ * The first bucket becomes the user's active bucket.
  *
- * This function tracks when a user takes units from their active bucket.
- * If the active bucket runs out,
- * it automatically moves to the next available bucket.
+ * When the group has pricing configured, the total cost is added to the
+ * member's balance as debt (using up any prepaid credit first) and a
+ * "bucket-purchase" record is written to the transactions ledger. Buckets,
+ * balance and ledger entry are written in a single Firestore transaction,
+ * so the bucket and balance views always agree.
  *
  * @param {string} groupId - The ID of the group
- * @param {string} userId - The ID of the user consuming units
- * @param {number} units - Number of units to consume
- * @return {Promise<void>}
+ * @param {string} userId - The ID of the user purchasing buckets
+ * @param {number} bucketCount - Number of buckets to purchase
+ * @param {number} unitsPerBucket - Units in each bucket
+ * @return {Promise<string[]>} Array of bucket IDs created
  *
  * @example
- * await recordConsumption("group123", "user456", 2);
- * console.log("User consumed 2 units from their active bucket");
+ * const bucketIds = await purchaseBuckets("group123", "user456", 5, 8);
+ * console.log("Purchased 5 buckets of 8 units each:", bucketIds);
  *
  * @throws {Error} Various validation errors from validators
  */
-export async function recordConsumption(
+export async function purchaseBuckets(
   groupId: string,
   userId: string,
-  units: number
-): Promise<void> {
+  bucketCount: number,
+  unitsPerBucket: number
+): Promise<string[]> {
   // Validate that user is a member of the group
   await validateUserGroupMembership(userId, groupId);
 
@@ -365,456 +945,2643 @@ export async function recordConsumption(
   const userGroupRef = db.collection("users").doc(userId)
     .collection("groups").doc(groupId);
   const groupMemberRef = groupRef.collection("members").doc(userId);
+  const purchaseBatchId = `batch_${Date.now()}_${userId}`;
 
-  // Get current user membership data
-  const [userGroupDoc] = await Promise.all([
-    userGroupRef.get(),
-    groupMemberRef.get(),
-  ]);
+  return db.runTransaction(async (transaction) => {
+    const [groupDoc, userGroupDoc] = await Promise.all([
+      transaction.get(groupRef),
+      transaction.get(userGroupRef),
+    ]);
+
+    const groupData = groupDoc.data();
+    const userGroupData = userGroupDoc.data();
+    assertGroupActive(groupData);
+    const pricing = resolveGroupPricing(groupData);
+
+    if (pricing.consumptionMode === "tab") {
+      throw new Error("Buckets cannot be purchased in tab mode");
+    }
+
+    const unitPrice = calculateBucketPrice(pricing, unitsPerBucket);
+    const totalCost = roundMoney(unitPrice * bucketCount);
+
+    // Create bucket documents
+    const bucketIds: string[] = [];
+    for (let i = 0; i < bucketCount; i++) {
+      const bucketRef = groupRef.collection("buckets").doc();
+      bucketIds.push(bucketRef.id);
+
+      transaction.set(bucketRef, {
+        userId,
+        unitsInBucket: unitsPerBucket,
+        remainingUnits: unitsPerBucket,
+        purchasedAt: new Date(),
+        status: "active", // All buckets start as active
+        purchaseBatchId,
+        unitPrice,
+      });
+    }
+
+    // Set the first bucket as the active bucket if user has no active bucket
+    const currentActiveBucketId = userGroupData?.activeBucketId;
+    const membershipUpdate: admin.firestore.DocumentData = {
+      activeBucketId: currentActiveBucketId || bucketIds[0],
+      updatedAt: new Date(),
+    };
+
+    // Charge the member and record the purchase in the ledger
+    if (totalCost > 0) {
+      const balanceBefore = userGroupData?.balance || 0;
+      const balanceAfter = roundMoney(balanceBefore - totalCost);
+      const kittyBalance = groupData?.kittyBalance || 0;
+      membershipUpdate.balance = balanceAfter;
+
+      const purchaseRef = groupRef.collection("transactions").doc();
+      const comment = `${bucketCount} x ${unitsPerBucket}-unit bucket(s)`;
+      transaction.set(purchaseRef, {
+        userId,
+        amount: totalCost,
+        type: "bucket-purchase",
+        comment,
+        bucketIds,
+        purchaseBatchId,
+        memberBalanceBefore: balanceBefore,
+        memberBalanceAfter: balanceAfter,
+        balanceBefore: kittyBalance,
+        balanceAfter: kittyBalance,
+        createdAt: new Date(),
+      });
+      writeBalanceHistoryEntry(transaction, groupRef, {
+        userId,
+        type: "bucket-purchase",
+        amount: -totalCost,
+        balanceBefore,
+        balanceAfter,
+        adjustedBy: getRequestContext()?.actorId || userId,
+        reason: comment,
+        transactionId: purchaseRef.id,
+      });
+    }
+
+    transaction.update(userGroupRef, membershipUpdate);
+    transaction.update(groupMemberRef, membershipUpdate);
+
+    writeAuditEntry(transaction, groupRef, {
+      action: "buckets.purchased",
+      target: {type: "member", id: userId},
+      before: {balance: userGroupData?.balance || 0},
+      after: {
+        balance: membershipUpdate.balance ?? (userGroupData?.balance || 0),
+        bucketIds,
+        unitsPerBucket,
+        totalCost,
+      },
+    });
+
+    return bucketIds;
+  });
+}
+
+/**
+ * Sets the pricing and consumption mode for a group
+ *
+ * Settings that are omitted keep their current value; passing null
+ * clears a price or the credit limit. With no prices set, bucket
+ * purchases are free and do not affect member balances. Tab mode needs
+ * a per-unit price, since every unit consumed is charged at that price.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {Partial<GroupPricing>} pricing - The settings to update
+ * @return {Promise<GroupPricing>} The group's updated pricing
+ *
+ * @example
+ * // Run a tab at $1.50 per unit, up to $50 of debt
+ * await updateGroupPricing("group123", {
+ *   consumptionMode: "tab", pricePerUnit: 1.5, creditLimit: 50,
+ * });
+ *
+ * @throws {Error} "Tab mode requires a price per unit" if the result
+ * would be a tab without a per-unit price
+ */
+export async function updateGroupPricing(
+  groupId: string,
+  pricing: Partial<GroupPricing>
+): Promise<GroupPricing> {
+  const groupRef = await validateGroupExists(groupId);
+  const groupDoc = await groupRef.get();
+
+  const update: Record<string, unknown> = {};
+  for (const key of [
+    "pricePerBucket",
+    "pricePerUnit",
+    "consumptionMode",
+    "creditLimit",
+  ] as const) {
+    if (pricing[key] !== undefined) {
+      update[key] = pricing[key];
+    }
+  }
+
+  const updatedPricing = resolveGroupPricing({
+    ...groupDoc.data(),
+    ...update,
+  });
+
+  if (
+    updatedPricing.consumptionMode === "tab" &&
+    updatedPricing.pricePerUnit === null
+  ) {
+    throw new Error("Tab mode requires a price per unit");
+  }
+
+  const batch = admin.firestore().batch();
+  batch.update(groupRef, {...update, updatedAt: new Date()});
+  writeAuditEntry(batch, groupRef, {
+    action: "group.pricing-updated",
+    target: {type: "group", id: groupId},
+    before: resolveGroupPricing(groupDoc.data()),
+    after: updatedPricing,
+  });
+  await batch.commit();
+
+  return updatedPricing;
+}
+
+/**
+ * Kinds of manual balance adjustment an admin can make
+ */
+export type BalanceAdjustmentType =
+  "debt-added" | "payment-received" | "correction" | "write-off";
+
+/**
+ * Kinds of entry in a member's balance history
+ *
+ * Besides manual adjustments, every purchase, tab charge, tab refund and
+ * imported opening balance that moves a member's balance is recorded.
+ */
+export type BalanceHistoryType =
+  BalanceAdjustmentType |
+  "bucket-purchase" |
+  "tab-consumption" |
+  "tab-reversal" |
+  "opening-balance" |
+  "settlement";
+
+/**
+ * A change to a member's balance, as stored in balance_adjustments
+ */
+interface BalanceChange {
+  userId: string;
+  type: BalanceHistoryType;
+  amount: number; // negative for debt, positive for payment or refund
+  balanceBefore: number;
+  balanceAfter: number;
+  adjustedBy: string;
+  reason: string;
+  [reference: string]: unknown; // e.g. transactionId, consumptionId
+}
+
+/**
+ * Adds an entry to a member's balance history as part of a batch or
+ * transaction
+ *
+ * Every write to a member's balance goes through here, so the balance
+ * always equals the sum of the member's history since they joined.
+ *
+ * @param {admin.firestore.Transaction | admin.firestore.WriteBatch} writer -
+ * The transaction or batch changing the balance
+ * @param {admin.firestore.DocumentReference} groupRef - The group document
+ * @param {BalanceChange} change - The balance change
+ * @param {Date} createdAt - When the change happened (defaults to now)
+ * @return {string} The ID of the history entry
+ */
+function writeBalanceHistoryEntry(
+  writer: admin.firestore.Transaction | admin.firestore.WriteBatch,
+  groupRef: admin.firestore.DocumentReference,
+  change: BalanceChange,
+  createdAt: Date = new Date()
+): string {
+  const entryRef = groupRef.collection("balance_adjustments").doc();
+  // Both writers have the same set(); TypeScript cannot call the union
+  (writer as admin.firestore.WriteBatch).set(entryRef, {
+    ...change,
+    createdAt,
+  });
+  return entryRef.id;
+}
+
+/**
+ * Sign each manual adjustment type's amount must have, if any
+ */
+const BALANCE_ADJUSTMENT_SIGN: Record<BalanceAdjustmentType, number> = {
+  "debt-added": -1,
+  "payment-received": 1,
+  "write-off": 1,
+  "correction": 0, // either direction
+};
+
+/**
+ * Adjusts a user's balance in a group
+ *
+ * This function allows admins to add debt, record a payment, write debt
+ * off or correct a mistake. Debt is added with a negative amount; payments
+ * and write-offs use a positive amount, and corrections may go either way.
+ * A negative balance is debt. A payment larger than the debt leaves the
+ * member with prepaid credit, which later purchases and tab charges use
+ * up; write-offs can only forgive existing debt. Each adjustment is
+ * recorded in the member's balance history with its type, reason and
+ * the balance before and after.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} userId - The ID of the user whose balance to update
+ * @param {number} amount - Amount to add to balance (negative for debt,
+ * positive for payment)
+ * @param {string} adminUserId - The ID of the admin making the change
+ * @param {BalanceAdjustmentType} type - The kind of adjustment
+ * @param {string} reason - Why the balance is being adjusted
+ * @return {Promise<string>} The ID of the balance history entry
+ *
+ * @example
+ * // Add $20 debt
+ * await updateUserBalance(
+ *   "group123", "user456", -20, "admin789", "debt-added", "Pizza night"
+ * );
+ *
+ * // Record a $15 cash payment
+ * await updateUserBalance(
+ *   "group123", "user456", 15, "admin789", "payment-received", "Cash"
+ * );
+ *
+ * @throws {Error} "Invalid amount ..." if the sign does not match the
+ * type or a write-off exceeds the debt
+ */
+export async function updateUserBalance(
+  groupId: string,
+  userId: string,
+  amount: number,
+  adminUserId: string,
+  type: BalanceAdjustmentType,
+  reason: string
+): Promise<string> {
+  // Validate that user is a member of the group
+  // (admin permissions are enforced by the route's requireRole policy)
+  await validateUserGroupMembership(userId, groupId);
+
+  // Validate amount is not zero
+  if (amount === 0) {
+    throw new Error("Amount cannot be zero");
+  }
+  if (Math.sign(amount) * BALANCE_ADJUSTMENT_SIGN[type] < 0) {
+    throw new Error(
+      `Invalid amount: ${type} adjustments must be ` +
+      (BALANCE_ADJUSTMENT_SIGN[type] < 0 ? "negative" : "positive")
+    );
+  }
+
+  const db = admin.firestore();
+  const groupRef = db.collection("groups").doc(groupId);
+  const userGroupRef = db.collection("users").doc(userId)
+    .collection("groups").doc(groupId);
+  const groupMemberRef = groupRef.collection("members").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userGroupDoc = await transaction.get(userGroupRef);
+
+    const currentBalance = userGroupDoc.data()?.balance || 0;
+    const newBalance = roundMoney(currentBalance + amount);
+
+    // Only debt can be written off; overpayments become credit instead
+    if (type === "write-off" && newBalance > 0) {
+      throw new Error(
+        "Invalid amount: write-offs cannot exceed the outstanding debt of " +
+        Math.max(0, -currentBalance)
+      );
+    }
+
+    // Update user balance in both locations
+    transaction.update(userGroupRef, {
+      balance: newBalance,
+      updatedBy: adminUserId,
+      updatedAt: new Date(),
+    });
+    transaction.update(groupMemberRef, {
+      balance: newBalance,
+      updatedBy: adminUserId,
+      updatedAt: new Date(),
+    });
+    const adjustmentId = writeBalanceHistoryEntry(transaction, groupRef, {
+      userId,
+      type,
+      amount,
+      balanceBefore: currentBalance,
+      balanceAfter: newBalance,
+      adjustedBy: adminUserId,
+      reason,
+    });
+    writeAuditEntry(transaction, groupRef, {
+      action: "member.balance-adjusted",
+      target: {type: "member", id: userId},
+      before: {balance: currentBalance},
+      after: {balance: newBalance, adjustmentId, type, reason},
+      actorId: adminUserId,
+    });
+
+    return adjustmentId;
+  });
+}
+
+/**
+ * Gets a member's balance history in a group
+ *
+ * Lists every change to the member's balance since they joined, newest
+ * first: manual adjustments with their type and reason, bucket purchases,
+ * tab charges and refunds, and imported opening balances. Summing the
+ * amounts of all entries gives the member's current balance. History from
+ * an earlier membership of the same group is not included.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} userId - The ID of the member
+ * @param {HistoryQuery} query - Optional type, from/to, limit and cursor
+ * @return {Promise<Object>} The member's current balance and a page of
+ * history entries
+ *
+ * @example
+ * const {balance, items} = await getBalanceHistory("group123", "user456");
+ * items.forEach((entry) => {
+ *   console.log(`${entry.type}: ${entry.amount} (${entry.reason})`);
+ * });
+ */
+export async function getBalanceHistory(
+  groupId: string,
+  userId: string,
+  query: HistoryQuery = {}
+): Promise<HistoryPage & {balance: number}> {
+  const {groupMemberRef} = await validateUserGroupMembership(userId, groupId);
+  const memberData = (await groupMemberRef.get()).data();
+  const joinedAt = memberData?.joinedAt ? toDate(memberData.joinedAt) : null;
+
+  const {docs, nextCursor} = await queryHistoryPage(
+    admin.firestore().collection("groups").doc(groupId)
+      .collection("balance_adjustments"),
+    "createdAt",
+    {
+      ...query,
+      userId,
+      from: joinedAt && (!query.from || query.from < joinedAt) ?
+        joinedAt :
+        query.from,
+    }
+  );
+
+  const entries = docs.map((doc) => {
+    const entryData = doc.data();
+    return {
+      entryId: doc.id,
+      // Adjustments recorded before types existed were manual corrections
+      type: entryData.type || "correction",
+      amount: entryData.amount || 0,
+      balanceBefore: entryData.balanceBefore ?? null,
+      balanceAfter: entryData.balanceAfter ?? null,
+      reason: entryData.reason || "",
+      adjustedBy: entryData.adjustedBy || null,
+      transactionId: entryData.transactionId || null,
+      consumptionId: entryData.consumptionId || null,
+      createdAt: entryData.createdAt,
+    };
+  });
+
+  return {
+    balance: memberData?.balance || 0,
+    items: entries,
+    nextCursor,
+  };
+}
+
+/**
+ * Charges consumed units to a member's tab inside a Firestore transaction
+ *
+ * Writes a bucketless consumption record, adds the charge to the
+ * member's balance on both sides of the relationship and records a
+ * "tab-consumption" ledger entry. Must be called after all of the
+ * transaction's reads.
+ *
+ * @param {admin.firestore.Transaction} transaction - The open transaction
+ * @param {admin.firestore.DocumentSnapshot} groupDoc - The group document
+ * @param {admin.firestore.DocumentSnapshot} userGroupDoc - The user's
+ * membership document
+ * @param {admin.firestore.DocumentReference} groupMemberRef - The group's
+ * member document
+ * @param {GroupPricing} pricing - The group's pricing configuration
+ * @param {number} units - Number of units consumed
+ * @return {string} The ID of the consumption record
+ * @throws {Error} "Credit limit exceeded" if the charge would take the
+ * member past the group's credit limit
+ */
+function recordTabConsumption(
+  transaction: admin.firestore.Transaction,
+  groupDoc: admin.firestore.DocumentSnapshot,
+  userGroupDoc: admin.firestore.DocumentSnapshot,
+  groupMemberRef: admin.firestore.DocumentReference,
+  pricing: GroupPricing,
+  units: number
+): string {
+  const userId = groupMemberRef.id;
+  const charge = calculateTabCharge(pricing, units);
+  const balanceBefore = userGroupDoc.data()?.balance || 0;
+  const balanceAfter = roundMoney(balanceBefore - charge);
+
+  if (exceedsCreditLimit(balanceAfter, pricing.creditLimit)) {
+    const availableCredit = roundMoney(
+      Math.max(0, (pricing.creditLimit || 0) + balanceBefore)
+    );
+    throw new Error(
+      `Credit limit exceeded. Available credit: ${availableCredit}, ` +
+      `requested: ${charge}`
+    );
+  }
+
+  const consumptionRef = groupDoc.ref.collection("consumption").doc();
+  transaction.set(consumptionRef, {
+    userId,
+    units,
+    consumedAt: new Date(),
+    bucketId: null,
+    consumptionBatchId: `consumption_${Date.now()}_${userId}`,
+    charge,
+  });
+
+  const kittyBalance = groupDoc.data()?.kittyBalance || 0;
+  const chargeRef = groupDoc.ref.collection("transactions").doc();
+  transaction.set(chargeRef, {
+    userId,
+    amount: charge,
+    type: "tab-consumption",
+    comment: `${units} unit(s) on tab`,
+    consumptionId: consumptionRef.id,
+    memberBalanceBefore: balanceBefore,
+    memberBalanceAfter: balanceAfter,
+    balanceBefore: kittyBalance,
+    balanceAfter: kittyBalance,
+    createdAt: new Date(),
+  });
+  writeBalanceHistoryEntry(transaction, groupDoc.ref, {
+    userId,
+    type: "tab-consumption",
+    amount: -charge,
+    balanceBefore,
+    balanceAfter,
+    adjustedBy: getRequestContext()?.actorId || userId,
+    reason: `${units} unit(s) on tab`,
+    transactionId: chargeRef.id,
+    consumptionId: consumptionRef.id,
+  });
+
+  const balanceUpdate = {balance: balanceAfter, updatedAt: new Date()};
+  transaction.update(userGroupDoc.ref, balanceUpdate);
+  transaction.update(groupMemberRef, balanceUpdate);
+
+  writeAuditEntry(transaction, groupDoc.ref, {
+    action: "consumption.recorded",
+    target: {type: "consumption", id: consumptionRef.id},
+    before: {balance: balanceBefore},
+    after: {userId, units, charge, balance: balanceAfter},
+  });
+
+  return consumptionRef.id;
+}
+
+/**
+ * Records consumption of units from a user's buckets
+ *
+ * This function tracks when a user takes units from their buckets.
+ * Units are drained from the active bucket first and then from the
+ * user's other buckets in purchase order, so a request can span several
+ * buckets. One consumption record is written per bucket touched, all
+ * sharing a consumptionBatchId. The request only fails when the user's
+ * total remaining units across all buckets are insufficient.
+ *
+ * The consumption records, bucket decrements, bucket completion and
+ * active bucket rollover all happen inside a single Firestore transaction,
+ * so simultaneous taps cannot both spend the same remaining units and a
+ * failure never leaves the buckets and the consumption records out of sync.
+ *
+ * Groups in "tab" mode skip buckets: the units are charged to the
+ * member's balance at the group's per-unit price instead, and consumption
+ * is refused once the member would exceed the group's credit limit.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} userId - The ID of the user consuming units
+ * @param {number} units - Number of units to consume
+ * @param {QRNonceClaim} [nonceClaim] - Single-use QR code to mark as used
+ * in the same transaction
+ * @return {Promise<string[]>} IDs of the consumption records created
+ *
+ * @example
+ * // Active bucket has 2 units left, next bucket has 8
+ * const consumptionIds = await recordConsumption("group123", "user456", 3);
+ * console.log("Records written:", consumptionIds.length); // 2
+ *
+ * @throws {Error} Various validation errors from validators
+ * @throws {QRCodeError} QR_ALREADY_USED if the single-use code was
+ * processed before
+ */
+export async function recordConsumption(
+  groupId: string,
+  userId: string,
+  units: number,
+  nonceClaim?: QRNonceClaim
+): Promise<string[]> {
+  // Validate that user is a member of the group
+  await validateUserGroupMembership(userId, groupId);
+
+  const db = admin.firestore();
+  const groupRef = db.collection("groups").doc(groupId);
+  const userGroupRef = db.collection("users").doc(userId)
+    .collection("groups").doc(groupId);
+  const groupMemberRef = groupRef.collection("members").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    // All reads must happen before any writes in a transaction
+    const [groupDoc, userGroupDoc, nonceDoc] = await Promise.all([
+      transaction.get(groupRef),
+      transaction.get(userGroupRef),
+      nonceClaim ? transaction.get(nonceClaim.ref) : null,
+    ]);
+    assertQRNonceUnused(nonceDoc);
+    assertGroupActive(groupDoc.data());
+    const pricing = resolveGroupPricing(groupDoc.data());
+    const claimNonce = () => {
+      if (nonceClaim) {
+        transaction.set(nonceClaim.ref, nonceClaim.data);
+      }
+    };
+
+    if (pricing.consumptionMode === "tab") {
+      claimNonce();
+      return [recordTabConsumption(
+        transaction,
+        groupDoc,
+        userGroupDoc,
+        groupMemberRef,
+        pricing,
+        units
+      )];
+    }
+
+    const currentActiveBucketId = userGroupDoc.data()?.activeBucketId || null;
+
+    const bucketsSnapshot = await transaction.get(
+      groupRef
+        .collection("buckets")
+        .where("userId", "==", userId)
+        .where("status", "==", "active")
+        .orderBy("purchasedAt", "asc")
+    );
+
+    // Drain the active bucket first, then the rest in purchase order
+    const buckets = bucketsSnapshot.docs
+      .filter((doc) => (doc.data().remainingUnits || 0) > 0)
+      .sort((a, b) =>
+        Number(b.id === currentActiveBucketId) -
+        Number(a.id === currentActiveBucketId)
+      );
+
+    if (buckets.length === 0) {
+      throw new Error("User has no active bucket");
+    }
+
+    const totalRemainingUnits = buckets.reduce(
+      (sum, doc) => sum + doc.data().remainingUnits,
+      0
+    );
+
+    if (totalRemainingUnits < units) {
+      throw new Error(
+        "Insufficient units across buckets. " +
+        `Available: ${totalRemainingUnits}, requested: ${units}`
+      );
+    }
+
+    claimNonce();
+    const consumptionBatchId = `consumption_${Date.now()}_${userId}`;
+    const consumptionIds: string[] = [];
+    let unitsLeft = units;
+    let nextActiveBucketId: string | null = null;
+
+    for (const bucketDoc of buckets) {
+      const remainingUnits = bucketDoc.data().remainingUnits;
+
+      if (unitsLeft === 0) {
+        // First untouched bucket becomes active if needed
+        nextActiveBucketId = nextActiveBucketId || bucketDoc.id;
+        break;
+      }
+
+      const unitsTaken = Math.min(remainingUnits, unitsLeft);
+      const newRemainingUnits = remainingUnits - unitsTaken;
+      unitsLeft -= unitsTaken;
+
+      // Create consumption record for this bucket
+      const consumptionRef = groupRef.collection("consumption").doc();
+      consumptionIds.push(consumptionRef.id);
+      transaction.set(consumptionRef, {
+        userId,
+        units: unitsTaken,
+        consumedAt: new Date(),
+        bucketId: bucketDoc.id,
+        consumptionBatchId,
+      });
+
+      if (newRemainingUnits === 0) {
+        // Mark bucket as completed
+        transaction.update(bucketDoc.ref, {
+          remainingUnits: 0,
+          status: "completed",
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        });
+      } else {
+        // Partially drained bucket stays active
+        transaction.update(bucketDoc.ref, {
+          remainingUnits: newRemainingUnits,
+          updatedAt: new Date(),
+        });
+        nextActiveBucketId = bucketDoc.id;
+      }
+    }
+
+    // Roll over the active bucket (or none if no more are available)
+    if (nextActiveBucketId !== currentActiveBucketId) {
+      transaction.update(userGroupRef, {
+        activeBucketId: nextActiveBucketId,
+        updatedAt: new Date(),
+      });
+      transaction.update(groupMemberRef, {
+        activeBucketId: nextActiveBucketId,
+        updatedAt: new Date(),
+      });
+    }
+
+    writeAuditEntry(transaction, groupRef, {
+      action: "consumption.recorded",
+      target: {type: "consumption", id: consumptionBatchId},
+      before: {activeBucketId: currentActiveBucketId},
+      after: {
+        userId,
+        units,
+        consumptionIds,
+        activeBucketId: nextActiveBucketId,
+      },
+    });
+
+    return consumptionIds;
+  });
+}
+
+/**
+ * A date as read back from Firestore
+ */
+type StoredDate = admin.firestore.Timestamp | Date | string | number;
+
+/**
+ * Converts a stored Firestore timestamp (or date value) to a Date
+ *
+ * @param {StoredDate} value - A Firestore Timestamp, Date, string or number
+ * @return {Date} The value as a Date
+ */
+function toDate(value: StoredDate): Date {
+  return typeof value === "object" && "toDate" in value ?
+    value.toDate() :
+    new Date(value);
+}
+
+/**
+ * Summary of a reversed consumption record
+ */
+export interface ConsumptionReversal {
+  consumptionId: string;
+  userId: string;
+  units: number;
+  bucketId: string | null; // null for tab consumption
+  refundedCharge: number;
+}
+
+/**
+ * How long users can undo their own consumption without admin rights
+ */
+export const SELF_REVERSAL_WINDOW_MINUTES = 5;
+
+/**
+ * Reverses a consumption record, for example after a mistaken NFC tap
+ *
+ * For bucket consumption, the units are restored to the originating
+ * bucket, reactivating it if it had been completed and making it the
+ * member's active bucket again when the consumption had rolled them over
+ * (or left them without one). Buckets that were refunded, forfeited or
+ * transferred to another member cannot take units back, so those records
+ * cannot be reversed. For tab consumption, the charge is refunded to the
+ * member's balance and recorded in the ledger, up to the member's
+ * outstanding debt: a charge that has already been paid off is not turned
+ * into credit. The record itself is kept and marked as reversed with who
+ * reversed it and why.
+ *
+ * Members can undo their own records within SELF_REVERSAL_WINDOW_MINUTES;
+ * anything else requires admin rights. Only the given record is reversed,
+ * even if it was written alongside others in the same consumption batch.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} consumptionId - The ID of the consumption record
+ * @param {string} reversedBy - The ID of the user reversing the record
+ * @param {boolean} isAdmin - Whether the caller has admin rights
+ * @param {string} reason - Optional reason for the reversal
+ * @return {Promise<Object>} Summary of what was reversed
+ *
+ * @example
+ * const reversal = await reverseConsumption(
+ *   "group123", "consumption456", "user789", false, "Tapped twice"
+ * );
+ * console.log("Units restored:", reversal.units);
+ *
+ * @throws {Error} "Consumption record not found", "Consumption record has
+ * already been reversed", "Only group admins can reverse consumption
+ * after N minutes", "User is not a member of this group", "Consumption
+ * cannot be reversed" if its bucket has been closed or handed on, or
+ * "Group is archived"
+ */
+export async function reverseConsumption(
+  groupId: string,
+  consumptionId: string,
+  reversedBy: string,
+  isAdmin: boolean,
+  reason?: string
+): Promise<ConsumptionReversal> {
+  const groupRef = await validateGroupExists(groupId);
+  const consumptionRef = groupRef.collection("consumption").doc(consumptionId);
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    // All reads must happen before any writes in a transaction
+    const consumptionDoc = await transaction.get(consumptionRef);
+    if (!consumptionDoc.exists) {
+      throw new Error("Consumption record not found");
+    }
+
+    const consumptionData = consumptionDoc.data() || {};
+    if (consumptionData.reversed) {
+      throw new Error("Consumption record has already been reversed");
+    }
+
+    const consumedAt = toDate(consumptionData.consumedAt);
+    const withinSelfWindow = Date.now() - consumedAt.getTime() <=
+      SELF_REVERSAL_WINDOW_MINUTES * 60 * 1000;
+
+    if (
+      !isAdmin &&
+      !(consumptionData.userId === reversedBy && withinSelfWindow)
+    ) {
+      throw new Error(
+        "Only group admins can reverse consumption after " +
+        `${SELF_REVERSAL_WINDOW_MINUTES} minutes or for other members`
+      );
+    }
+
+    const userId: string = consumptionData.userId;
+    const units: number = consumptionData.units || 0;
+    const bucketId: string | null = consumptionData.bucketId || null;
+    const charge: number = consumptionData.charge || 0;
+
+    const userGroupRef = admin.firestore().collection("users").doc(userId)
+      .collection("groups").doc(groupId);
+    const groupMemberRef = groupRef.collection("members").doc(userId);
+    const bucketRef = bucketId ?
+      groupRef.collection("buckets").doc(bucketId) :
+      null;
+
+    const [groupDoc, userGroupDoc, bucketDoc] = await Promise.all([
+      transaction.get(groupRef),
+      transaction.get(userGroupRef),
+      bucketRef ? transaction.get(bucketRef) : Promise.resolve(null),
+    ]);
+
+    assertGroupActive(groupDoc.data());
+    if (!userGroupDoc.exists) {
+      throw new Error("User is not a member of this group");
+    }
+    if (bucketRef && !bucketDoc?.exists) {
+      throw new Error("Originating bucket not found");
+    }
+
+    const membershipUpdate: admin.firestore.DocumentData = {};
+
+    if (bucketRef && bucketDoc) {
+      // Only buckets the member still holds can take the units back
+      const bucketData = bucketDoc.data() || {};
+      if (bucketData.userId !== userId) {
+        throw new Error(
+          "Consumption cannot be reversed: its bucket has been transferred"
+        );
+      }
+      if (!["active", "completed"].includes(bucketData.status)) {
+        throw new Error(
+          "Consumption cannot be reversed: its bucket has been " +
+          bucketData.status
+        );
+      }
+
+      // Put the units back, reactivating the bucket if it was completed
+      transaction.update(bucketRef, {
+        remainingUnits: (bucketData.remainingUnits || 0) + units,
+        status: "active",
+        completedAt: null,
+        updatedAt: new Date(),
+      });
+
+      // Undo the rollover this consumption caused, if any
+      if (
+        bucketData.status === "completed" ||
+        !userGroupDoc.data()?.activeBucketId
+      ) {
+        membershipUpdate.activeBucketId = bucketId;
+      }
+    }
+
+    // Refund the tab charge, but only the part that is still owed
+    const balanceBefore = userGroupDoc.data()?.balance || 0;
+    const refundedCharge = roundMoney(
+      Math.min(charge, Math.max(0, -balanceBefore))
+    );
+
+    if (refundedCharge > 0) {
+      const balanceAfter = roundMoney(balanceBefore + refundedCharge);
+      const kittyBalance = groupDoc.data()?.kittyBalance || 0;
+      membershipUpdate.balance = balanceAfter;
+
+      const refundRef = groupRef.collection("transactions").doc();
+      transaction.set(refundRef, {
+        userId,
+        amount: refundedCharge,
+        type: "tab-reversal",
+        comment: reason || "Consumption reversed",
+        consumptionId,
+        memberBalanceBefore: balanceBefore,
+        memberBalanceAfter: balanceAfter,
+        balanceBefore: kittyBalance,
+        balanceAfter: kittyBalance,
+        createdAt: new Date(),
+      });
+      writeBalanceHistoryEntry(transaction, groupRef, {
+        userId,
+        type: "tab-reversal",
+        amount: refundedCharge,
+        balanceBefore,
+        balanceAfter,
+        adjustedBy: reversedBy,
+        reason: reason || "Consumption reversed",
+        transactionId: refundRef.id,
+        consumptionId,
+      });
+    }
+
+    if (Object.keys(membershipUpdate).length > 0) {
+      membershipUpdate.updatedAt = new Date();
+      transaction.update(userGroupRef, membershipUpdate);
+      transaction.update(groupMemberRef, membershipUpdate);
+    }
+
+    transaction.update(consumptionRef, {
+      reversed: true,
+      reversedAt: new Date(),
+      reversedBy,
+      reversalReason: reason || "",
+    });
+    writeAuditEntry(transaction, groupRef, {
+      action: "consumption.reversed",
+      target: {type: "consumption", id: consumptionId},
+      before: {reversed: false},
+      after: {
+        reversed: true,
+        userId,
+        units,
+        refundedCharge,
+        reason: reason || "",
+      },
+      actorId: reversedBy,
+    });
+
+    return {
+      consumptionId,
+      userId,
+      units,
+      bucketId,
+      refundedCharge,
+    };
+  });
+}
+
+/**
+ * A group member as listed by getGroupDetails and getGroupMembers
+ */
+export interface GroupMemberRecord {
+  userId: string;
+  activeBucketId: string | null;
+  balance: number;
+  joinedAt?: admin.firestore.Timestamp;
+  isAdmin: boolean;
+  role: GroupRole;
+}
+
+/**
+ * A bucket as listed by getGroupDetails and getUserBuckets
+ */
+export interface BucketRecord {
+  bucketId: string;
+  userId?: string; // only in the group-wide inventory
+  unitsInBucket: number;
+  remainingUnits: number;
+  status: string;
+  purchasedAt?: admin.firestore.Timestamp;
+  purchaseBatchId?: string;
+  unitPrice: number;
+}
+
+/**
+ * A group with its members and bucket inventory
+ */
+export interface GroupDetails extends GroupSettings {
+  groupId: string;
+  status: string;
+  archivedAt: admin.firestore.Timestamp | null;
+  kittyBalance: number;
+  pricing: GroupPricing;
+  memberCount: number;
+  members: GroupMemberRecord[];
+  buckets: BucketRecord[];
+  createdAt?: admin.firestore.Timestamp;
+  updatedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * Builds the listing record of a member document
+ *
+ * @param {admin.firestore.DocumentSnapshot} doc - The member document
+ * @return {GroupMemberRecord} The member's record
+ */
+function toGroupMemberRecord(
+  doc: admin.firestore.DocumentSnapshot
+): GroupMemberRecord {
+  const memberData = doc.data();
+  return {
+    userId: doc.id,
+    activeBucketId: memberData?.activeBucketId || null,
+    balance: memberData?.balance || 0,
+    joinedAt: memberData?.joinedAt,
+    isAdmin: memberData?.isAdmin || false,
+    role: resolveMemberRole(memberData),
+  };
+}
+
+/**
+ * Gets detailed information about a group including members
+ * and bucket inventory
+ *
+ * @param {string} groupId - The ID of the group to get details for
+ * @return {Promise<Object>} Group details including kitty balance and members
+ *
+ * @example
+ * const groupDetails = await getGroupDetails("group123");
+ * console.log("Group kitty balance:", groupDetails.kittyBalance);
+ * console.log("Total members:", groupDetails.memberCount);
+ */
+export async function getGroupDetails(
+  groupId: string
+): Promise<GroupDetails> {
+  const groupRef = await validateGroupExists(groupId);
+  const groupDoc = await groupRef.get();
+  const groupData = groupDoc.data();
+  const kittyBalance = groupData?.kittyBalance || 0;
+
+  // Get all members
+  const membersSnapshot = await groupRef.collection("members").get();
+  const members = membersSnapshot.docs.map(toGroupMemberRecord);
+
+  // Get bucket inventory
+  const bucketsSnapshot = await groupRef.collection("buckets").get();
+  const buckets: BucketRecord[] = [];
+
+  bucketsSnapshot.forEach((doc) => {
+    const bucketData = doc.data();
+    const bucket = {
+      bucketId: doc.id,
+      userId: bucketData?.userId,
+      unitsInBucket: bucketData?.unitsInBucket || 0,
+      remainingUnits: bucketData?.remainingUnits || 0,
+      status: bucketData?.status || "active",
+      purchasedAt: bucketData?.purchasedAt,
+      purchaseBatchId: bucketData?.purchaseBatchId,
+      unitPrice: bucketData?.unitPrice || 0,
+    };
+    buckets.push(bucket);
+  });
+
+  return {
+    groupId,
+    ...resolveGroupSettings(groupData),
+    status: groupData?.status || "active",
+    archivedAt: groupData?.archivedAt || null,
+    kittyBalance,
+    pricing: resolveGroupPricing(groupData),
+    memberCount: members.length,
+    members,
+    buckets,
+    createdAt: groupData?.createdAt,
+    updatedAt: groupData?.updatedAt,
+  };
+}
+
+/**
+ * Gets all members of a group with their bucket information
+ *
+ * @param {string} groupId - The ID of the group to get members for
+ * @return {Promise<Array>} Array of group members with their details
+ *
+ * @example
+ * const members = await getGroupMembers("group123");
+ * members.forEach(member => {
+ *   console.log(`${member.userId}: active bucket ${member.activeBucketId}`);
+ * });
+ */
+export async function getGroupMembers(
+  groupId: string
+): Promise<GroupMemberRecord[]> {
+  const groupRef = await validateGroupExists(groupId);
+
+  // Get all members
+  const membersSnapshot = await groupRef.collection("members").get();
+  return membersSnapshot.docs.map(toGroupMemberRecord);
+}
+
+/**
+ * A user with the groups they belong to
+ */
+export interface UserDetails {
+  id: string;
+  userId: string;
+  displayName?: string;
+  email?: string;
+  groupCount: number;
+  groups: Array<Omit<GroupMemberRecord, "userId"> & {groupId: string}>;
+  createdAt?: admin.firestore.Timestamp;
+  updatedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * Gets detailed information about a user including their groups
+ * and bucket status
+ *
+ * @param {string} userId - The ID of the user to get details for
+ * @return {Promise<Object>} User details including groups
+ * and bucket information
+ *
+ * @example
+ * const userDetails = await getUserDetails("user123");
+ * console.log("User groups:", userDetails.groups);
+ * console.log("Total groups:", userDetails.groupCount);
+ */
+export async function getUserDetails(userId: string): Promise<UserDetails> {
+  const {ref: userRef, data: userData} = await validateUserExists(userId);
+
+  // Get all user's groups
+  const groupsSnapshot = await userRef.collection("groups").get();
+  const groups = groupsSnapshot.docs.map((doc) => {
+    const {userId: memberId, ...group} = toGroupMemberRecord(doc);
+    return {...group, groupId: memberId};
+  });
+
+  return {
+    id: userId, // Add 'id' field for backward compatibility with tests
+    userId,
+    displayName: userData?.displayName,
+    email: userData?.email,
+    groupCount: groups.length,
+    groups,
+    createdAt: userData?.createdAt,
+    updatedAt: userData?.updatedAt,
+  };
+}
+
+/**
+ * Gets all buckets for a user in a specific group
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} userId - The ID of the user
+ * @return {Promise<Array>} Array of buckets for the user in the group
+ *
+ * @example
+ * const buckets = await getUserBuckets("group123", "user456");
+ * buckets.forEach(bucket => {
+ *   console.log(`Bucket ${bucket.bucketId}:
+ *   ${bucket.remainingUnits}/${bucket.unitsInBucket} units remaining`);
+ * });
+ */
+export async function getUserBuckets(
+  groupId: string,
+  userId: string
+): Promise<BucketRecord[]> {
+  // Validate that user is a member of the group
+  await validateUserGroupMembership(userId, groupId);
+
+  const groupRef = await validateGroupExists(groupId);
+
+  // Get all buckets for this user in this group
+  const bucketsSnapshot = await groupRef
+    .collection("buckets")
+    .where("userId", "==", userId)
+    .orderBy("purchasedAt", "asc")
+    .get();
+
+  const buckets: BucketRecord[] = [];
+
+  bucketsSnapshot.forEach((doc) => {
+    const bucketData = doc.data();
+    const bucket = {
+      bucketId: doc.id,
+      unitsInBucket: bucketData?.unitsInBucket || 0,
+      remainingUnits: bucketData?.remainingUnits || 0,
+      status: bucketData?.status || "active",
+      purchasedAt: bucketData?.purchasedAt,
+      purchaseBatchId: bucketData?.purchaseBatchId,
+      unitPrice: bucketData?.unitPrice || 0,
+    };
+    buckets.push(bucket);
+  });
+
+  return buckets;
+}
+
+/**
+ * Filters and pagination options for group history listings
+ */
+export interface HistoryQuery {
+  limit?: number;
+  cursor?: string; // ID of the last record on the previous page
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  status?: string;
+  type?: string;
+  actorId?: string;
+  action?: string;
+  targetId?: string;
+}
+
+/**
+ * One page of a group history listing
+ */
+export interface HistoryPage<T = admin.firestore.DocumentData> {
+  items: T[];
+  nextCursor: string | null; // null when there are no more records
+}
 
-  const userGroupData = userGroupDoc.data();
-  const currentActiveBucketId = userGroupData?.activeBucketId;
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Runs a filtered, paginated query over a group history subcollection
+ *
+ * Records are returned newest first. One extra record is read to tell
+ * whether another page follows, and the cursor is the ID of the last
+ * record returned.
+ *
+ * @param {admin.firestore.CollectionReference} collectionRef - The
+ * subcollection to read
+ * @param {string} timestampField - Field the records are ordered by
+ * @param {HistoryQuery} query - Filters and pagination options
+ * @return {Promise<Object>} The page's documents and the next cursor
+ * @throws {Error} "Invalid cursor" if the cursor names no record
+ */
+async function queryHistoryPage(
+  collectionRef: admin.firestore.CollectionReference,
+  timestampField: string,
+  query: HistoryQuery
+): Promise<{
+  docs: admin.firestore.QueryDocumentSnapshot[];
+  nextCursor: string | null;
+}> {
+  const limit = query.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+  let historyQuery: admin.firestore.Query = collectionRef;
+
+  if (query.userId) {
+    historyQuery = historyQuery.where("userId", "==", query.userId);
+  }
+  if (query.status) {
+    historyQuery = historyQuery.where("status", "==", query.status);
+  }
+  if (query.type) {
+    historyQuery = historyQuery.where("type", "==", query.type);
+  }
+  if (query.actorId) {
+    historyQuery = historyQuery.where("actorId", "==", query.actorId);
+  }
+  if (query.action) {
+    historyQuery = historyQuery.where("action", "==", query.action);
+  }
+  if (query.targetId) {
+    historyQuery = historyQuery.where("targetId", "==", query.targetId);
+  }
+  if (query.from) {
+    historyQuery = historyQuery.where(timestampField, ">=", query.from);
+  }
+  if (query.to) {
+    historyQuery = historyQuery.where(timestampField, "<=", query.to);
+  }
+
+  historyQuery = historyQuery.orderBy(timestampField, "desc");
+
+  if (query.cursor) {
+    const cursorDoc = await collectionRef.doc(query.cursor).get();
+    if (!cursorDoc.exists) {
+      throw new Error("Invalid cursor");
+    }
+    historyQuery = historyQuery.startAfter(cursorDoc);
+  }
+
+  const snapshot = await historyQuery.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+  const nextCursor = snapshot.docs.length > limit ?
+    docs[docs.length - 1].id :
+    null;
+
+  return {docs, nextCursor};
+}
+
+/**
+ * A consumption record as listed by getGroupConsumption
+ */
+export interface ConsumptionRecord {
+  consumptionId: string;
+  userId: string;
+  units: number;
+  consumedAt: admin.firestore.Timestamp;
+  bucketId: string | null; // null for tab consumption
+  consumptionBatchId?: string;
+  charge: number;
+  reversed: boolean;
+  reversedAt: admin.firestore.Timestamp | null;
+  reversedBy: string | null;
+  reversalReason: string | null;
+}
+
+/**
+ * Gets consumption history for a group
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {HistoryQuery} query - Optional userId, from/to, limit and cursor
+ * @return {Promise<HistoryPage>} A page of consumption records, newest first
+ *
+ * @example
+ * const page = await getGroupConsumption("group123", {limit: 20});
+ * page.items.forEach(record => {
+ *   console.log(`${record.userId} consumed ${record.units}
+ *   units at ${record.consumedAt}`);
+ * });
+ * const next = await getGroupConsumption("group123", {
+ *   limit: 20,
+ *   cursor: page.nextCursor,
+ * });
+ */
+export async function getGroupConsumption(
+  groupId: string,
+  query: HistoryQuery = {}
+): Promise<HistoryPage<ConsumptionRecord>> {
+  const groupRef = await validateGroupExists(groupId);
+
+  const {docs, nextCursor} = await queryHistoryPage(
+    groupRef.collection("consumption"),
+    "consumedAt",
+    query
+  );
+
+  const consumption: ConsumptionRecord[] = [];
+
+  docs.forEach((doc) => {
+    const consumptionData = doc.data();
+    const record = {
+      consumptionId: doc.id,
+      userId: consumptionData?.userId,
+      units: consumptionData?.units || 0,
+      consumedAt: consumptionData?.consumedAt,
+      bucketId: consumptionData?.bucketId || null,
+      consumptionBatchId: consumptionData?.consumptionBatchId,
+      charge: consumptionData?.charge || 0,
+      reversed: consumptionData?.reversed || false,
+      reversedAt: consumptionData?.reversedAt || null,
+      reversedBy: consumptionData?.reversedBy || null,
+      reversalReason: consumptionData?.reversalReason || null,
+    };
+    consumption.push(record);
+  });
+
+  return {items: consumption, nextCursor};
+}
+
+/**
+ * Direction in which each transaction type moves the kitty balance
+ */
+const KITTY_TRANSACTION_EFFECT: Record<string, number> = {
+  "contribution": 1,
+  "expense": -1,
+  "withdrawal": -1,
+  // Purchases and tabs add member debt but move no money into the kitty
+  "bucket-purchase": 0,
+  "tab-consumption": 0,
+  "tab-reversal": 0,
+  "member-refund": -1,
+  "settlement-payment": 1,
+  "settlement-payout": -1,
+  // Member-to-member settlement payments never touch the kitty
+  "settlement-transfer": 0,
+};
+
+/**
+ * Rounds a money amount to whole cents
+ *
+ * @param {number} amount - The amount to round
+ * @return {number} The amount rounded to 2 decimal places
+ */
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
 
-  if (!currentActiveBucketId) {
-    throw new Error("User has no active bucket");
-  }
+/**
+ * Gets the signed change a transaction record makes to the kitty balance
+ *
+ * @param {admin.firestore.DocumentData} transactionData - The transaction
+ * document data
+ * @return {number} The signed kitty balance change
+ */
+function getKittyDelta(transactionData: admin.firestore.DocumentData): number {
+  const type = transactionData?.type || "contribution";
+  const effect = KITTY_TRANSACTION_EFFECT[type] ?? 0;
+  return effect * (transactionData?.amount || 0);
+}
 
-  // Get the active bucket
-  const activeBucketRef = groupRef
-    .collection("buckets")
-    .doc(currentActiveBucketId);
-  const activeBucketDoc = await activeBucketRef.get();
+/**
+ * Creates a transaction to add money to the group's kitty balance
+ *
+ * This function allows users to contribute money to the group's kitty.
+ * The kitty balance is read and updated inside a Firestore transaction,
+ * so concurrent contributions never overwrite each other. Each
+ * transaction record carries the kitty balance before and after it was
+ * applied, forming a ledger that reconcileKittyBalance can verify.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} userId - The ID of the user making the contribution
+ * @param {number} amount - Amount to add to kitty balance (must be positive)
+ * @param {string} comment - Optional description of the transaction
+ * @return {Promise<string>} The ID of the created transaction
+ *
+ * @example
+ * const transactionId = await createKittyTransaction(
+ *   "group123", "user456", 50, "Weekly contribution"
+ * );
+ * console.log("Created transaction:", transactionId);
+ *
+ * @throws {Error} Various validation errors from validators
+ */
+export async function createKittyTransaction(
+  groupId: string,
+  userId: string,
+  amount: number,
+  comment?: string
+): Promise<string> {
+  // Validate that user is a member of the group
+  await validateUserGroupMembership(userId, groupId);
 
-  if (!activeBucketDoc.exists) {
-    throw new Error("Active bucket not found");
+  if (amount <= 0) {
+    throw new Error("Transaction amount must be positive");
   }
 
-  const activeBucketData = activeBucketDoc.data();
-  const currentRemainingUnits = activeBucketData?.remainingUnits || 0;
+  const groupRef = await validateGroupExists(groupId);
+  const transactionRef = groupRef.collection("transactions").doc();
 
-  if (currentRemainingUnits < units) {
-    throw new Error(
-      `Insufficient units in active bucket.
-      Available: ${currentRemainingUnits}, requested: ${units}`
-    );
-  }
+  await admin.firestore().runTransaction(async (transaction) => {
+    const groupDoc = await transaction.get(groupRef);
+    const balanceBefore = groupDoc.data()?.kittyBalance || 0;
+    const balanceAfter = roundMoney(balanceBefore + amount);
 
-  // Calculate new remaining units
-  const newRemainingUnits = currentRemainingUnits - units;
+    // Record the ledger entry and update the kitty balance atomically
+    transaction.set(transactionRef, {
+      userId,
+      amount,
+      type: "contribution",
+      comment: comment || "",
+      balanceBefore,
+      balanceAfter,
+      createdAt: new Date(),
+    });
+    transaction.update(groupRef, {
+      kittyBalance: balanceAfter,
+      updatedAt: new Date(),
+    });
+    writeAuditEntry(transaction, groupRef, {
+      action: "kitty.contribution-recorded",
+      target: {type: "transaction", id: transactionRef.id},
+      before: {kittyBalance: balanceBefore},
+      after: {kittyBalance: balanceAfter, userId, amount},
+    });
+  });
 
-  // Create consumption record
-  const consumptionRef = groupRef.collection("consumption").doc();
-  const consumptionData = {
-    userId,
-    units,
-    consumedAt: new Date(),
-    bucketId: currentActiveBucketId,
-  };
+  return transactionRef.id;
+}
 
-  // Update bucket and create consumption record
-  const updatePromises: Promise<any>[] = [
-    consumptionRef.set(consumptionData),
-  ];
+/**
+ * Records money spent or withdrawn from the group's kitty
+ *
+ * This function lets admins log spending from the shared pot, such as
+ * restocking drinks, along with a category and receipt note. The kitty
+ * balance is checked and debited inside a Firestore transaction, so the
+ * kitty can never go negative even under concurrent spending.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} adminUserId - The ID of the admin recording the spend
+ * @param {number} amount - Amount taken from the kitty (must be positive)
+ * @param {string} category - Spending category (e.g. "drinks")
+ * @param {string} receiptNote - Optional receipt or description
+ * @param {string} type - "expense" (default) or "withdrawal"
+ * @return {Promise<string>} The ID of the created transaction
+ *
+ * @example
+ * const transactionId = await recordKittyExpense(
+ *   "group123", "admin456", 45.5, "drinks", "3 crates of beer"
+ * );
+ *
+ * @throws {Error} "Insufficient funds in kitty" if the kitty cannot
+ * cover the amount
+ */
+export async function recordKittyExpense(
+  groupId: string,
+  adminUserId: string,
+  amount: number,
+  category: string,
+  receiptNote?: string,
+  type: "expense" | "withdrawal" = "expense"
+): Promise<string> {
+  if (amount <= 0) {
+    throw new Error("Transaction amount must be positive");
+  }
 
-  // If bucket is now empty, mark it as completed and find next bucket
-  if (newRemainingUnits === 0) {
-    // Mark current bucket as completed
-    updatePromises.push(
-      activeBucketRef.update({
-        remainingUnits: 0,
-        status: "completed",
-        updatedAt: new Date(),
-      })
-    );
+  const groupRef = await validateGroupExists(groupId);
+  const transactionRef = groupRef.collection("transactions").doc();
 
-    // Find next available bucket
-    const bucketsSnapshot = await groupRef
-      .collection("buckets")
-      .where("userId", "==", userId)
-      .where("status", "==", "active")
-      .orderBy("purchasedAt", "asc")
-      .get();
-
-    let nextActiveBucketId = null;
-    for (const bucketDoc of bucketsSnapshot.docs) {
-      const bucketData = bucketDoc.data();
-      if (
-        bucketDoc.id !== currentActiveBucketId &&
-        bucketData.remainingUnits > 0
-      ) {
-        nextActiveBucketId = bucketDoc.id;
-        break;
-      }
-    }
+  await admin.firestore().runTransaction(async (transaction) => {
+    const groupDoc = await transaction.get(groupRef);
+    const balanceBefore = groupDoc.data()?.kittyBalance || 0;
 
-    // Update user's active bucket
-    if (nextActiveBucketId) {
-      updatePromises.push(
-        userGroupRef.update({
-          activeBucketId: nextActiveBucketId,
-          updatedAt: new Date(),
-        }),
-        groupMemberRef.update({
-          activeBucketId: nextActiveBucketId,
-          updatedAt: new Date(),
-        })
-      );
-    } else {
-      // No more buckets available
-      updatePromises.push(
-        userGroupRef.update({
-          activeBucketId: null,
-          updatedAt: new Date(),
-        }),
-        groupMemberRef.update({
-          activeBucketId: null,
-          updatedAt: new Date(),
-        })
+    if (amount > balanceBefore) {
+      throw new Error(
+        `Insufficient funds in kitty. Available: ${balanceBefore}, ` +
+        `requested: ${amount}`
       );
     }
-  } else {
-    // Just update the remaining units
-    updatePromises.push(
-      activeBucketRef.update({
-        remainingUnits: newRemainingUnits,
-        updatedAt: new Date(),
-      })
-    );
-  }
 
-  // Execute all operations atomically
-  await Promise.all(updatePromises);
+    const balanceAfter = roundMoney(balanceBefore - amount);
+
+    transaction.set(transactionRef, {
+      userId: adminUserId,
+      amount,
+      type,
+      category,
+      receiptNote: receiptNote || "",
+      comment: receiptNote || "",
+      balanceBefore,
+      balanceAfter,
+      createdAt: new Date(),
+    });
+    transaction.update(groupRef, {
+      kittyBalance: balanceAfter,
+      updatedAt: new Date(),
+    });
+    writeAuditEntry(transaction, groupRef, {
+      action: `kitty.${type}-recorded`,
+      target: {type: "transaction", id: transactionRef.id},
+      before: {kittyBalance: balanceBefore},
+      after: {kittyBalance: balanceAfter, amount, category},
+      actorId: adminUserId,
+    });
+  });
+
+  return transactionRef.id;
 }
 
 /**
- * Gets detailed information about a group including members
- * and bucket inventory
+ * A ledger entry as listed by getGroupTransactions
+ */
+export interface TransactionRecord {
+  transactionId: string;
+  userId: string;
+  amount: number;
+  type: string;
+  comment: string;
+  category: string | null;
+  receiptNote: string | null;
+  balanceBefore?: number; // unset on entries older than the ledger
+  balanceAfter?: number;
+  createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Gets transaction history for a group
  *
- * @param {string} groupId - The ID of the group to get details for
- * @return {Promise<Object>} Group details including kitty balance and members
+ * This function retrieves a group's transactions, newest first, allowing
+ * admins to see who has contributed to the kitty and when.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {HistoryQuery} query - Optional userId, type, from/to, limit and
+ * cursor
+ * @return {Promise<HistoryPage>} A page of transaction records
  *
  * @example
- * const groupDetails = await getGroupDetails("group123");
- * console.log("Group kitty balance:", groupDetails.kittyBalance);
- * console.log("Total members:", groupDetails.memberCount);
+ * const page = await getGroupTransactions("group123", {type: "expense"});
+ * console.log("Expenses on this page:", page.items.length);
  */
-export async function getGroupDetails(groupId: string): Promise<any> {
+export async function getGroupTransactions(
+  groupId: string,
+  query: HistoryQuery = {}
+): Promise<HistoryPage<TransactionRecord>> {
   const groupRef = await validateGroupExists(groupId);
-  const groupDoc = await groupRef.get();
-  const groupData = groupDoc.data();
-  const kittyBalance = groupData?.kittyBalance || 0;
 
-  // Get all members
-  const membersSnapshot = await groupRef.collection("members").get();
-  const members: any[] = [];
-
-  membersSnapshot.forEach((doc) => {
-    const memberData = doc.data();
-    const member = {
-      userId: doc.id,
-      activeBucketId: memberData?.activeBucketId || null,
-      balance: memberData?.balance || 0,
-      joinedAt: memberData?.joinedAt,
-      isAdmin: memberData?.isAdmin || false,
+  const {docs, nextCursor} = await queryHistoryPage(
+    groupRef.collection("transactions"),
+    "createdAt",
+    query
+  );
+
+  const transactions: TransactionRecord[] = [];
+
+  docs.forEach((doc) => {
+    const transactionData = doc.data();
+    const transaction = {
+      transactionId: doc.id,
+      userId: transactionData?.userId,
+      amount: transactionData?.amount || 0,
+      type: transactionData?.type || "contribution",
+      comment: transactionData?.comment || "",
+      category: transactionData?.category || null,
+      receiptNote: transactionData?.receiptNote || null,
+      balanceBefore: transactionData?.balanceBefore,
+      balanceAfter: transactionData?.balanceAfter,
+      createdAt: transactionData?.createdAt,
     };
-    members.push(member);
+    transactions.push(transaction);
   });
 
-  // Get bucket inventory
-  const bucketsSnapshot = await groupRef.collection("buckets").get();
-  const buckets: any[] = [];
+  return {items: transactions, nextCursor};
+}
 
-  bucketsSnapshot.forEach((doc) => {
-    const bucketData = doc.data();
-    const bucket = {
-      bucketId: doc.id,
-      userId: bucketData?.userId,
-      unitsInBucket: bucketData?.unitsInBucket || 0,
-      remainingUnits: bucketData?.remainingUnits || 0,
-      status: bucketData?.status || "active",
-      purchasedAt: bucketData?.purchasedAt,
-      purchaseBatchId: bucketData?.purchaseBatchId,
-    };
-    buckets.push(bucket);
+/**
+ * Result of checking a group's kitty balance against its ledger
+ */
+export interface KittyReconciliation {
+  groupId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  drift: number; // stored minus ledger balance
+  transactionCount: number;
+  inconsistentTransactionIds: string[];
+  checkedAt: Date;
+}
+
+/**
+ * Recomputes a group's kitty balance from its transaction ledger
+ *
+ * This function replays every transaction in creation order and compares
+ * the result with the stored kittyBalance. It also flags ledger entries
+ * whose recorded balanceBefore does not follow on from the previous
+ * entry, which points at writes that bypassed the ledger. Nothing is
+ * modified; the report is for admins to investigate.
+ *
+ * @param {string} groupId - The ID of the group
+ * @return {Promise<Object>} Reconciliation report with stored and
+ * ledger balances, the drift between them and any inconsistent entries
+ *
+ * @example
+ * const report = await reconcileKittyBalance("group123");
+ * if (report.drift !== 0) {
+ *   console.warn("Kitty is off by", report.drift);
+ * }
+ */
+export async function reconcileKittyBalance(
+  groupId: string
+): Promise<KittyReconciliation> {
+  const groupRef = await validateGroupExists(groupId);
+
+  const [groupDoc, transactionsSnapshot] = await Promise.all([
+    groupRef.get(),
+    groupRef.collection("transactions").orderBy("createdAt", "asc").get(),
+  ]);
+
+  const storedBalance = groupDoc.data()?.kittyBalance || 0;
+  let ledgerBalance = 0;
+  const inconsistentTransactionIds: string[] = [];
+
+  transactionsSnapshot.forEach((doc) => {
+    const transactionData = doc.data();
+
+    // Entries written before the ledger existed have no balanceBefore
+    if (
+      transactionData.balanceBefore !== undefined &&
+      roundMoney(transactionData.balanceBefore) !== roundMoney(ledgerBalance)
+    ) {
+      inconsistentTransactionIds.push(doc.id);
+    }
+
+    ledgerBalance = roundMoney(ledgerBalance + getKittyDelta(transactionData));
   });
 
   return {
     groupId,
-    name: groupData?.name,
-    kittyBalance,
-    memberCount: members.length,
-    members,
-    buckets,
-    createdAt: groupData?.createdAt,
-    updatedAt: groupData?.updatedAt,
+    storedBalance,
+    ledgerBalance,
+    drift: roundMoney(storedBalance - ledgerBalance),
+    transactionCount: transactionsSnapshot.size,
+    inconsistentTransactionIds,
+    checkedAt: new Date(),
   };
 }
 
 /**
- * Gets all members of a group with their bucket information
+ * Gets the payments that would settle all balances in a group
  *
- * @param {string} groupId - The ID of the group to get members for
- * @return {Promise<Array>} Array of group members with their details
+ * The plan is computed from the current member balances and kitty funds;
+ * see planSettlement for how payments are chosen. Nothing is modified.
+ *
+ * @param {string} groupId - The ID of the group
+ * @return {Promise<Object>} The kitty balance, the planned payments and any
+ * credit the kitty cannot cover
  *
  * @example
- * const members = await getGroupMembers("group123");
- * members.forEach(member => {
- *   console.log(`${member.userId}: active bucket ${member.activeBucketId}`);
+ * const {payments} = await getSettlementPlan("group123");
+ * payments.forEach(({fromUserId, toUserId, amount}) => {
+ *   console.log(`${fromUserId || "kitty"} pays ${toUserId || "kitty"}`,
+ *     amount);
  * });
  */
-export async function getGroupMembers(groupId: string): Promise<any[]> {
+export async function getSettlementPlan(
+  groupId: string
+): Promise<SettlementPlan & {kittyBalance: number}> {
   const groupRef = await validateGroupExists(groupId);
 
-  // Get all members
-  const membersSnapshot = await groupRef.collection("members").get();
-  const members: any[] = [];
-
-  membersSnapshot.forEach((doc) => {
-    const memberData = doc.data();
-    const member = {
-      userId: doc.id,
-      activeBucketId: memberData?.activeBucketId || null,
-      balance: memberData?.balance || 0,
-      joinedAt: memberData?.joinedAt,
-      isAdmin: memberData?.isAdmin || false,
-    };
-    members.push(member);
-  });
+  const [groupDoc, membersSnapshot] = await Promise.all([
+    groupRef.get(),
+    groupRef.collection("members").get(),
+  ]);
+  const kittyBalance = groupDoc.data()?.kittyBalance || 0;
 
-  return members;
+  return {
+    kittyBalance,
+    ...planSettlement(
+      membersSnapshot.docs.map((doc) => ({
+        userId: doc.id,
+        balance: doc.data().balance || 0,
+      })),
+      kittyBalance
+    ),
+  };
 }
 
 /**
- * Gets detailed information about a user including their groups
- * and bucket status
+ * Records a settle-up: applies every payment of the group's settlement plan
  *
- * @param {string} userId - The ID of the user to get details for
- * @return {Promise<Object>} User details including groups
- * and bucket information
+ * The plan is recomputed inside a Firestore transaction, so it always
+ * matches the balances it is applied to. Each payment is written to the
+ * transactions ledger ("settlement-payment" into the kitty,
+ * "settlement-payout" out of it, or "settlement-transfer" between
+ * members) and to the balance history of the members involved. Member
+ * balances and the kitty balance are updated in the same transaction, and
+ * everything shares a settlementId. Archived groups can still be settled.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} settledBy - The ID of the admin recording the settlement
+ * @return {Promise<Object>} The settlement ID, the payments applied and any
+ * credit left unsettled
  *
  * @example
- * const userDetails = await getUserDetails("user123");
- * console.log("User groups:", userDetails.groups);
- * console.log("Total groups:", userDetails.groupCount);
+ * const {settlementId, payments} = await recordSettlement(
+ *   "group123", "admin456"
+ * );
+ *
+ * @throws {Error} "Nothing to settle" if every balance is already zero,
+ * or if the only balances left are credit the kitty cannot pay out
  */
-export async function getUserDetails(userId: string): Promise<any> {
-  const {ref: userRef, data: userData} = await validateUserExists(userId);
+export async function recordSettlement(
+  groupId: string,
+  settledBy: string
+): Promise<SettlementPlan & {settlementId: string}> {
+  const groupRef = await validateGroupExists(groupId);
+  const db = admin.firestore();
+  const settlementId = `settlement_${Date.now()}_${settledBy}`;
 
-  // Get all user's groups
-  const groupsSnapshot = await userRef.collection("groups").get();
-  const groups: any[] = [];
-
-  groupsSnapshot.forEach((doc) => {
-    const groupData = doc.data();
-    const group = {
-      groupId: doc.id,
-      activeBucketId: groupData?.activeBucketId || null,
-      balance: groupData?.balance || 0,
-      joinedAt: groupData?.joinedAt,
-      isAdmin: groupData?.isAdmin || false,
+  return db.runTransaction(async (transaction) => {
+    const [groupDoc, membersSnapshot] = await Promise.all([
+      transaction.get(groupRef),
+      transaction.get(groupRef.collection("members")),
+    ]);
+
+    const balances = new Map<string, number>(
+      membersSnapshot.docs.map((doc) => [doc.id, doc.data().balance || 0])
+    );
+    const kittyBefore = groupDoc.data()?.kittyBalance || 0;
+    const plan = planSettlement(
+      Array.from(balances.entries())
+        .map(([userId, balance]) => ({userId, balance})),
+      kittyBefore
+    );
+
+    if (plan.payments.length === 0) {
+      throw new Error(plan.unsettled.length > 0 ?
+        "Nothing to settle: the kitty cannot pay out the remaining credit" :
+        "Nothing to settle: all balances are already zero");
+    }
+
+    let kittyBalance = kittyBefore;
+    const changedUserIds = new Set<string>();
+
+    // Moves a member's balance and records it in their balance history
+    const adjustMember = (
+      userId: string,
+      amount: number,
+      reason: string,
+      transactionId: string
+    ) => {
+      const balanceBefore = balances.get(userId) || 0;
+      const balanceAfter = roundMoney(balanceBefore + amount);
+      balances.set(userId, balanceAfter);
+      changedUserIds.add(userId);
+      writeBalanceHistoryEntry(transaction, groupRef, {
+        userId,
+        type: "settlement",
+        amount,
+        balanceBefore,
+        balanceAfter,
+        adjustedBy: settledBy,
+        reason,
+        transactionId,
+        settlementId,
+      });
+      return {balanceBefore, balanceAfter};
     };
-    groups.push(group);
-  });
 
-  return {
-    id: userId, // Add 'id' field for backward compatibility with tests
-    userId,
-    displayName: userData?.displayName,
-    email: userData?.email,
-    groupCount: groups.length,
-    groups,
-    createdAt: userData?.createdAt,
-    updatedAt: userData?.updatedAt,
-  };
+    plan.payments.forEach(({fromUserId, toUserId, amount}) => {
+      const ledgerRef = groupRef.collection("transactions").doc();
+      const kittyAfter = roundMoney(
+        kittyBalance +
+        (toUserId === null ? amount : 0) -
+        (fromUserId === null ? amount : 0)
+      );
+
+      let type = "settlement-transfer";
+      let comment = `Settle-up payment to ${toUserId}`;
+      if (toUserId === null) {
+        type = "settlement-payment";
+        comment = "Settle-up payment to the kitty";
+      } else if (fromUserId === null) {
+        type = "settlement-payout";
+        comment = "Settle-up payout from the kitty";
+      }
+
+      // The payer's debt goes down and the recipient's credit goes down
+      const memberBalances = fromUserId !== null ?
+        adjustMember(fromUserId, amount, comment, ledgerRef.id) :
+        adjustMember(toUserId as string, -amount, comment, ledgerRef.id);
+      if (fromUserId !== null && toUserId !== null) {
+        adjustMember(
+          toUserId,
+          -amount,
+          `Settle-up payment from ${fromUserId}`,
+          ledgerRef.id
+        );
+      }
+
+      transaction.set(ledgerRef, {
+        userId: fromUserId ?? toUserId,
+        toUserId: fromUserId === null ? null : toUserId,
+        amount,
+        type,
+        comment,
+        settlementId,
+        memberBalanceBefore: memberBalances.balanceBefore,
+        memberBalanceAfter: memberBalances.balanceAfter,
+        balanceBefore: kittyBalance,
+        balanceAfter: kittyAfter,
+        createdAt: new Date(),
+      });
+      kittyBalance = kittyAfter;
+    });
+
+    changedUserIds.forEach((userId) => {
+      const balanceUpdate = {
+        balance: balances.get(userId),
+        updatedBy: settledBy,
+        updatedAt: new Date(),
+      };
+      transaction.update(
+        groupRef.collection("members").doc(userId),
+        balanceUpdate
+      );
+      transaction.update(
+        db.collection("users").doc(userId).collection("groups").doc(groupId),
+        balanceUpdate
+      );
+    });
+    if (kittyBalance !== kittyBefore) {
+      transaction.update(groupRef, {
+        kittyBalance,
+        updatedAt: new Date(),
+      });
+    }
+
+    writeAuditEntry(transaction, groupRef, {
+      action: "group.settled",
+      target: {type: "settlement", id: settlementId},
+      before: {kittyBalance: kittyBefore},
+      after: {
+        kittyBalance,
+        payments: plan.payments.length,
+        unsettled: plan.unsettled,
+      },
+      actorId: settledBy,
+    });
+
+    return {settlementId, ...plan};
+  });
 }
 
 /**
- * Gets all buckets for a user in a specific group
+ * Gets the audit log of a group
+ *
+ * Every state-changing operation on a group writes an entry with who
+ * made the change, what it affected, the relevant values before and
+ * after, and the ID of the request that made it. Entries are never
+ * updated or deleted, except when the whole group is deleted.
  *
  * @param {string} groupId - The ID of the group
- * @param {string} userId - The ID of the user
- * @return {Promise<Array>} Array of buckets for the user in the group
+ * @param {HistoryQuery} query - Optional actorId, action, targetId,
+ * from/to, limit and cursor
+ * @return {Promise<HistoryPage>} A page of audit entries, newest first
  *
  * @example
- * const buckets = await getUserBuckets("group123", "user456");
- * buckets.forEach(bucket => {
- *   console.log(`Bucket ${bucket.bucketId}:
- *   ${bucket.remainingUnits}/${bucket.unitsInBucket} units remaining`);
+ * const page = await getAuditLog("group123", {action: "member.removed"});
+ * page.items.forEach((entry) => {
+ *   console.log(`${entry.actorId} removed ${entry.targetId}`);
  * });
  */
-export async function getUserBuckets(
+export async function getAuditLog(
   groupId: string,
-  userId: string
-): Promise<any[]> {
-  // Validate that user is a member of the group
-  await validateUserGroupMembership(userId, groupId);
-
-  const groupRef = await validateGroupExists(groupId);
-
-  // Get all buckets for this user in this group
-  const bucketsSnapshot = await groupRef
-    .collection("buckets")
-    .where("userId", "==", userId)
-    .orderBy("purchasedAt", "asc")
-    .get();
+  query: HistoryQuery = {}
+): Promise<HistoryPage> {
+  const groupRef = await validateGroupExists(groupId);
 
-  const buckets: any[] = [];
+  const {docs, nextCursor} = await queryHistoryPage(
+    groupRef.collection("audit_log"),
+    "createdAt",
+    query
+  );
 
-  bucketsSnapshot.forEach((doc) => {
-    const bucketData = doc.data();
-    const bucket = {
-      bucketId: doc.id,
-      unitsInBucket: bucketData?.unitsInBucket || 0,
-      remainingUnits: bucketData?.remainingUnits || 0,
-      status: bucketData?.status || "active",
-      purchasedAt: bucketData?.purchasedAt,
-      purchaseBatchId: bucketData?.purchaseBatchId,
+  const entries = docs.map((doc) => {
+    const entryData = doc.data();
+    return {
+      entryId: doc.id,
+      action: entryData.action,
+      target: {type: entryData.targetType, id: entryData.targetId},
+      before: entryData.before ?? null,
+      after: entryData.after ?? null,
+      actorId: entryData.actorId ?? null,
+      requestId: entryData.requestId ?? null,
+      createdAt: entryData.createdAt,
     };
-    buckets.push(bucket);
   });
 
-  return buckets;
+  return {items: entries, nextCursor};
 }
 
 /**
- * Gets consumption history for a group
+ * Default reporting window for group stats when no range is given
+ */
+const DEFAULT_STATS_RANGE_DAYS = 30;
+
+/**
+ * Builds consumption and kitty statistics for a group over a date range
+ *
+ * Consumption, bucket purchases and transactions in the range are read
+ * with single-field range queries and aggregated in memory, so the
+ * frontend can render dashboards without downloading raw history.
+ * Reversed consumption is left out. Bucket burn-down covers buckets
+ * purchased in the range that have since been emptied.
  *
  * @param {string} groupId - The ID of the group
- * @return {Promise<Array>} Array of consumption records
+ * @param {Object} options - Optional from/to dates (default: the last
+ * 30 days), time series granularity (default: "day") and the caller's
+ * UTC offset in minutes (default: 0)
+ * @return {Promise<GroupStats>} The group's statistics for the range
  *
  * @example
- * const consumption = await getGroupConsumption("group123");
- * consumption.forEach(record => {
- *   console.log(`${record.userId} consumed ${record.units}
- *   units at ${record.consumedAt}`);
+ * const stats = await getGroupStats("group123", {
+ *   granularity: "week",
+ *   utcOffset: 60,
  * });
+ * console.log("Top drinker:", stats.perMember[0]?.userId);
  */
-export async function getGroupConsumption(groupId: string): Promise<any[]> {
+export async function getGroupStats(
+  groupId: string,
+  options: {
+    from?: Date;
+    to?: Date;
+    granularity?: StatsGranularity;
+    utcOffset?: number;
+  } = {}
+): Promise<GroupStats> {
   const groupRef = await validateGroupExists(groupId);
 
-  // Get all consumption records
-  const consumptionSnapshot = await groupRef
-    .collection("consumption")
-    .orderBy("consumedAt", "desc")
-    .get();
+  const to = options.to || new Date();
+  const from = options.from ||
+    new Date(to.getTime() - DEFAULT_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  const [consumptionSnapshot, bucketsSnapshot, transactionsSnapshot] =
+    await Promise.all([
+      groupRef.collection("consumption")
+        .where("consumedAt", ">=", from)
+        .where("consumedAt", "<=", to)
+        .get(),
+      groupRef.collection("buckets")
+        .where("purchasedAt", ">=", from)
+        .where("purchasedAt", "<=", to)
+        .get(),
+      groupRef.collection("transactions")
+        .where("createdAt", ">=", from)
+        .where("createdAt", "<=", to)
+        .get(),
+    ]);
+
+  const consumption = consumptionSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((data) => !data.reversed)
+    .map((data) => ({
+      userId: data.userId,
+      units: data.units || 0,
+      consumedAt: toDate(data.consumedAt),
+    }));
+
+  const buckets = bucketsSnapshot.docs.map((doc) => {
+    const data = doc.data();
+    // Buckets completed before completedAt was recorded fall back to
+    // their last update, which is when they were drained. Imported
+    // buckets store null because their completion time is unknown.
+    let completedAt: Date | null = null;
+    if (data.status === "completed") {
+      completedAt = data.completedAt === undefined ?
+        toDate(data.updatedAt) :
+        toOptionalDate(data.completedAt);
+    }
+    return {purchasedAt: toDate(data.purchasedAt), completedAt};
+  });
 
-  const consumption: any[] = [];
+  const kittyMovements = transactionsSnapshot.docs.map((doc) => ({
+    kittyDelta: getKittyDelta(doc.data()),
+    createdAt: toDate(doc.data().createdAt),
+  }));
+
+  return buildGroupStats(
+    {consumption, buckets, kittyMovements},
+    {
+      from,
+      to,
+      granularity: options.granularity || "day",
+      utcOffset: options.utcOffset || 0,
+    }
+  );
+}
 
-  consumptionSnapshot.forEach((doc) => {
-    const consumptionData = doc.data();
-    const record = {
-      consumptionId: doc.id,
-      userId: consumptionData?.userId,
-      units: consumptionData?.units || 0,
-      consumedAt: consumptionData?.consumedAt,
-      bucketId: consumptionData?.bucketId,
-    };
-    consumption.push(record);
-  });
+/**
+ * Sections of a group export, in the order they are written
+ */
+export type ExportSection =
+  "members" |
+  "buckets" |
+  "consumption" |
+  "transactions" |
+  "balanceAdjustments";
 
-  return consumption;
+/**
+ * A group export: summary details and lazily read record sections
+ */
+export interface GroupExport {
+  group: {
+    groupId: string;
+    name: string;
+    currency: string;
+    unitLabel: string;
+    from: Date | null;
+    to: Date | null;
+    exportedAt: Date;
+  };
+  sections: Array<{
+    section: ExportSection;
+    records: AsyncIterable<Record<string, unknown>>;
+  }>;
 }
 
+const EXPORT_PAGE_SIZE = 500;
+
 /**
- * Creates a transaction to add money to the group's kitty balance
+ * Reads every document matching a query, one page at a time
  *
- * This function allows users to contribute money to the group's kitty.
- * It updates the group's kitty balance and creates a transaction record
- * for audit purposes.
+ * @param {admin.firestore.Query} query - The query to read
+ * @return {AsyncGenerator} The matching documents, in query order
+ */
+async function* readInPages(
+  query: admin.firestore.Query
+): AsyncGenerator<admin.firestore.QueryDocumentSnapshot> {
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const page = lastDoc ?
+      query.startAfter(lastDoc).limit(EXPORT_PAGE_SIZE) :
+      query.limit(EXPORT_PAGE_SIZE);
+    const snapshot = await page.get();
+
+    for (const doc of snapshot.docs) {
+      yield doc;
+    }
+
+    if (snapshot.size < EXPORT_PAGE_SIZE) {
+      return;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Converts an optional stored timestamp to a Date
+ *
+ * @param {StoredDate | null} [value] - A Firestore Timestamp, date value
+ * or nothing
+ * @return {Date | null} The value as a Date, or null if unset
+ */
+function toOptionalDate(value?: StoredDate | null): Date | null {
+  return value ? toDate(value) : null;
+}
+
+/**
+ * Exports a group's members, buckets, consumption, transactions and
+ * balance adjustments for accounting
+ *
+ * Members are always exported in full; the other sections can be limited
+ * to a date range. Records are read in pages of EXPORT_PAGE_SIZE as the
+ * caller consumes them, so large groups can be streamed to the client
+ * without loading their history into memory. User IDs are resolved to
+ * display names, including for former members.
  *
  * @param {string} groupId - The ID of the group
- * @param {string} userId - The ID of the user making the contribution
- * @param {number} amount - Amount to add to kitty balance (must be positive)
- * @param {string} comment - Optional description of the transaction
- * @return {Promise<string>} The ID of the created transaction
+ * @param {Object} range - Optional from/to dates for the history sections
+ * @return {Promise<GroupExport>} The group summary and record sections
  *
  * @example
- * const transactionId = await createKittyTransaction(
- *   "group123", "user456", 50, "Weekly contribution"
- * );
- * console.log("Created transaction:", transactionId);
- *
- * @throws {Error} Various validation errors from validators
+ * const {group, sections} = await getGroupExport("group123", {});
+ * for (const {section, records} of sections) {
+ *   for await (const record of records) {
+ *     console.log(section, record);
+ *   }
+ * }
  */
-export async function createKittyTransaction(
+export async function getGroupExport(
   groupId: string,
-  userId: string,
-  amount: number,
-  comment?: string
-): Promise<string> {
-  // Validate that user is a member of the group
-  await validateUserGroupMembership(userId, groupId);
+  range: {from?: Date; to?: Date} = {}
+): Promise<GroupExport> {
+  const groupRef = await validateGroupExists(groupId);
+  const db = admin.firestore();
 
-  if (amount <= 0) {
-    throw new Error("Transaction amount must be positive");
+  const [groupDoc, membersSnapshot] = await Promise.all([
+    groupRef.get(),
+    groupRef.collection("members").get(),
+  ]);
+
+  // Resolve display names once per user; members are fetched up front
+  const displayNames = new Map<string, Promise<string | null>>();
+  const resolveDisplayName = (userId: string | null | undefined) => {
+    if (!userId) {
+      return Promise.resolve(null);
+    }
+    if (!displayNames.has(userId)) {
+      displayNames.set(
+        userId,
+        db.collection("users").doc(userId).get()
+          .then((doc) => doc.data()?.displayName || null)
+      );
+    }
+    return displayNames.get(userId) as Promise<string | null>;
+  };
+
+  if (!membersSnapshot.empty) {
+    const userDocs = await db.getAll(
+      ...membersSnapshot.docs.map((doc) => db.collection("users").doc(doc.id))
+    );
+    userDocs.forEach((doc) => {
+      displayNames.set(
+        doc.id,
+        Promise.resolve(doc.data()?.displayName || null)
+      );
+    });
   }
 
-  const groupRef = await validateGroupExists(groupId);
-  const groupDoc = await groupRef.get();
-  const groupData = groupDoc.data();
-  const currentKittyBalance = groupData?.kittyBalance || 0;
-  const newKittyBalance = currentKittyBalance + amount;
+  const historyQuery = (
+    collection: string,
+    timestampField: string
+  ): admin.firestore.Query => {
+    let query: admin.firestore.Query = groupRef.collection(collection);
+    if (range.from) {
+      query = query.where(timestampField, ">=", range.from);
+    }
+    if (range.to) {
+      query = query.where(timestampField, "<=", range.to);
+    }
+    return query.orderBy(timestampField, "asc");
+  };
 
-  // Create transaction document
-  const transactionRef = groupRef.collection("transactions").doc();
-  const transactionData = {
-    userId,
-    amount,
-    type: "contribution",
-    comment: comment || "",
-    createdAt: new Date(),
+  const members = async function* () {
+    for (const doc of membersSnapshot.docs) {
+      const data = doc.data();
+      yield {
+        userId: doc.id,
+        displayName: await resolveDisplayName(doc.id),
+        role: resolveMemberRole(data),
+        balance: data.balance || 0,
+        activeBucketId: data.activeBucketId || null,
+        joinedAt: toOptionalDate(data.joinedAt),
+      };
+    }
   };
 
-  // Update group kitty balance and create transaction record atomically
-  await Promise.all([
-    groupRef.update({
-      kittyBalance: newKittyBalance,
-      updatedAt: new Date(),
-    }),
-    transactionRef.set(transactionData),
-  ]);
+  const buckets = async function* () {
+    for await (const doc of readInPages(
+      historyQuery("buckets", "purchasedAt")
+    )) {
+      const data = doc.data();
+      yield {
+        bucketId: doc.id,
+        userId: data.userId,
+        displayName: await resolveDisplayName(data.userId),
+        unitsInBucket: data.unitsInBucket || 0,
+        remainingUnits: data.remainingUnits || 0,
+        status: data.status,
+        unitPrice: data.unitPrice || 0,
+        purchasedAt: toOptionalDate(data.purchasedAt),
+        completedAt: toOptionalDate(data.completedAt),
+      };
+    }
+  };
 
-  return transactionRef.id;
+  const consumption = async function* () {
+    for await (const doc of readInPages(
+      historyQuery("consumption", "consumedAt")
+    )) {
+      const data = doc.data();
+      yield {
+        consumptionId: doc.id,
+        userId: data.userId,
+        displayName: await resolveDisplayName(data.userId),
+        units: data.units || 0,
+        charge: data.charge || 0,
+        bucketId: data.bucketId || null,
+        consumedAt: toOptionalDate(data.consumedAt),
+        reversed: data.reversed || false,
+        reversedAt: toOptionalDate(data.reversedAt),
+        reversedBy: data.reversedBy || null,
+        reversalReason: data.reversalReason || null,
+      };
+    }
+  };
+
+  const transactions = async function* () {
+    for await (const doc of readInPages(
+      historyQuery("transactions", "createdAt")
+    )) {
+      const data = doc.data();
+      yield {
+        transactionId: doc.id,
+        userId: data.userId,
+        displayName: await resolveDisplayName(data.userId),
+        type: data.type || "contribution",
+        amount: data.amount || 0,
+        category: data.category || null,
+        receiptNote: data.receiptNote || null,
+        comment: data.comment || "",
+        balanceBefore: data.balanceBefore ?? null,
+        balanceAfter: data.balanceAfter ?? null,
+        createdAt: toOptionalDate(data.createdAt),
+      };
+    }
+  };
+
+  const balanceAdjustments = async function* () {
+    for await (const doc of readInPages(
+      historyQuery("balance_adjustments", "createdAt")
+    )) {
+      const data = doc.data();
+      yield {
+        adjustmentId: doc.id,
+        userId: data.userId,
+        displayName: await resolveDisplayName(data.userId),
+        type: data.type || "correction",
+        amount: data.amount || 0,
+        balanceBefore: data.balanceBefore ?? null,
+        balanceAfter: data.balanceAfter ?? null,
+        reason: data.reason || "",
+        adjustedBy: data.adjustedBy || null,
+        adjustedByName: await resolveDisplayName(data.adjustedBy),
+        createdAt: toOptionalDate(data.createdAt),
+      };
+    }
+  };
+
+  const settings = resolveGroupSettings(groupDoc.data());
+
+  return {
+    group: {
+      groupId,
+      name: settings.name,
+      currency: settings.currency,
+      unitLabel: settings.unitLabel,
+      from: range.from || null,
+      to: range.to || null,
+      exportedAt: new Date(),
+    },
+    sections: [
+      {section: "members", records: members()},
+      {section: "buckets", records: buckets()},
+      {section: "consumption", records: consumption()},
+      {section: "transactions", records: transactions()},
+      {section: "balanceAdjustments", records: balanceAdjustments()},
+    ],
+  };
 }
 
 /**
- * Gets transaction history for a group
+ * Kinds of data that can be imported into a group from CSV
+ */
+export type ImportType = "members" | "buckets" | "consumption";
+
+/**
+ * A validated import row; which columns are set depends on the import type
+ */
+interface ImportRowValues {
+  email: string;
+  name?: string; // members
+  phone?: string;
+  balance?: number;
+  units?: number; // buckets and consumption
+  remaining?: number;
+  purchasedAt?: Date;
+  unitPrice?: number;
+  consumedAt?: Date;
+}
+
+/**
+ * Outcome of a group import, or of a dry run
+ */
+export interface ImportReport {
+  type: ImportType;
+  dryRun: boolean;
+  committed: boolean;
+  importBatchId: string | null;
+  totalRows: number;
+  validRows: number;
+  errors: CsvImportError[];
+}
+
+/**
+ * Rows written per batch; each imported row writes at most four documents,
+ * keeping every batch under Firestore's 500 write limit
+ */
+const IMPORT_ROWS_PER_BATCH = 100;
+
+/**
+ * Maps the email addresses of a group's members to their user IDs
+ *
+ * Emails are compared in lower case, as import rows are lower-cased
+ * during validation but older user documents may not be.
+ *
+ * @param {string[]} memberIds - The user IDs of the group's members
+ * @return {Promise<Map<string, string>>} User IDs keyed by lower-cased
+ * email
+ */
+async function getMemberIdsByEmail(
+  memberIds: string[]
+): Promise<Map<string, string>> {
+  const db = admin.firestore();
+  const userIds = new Map<string, string>();
+  if (memberIds.length === 0) {
+    return userIds;
+  }
+
+  const userDocs = await db.getAll(
+    ...memberIds.map((userId) => db.collection("users").doc(userId))
+  );
+  userDocs.forEach((doc) => {
+    const email = doc.data()?.email;
+    if (typeof email === "string") {
+      userIds.set(email.trim().toLowerCase(), doc.id);
+    }
+  });
+
+  return userIds;
+}
+
+/**
+ * Looks up Firebase Auth accounts by email address
+ *
+ * User documents are keyed by the account's UID, so this is how imported
+ * members are tied to the people who will later sign in as them.
+ *
+ * @param {string[]} emails - Email addresses, already lower-cased
+ * @return {Promise<Map<string, string>>} Auth UIDs keyed by email
+ */
+async function findAuthUidsByEmail(
+  emails: string[]
+): Promise<Map<string, string>> {
+  const uids = new Map<string, string>();
+  const uniqueEmails = Array.from(new Set(emails));
+
+  // getUsers accepts up to 100 identifiers per call
+  for (let i = 0; i < uniqueEmails.length; i += 100) {
+    const {users} = await admin.auth().getUsers(
+      uniqueEmails.slice(i, i + 100).map((email) => ({email}))
+    );
+    users.forEach((user) => {
+      if (user.email) {
+        uids.set(user.email.toLowerCase(), user.uid);
+      }
+    });
+  }
+
+  return uids;
+}
+
+/**
+ * Imports members, buckets or past consumption into a group from CSV
+ *
+ * Every row is validated with the same rules as the matching API request,
+ * then checked against the group: members must not already belong to it,
+ * and buckets and consumption must name an existing member by email.
+ * Problems are reported per row using the row's line in the file.
+ *
+ * Imports run as a dry run unless dryRun is false. A real import only
+ * writes when every row is valid, and then commits in batches of
+ * IMPORT_ROWS_PER_BATCH rows. Batches are committed one after another, so
+ * a failure part-way keeps the earlier batches; every imported document
+ * carries the importBatchId so it can be traced.
  *
- * This function retrieves all transactions for a group, allowing admins
- * to see who has contributed to the kitty and when.
+ * - members (name, email, phone, balance): each member is keyed by the
+ *   Firebase Auth account for their email, which is created (without a
+ *   password) if there is none yet, so they can sign in as themselves;
+ *   the opening balance is recorded as a balance adjustment
+ * - buckets (email, units, remaining, purchasedAt, unitPrice): recorded
+ *   as already paid for; the oldest bucket with units left becomes the
+ *   member's active bucket if they have none
+ * - consumption (email, units, consumedAt): history only; buckets and
+ *   balances are not changed
  *
  * @param {string} groupId - The ID of the group
- * @return {Promise<any[]>} Array of transaction records
+ * @param {ImportType} type - The kind of rows in the CSV
+ * @param {string} csvText - The CSV text, starting with a header row
+ * @param {string} importedBy - The ID of the admin running the import
+ * @param {boolean} dryRun - Validate only, without writing anything
+ * @return {Promise<ImportReport>} The validation report and outcome
+ * @throws {Error} "Invalid CSV: ..." if the file itself is unusable
  *
  * @example
- * const transactions = await getGroupTransactions("group123");
- * console.log("Transaction count:", transactions.length);
+ * const report = await importGroupData(
+ *   "group123", "members", csv, "admin456", true
+ * );
+ * if (report.errors.length === 0) {
+ *   await importGroupData("group123", "members", csv, "admin456", false);
+ * }
  */
-export async function getGroupTransactions(groupId: string): Promise<any[]> {
+export async function importGroupData(
+  groupId: string,
+  type: ImportType,
+  csvText: string,
+  importedBy: string,
+  dryRun = true
+): Promise<ImportReport> {
   const groupRef = await validateGroupExists(groupId);
+  assertGroupActive((await groupRef.get()).data());
 
-  // Get all transactions
-  const transactionsSnapshot = await groupRef
-    .collection("transactions")
-    .orderBy("createdAt", "desc")
-    .get();
+  const schema = {
+    members: importMemberRowSchema,
+    buckets: importBucketRowSchema,
+    consumption: importConsumptionRowSchema,
+  }[type];
+  const {rows, errors} = parseCsvImport<ImportRowValues>(csvText, schema);
+  const totalRows = rows.length + errors.length;
 
-  const transactions: any[] = [];
+  const membersSnapshot = await groupRef.collection("members").get();
+  const members = new Map(
+    membersSnapshot.docs.map((doc) => [doc.id, doc.data()])
+  );
+  const [memberIdsByEmail, authUidsByEmail] = await Promise.all([
+    getMemberIdsByEmail(Array.from(members.keys())),
+    type === "members" ?
+      findAuthUidsByEmail(rows.map((row) => row.values.email)) :
+      new Map<string, string>(),
+  ]);
 
-  transactionsSnapshot.forEach((doc) => {
-    const transactionData = doc.data();
-    const transaction = {
-      transactionId: doc.id,
-      userId: transactionData?.userId,
-      amount: transactionData?.amount || 0,
-      type: transactionData?.type || "contribution",
-      comment: transactionData?.comment || "",
-      createdAt: transactionData?.createdAt,
-    };
-    transactions.push(transaction);
+  // Check each row against the group's current members
+  const seenEmails = new Set<string>();
+  const validRows = rows.filter(({line, values}) => {
+    let error: string | null = null;
+
+    if (type === "members") {
+      const uid = authUidsByEmail.get(values.email);
+      if (seenEmails.has(values.email)) {
+        error = `Email ${values.email} appears more than once in the file`;
+      } else if (
+        memberIdsByEmail.has(values.email) ||
+        (uid && members.has(uid))
+      ) {
+        error = `${values.email} is already a member of the group`;
+      }
+      seenEmails.add(values.email);
+    } else if (!memberIdsByEmail.has(values.email)) {
+      error = `No group member has the email ${values.email}`;
+    }
+
+    if (error) {
+      errors.push({line, errors: [error]});
+    }
+    return !error;
+  });
+  errors.sort((a, b) => a.line - b.line);
+
+  const report: ImportReport = {
+    type,
+    dryRun,
+    committed: false,
+    importBatchId: null,
+    totalRows,
+    validRows: validRows.length,
+    errors,
+  };
+  if (dryRun || errors.length > 0) {
+    return report;
+  }
+
+  const db = admin.firestore();
+  const importBatchId = `import_${Date.now()}_${importedBy}`;
+  const importedAt = new Date();
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+
+  if (type === "members") {
+    // Give members without an account one, so the user document can be
+    // keyed by the UID they will sign in with
+    for (const {values} of validRows) {
+      if (!authUidsByEmail.has(values.email)) {
+        const {uid} = await admin.auth().createUser({
+          email: values.email,
+          displayName: values.name,
+        });
+        authUidsByEmail.set(values.email, uid);
+      }
+    }
+    const userDocs = await db.getAll(...validRows.map(({values}) =>
+      db.collection("users").doc(authUidsByEmail.get(values.email) as string)
+    ));
+    const existingUserIds = new Set(
+      userDocs.filter((doc) => doc.exists).map((doc) => doc.id)
+    );
+
+    validRows.forEach(({values}) => {
+      const userRef = db.collection("users")
+        .doc(authUidsByEmail.get(values.email) as string);
+      const balance = values.balance || 0;
+      const membershipData = {
+        activeBucketId: null,
+        balance,
+        isAdmin: false,
+        role: "member",
+        joinedAt: importedAt,
+        importBatchId,
+      };
+
+      writes.push((batch) => {
+        if (!existingUserIds.has(userRef.id)) {
+          batch.set(userRef, {
+            displayName: values.name,
+            email: values.email,
+            ...(values.phone ? {phoneNumber: values.phone} : {}),
+            createdAt: importedAt,
+            importBatchId,
+          });
+        }
+        batch.set(userRef.collection("groups").doc(groupId), {
+          groupId,
+          ...membershipData,
+        });
+        batch.set(groupRef.collection("members").doc(userRef.id), {
+          userId: userRef.id,
+          ...membershipData,
+        });
+        if (balance !== 0) {
+          writeBalanceHistoryEntry(batch, groupRef, {
+            userId: userRef.id,
+            type: "opening-balance",
+            amount: balance,
+            balanceBefore: 0,
+            balanceAfter: balance,
+            adjustedBy: importedBy,
+            reason: "Imported opening balance",
+            importBatchId,
+          }, importedAt);
+        }
+      });
+    });
+  } else if (type === "buckets") {
+    // Oldest bucket with units left per member, for their active bucket
+    const firstActiveBuckets = new Map<string, {id: string; at: Date}>();
+
+    validRows.forEach(({values}) => {
+      const userId = memberIdsByEmail.get(values.email) as string;
+      const bucketRef = groupRef.collection("buckets").doc();
+      const remainingUnits = values.remaining ?? values.units ?? 0;
+      const purchasedAt = values.purchasedAt || importedAt;
+
+      if (remainingUnits > 0) {
+        const current = firstActiveBuckets.get(userId);
+        if (!current || purchasedAt < current.at) {
+          firstActiveBuckets.set(userId, {id: bucketRef.id, at: purchasedAt});
+        }
+      }
+
+      writes.push((batch) => {
+        batch.set(bucketRef, {
+          userId,
+          unitsInBucket: values.units,
+          remainingUnits,
+          status: remainingUnits > 0 ? "active" : "completed",
+          purchasedAt,
+          completedAt: null,
+          purchaseBatchId: importBatchId,
+          unitPrice: values.unitPrice || 0,
+          importBatchId,
+          updatedAt: importedAt,
+        });
+      });
+    });
+
+    firstActiveBuckets.forEach(({id}, userId) => {
+      if (members.get(userId)?.activeBucketId) {
+        return;
+      }
+      writes.push((batch) => {
+        const update = {activeBucketId: id, updatedAt: importedAt};
+        batch.update(groupRef.collection("members").doc(userId), update);
+        batch.update(
+          db.collection("users").doc(userId).collection("groups").doc(groupId),
+          update
+        );
+      });
+    });
+  } else {
+    validRows.forEach(({values}) => {
+      writes.push((batch) => {
+        batch.set(groupRef.collection("consumption").doc(), {
+          userId: memberIdsByEmail.get(values.email),
+          units: values.units,
+          consumedAt: values.consumedAt,
+          bucketId: null,
+          consumptionBatchId: importBatchId,
+          importBatchId,
+        });
+      });
+    });
+  }
+
+  // One entry for the whole import, committed with its last rows
+  writes.push((batch) => {
+    writeAuditEntry(batch, groupRef, {
+      action: "group.data-imported",
+      target: {type: "import", id: importBatchId},
+      after: {type, rows: validRows.length},
+      actorId: importedBy,
+    });
   });
 
-  return transactions;
+  for (let i = 0; i < writes.length; i += IMPORT_ROWS_PER_BATCH) {
+    const batch = db.batch();
+    writes.slice(i, i + IMPORT_ROWS_PER_BATCH).forEach((write) => {
+      write(batch);
+    });
+    await batch.commit();
+  }
+
+  return {...report, committed: true, importBatchId};
 }
 
 /**
@@ -871,36 +3638,63 @@ export async function createJoinRequest(
     createdAt: new Date(),
   };
 
-  await joinRequestRef.set(joinRequestData);
+  const batch = admin.firestore().batch();
+  batch.set(joinRequestRef, joinRequestData);
+  writeAuditEntry(batch, groupRef, {
+    action: "join-request.created",
+    target: {type: "join-request", id: joinRequestRef.id},
+    after: {userId, status: "pending"},
+    actorId: userId,
+  });
+  await batch.commit();
 
   return joinRequestRef.id;
 }
 
 /**
- * Gets all join requests for a group
+ * A join request as listed by getJoinRequests
+ */
+export interface JoinRequestRecord {
+  requestId: string;
+  userId: string;
+  message: string;
+  status: string;
+  createdAt: admin.firestore.Timestamp;
+  adminUserId?: string;
+  processedAt?: admin.firestore.Timestamp;
+  reason: string;
+}
+
+/**
+ * Gets join requests for a group
  *
- * This function retrieves all join requests for a group, allowing admins
- * to see pending requests and their details.
+ * This function retrieves a group's join requests, newest first, allowing
+ * admins to see pending requests and their details.
  *
  * @param {string} groupId - The ID of the group
- * @return {Promise<any[]>} Array of join request records
+ * @param {HistoryQuery} query - Optional userId, status, from/to, limit
+ * and cursor
+ * @return {Promise<HistoryPage>} A page of join request records
  *
  * @example
- * const requests = await getJoinRequests("group123");
- * console.log("Pending requests:", requests.length);
+ * const page = await getJoinRequests("group123", {status: "pending"});
+ * console.log("Pending requests:", page.items.length);
  */
-export async function getJoinRequests(groupId: string): Promise<any[]> {
+export async function getJoinRequests(
+  groupId: string,
+  query: HistoryQuery = {}
+): Promise<HistoryPage<JoinRequestRecord>> {
   const groupRef = await validateGroupExists(groupId);
 
-  // Get all join requests
-  const requestsSnapshot = await groupRef
-    .collection("join_requests")
-    .orderBy("createdAt", "desc")
-    .get();
+  const {docs, nextCursor} = await queryHistoryPage(
+    groupRef.collection("join_requests"),
+    "createdAt",
+    query
+  );
 
-  const requests: any[] = [];
+  const requests: JoinRequestRecord[] = [];
 
-  requestsSnapshot.forEach((doc) => {
+  docs.forEach((doc) => {
     const requestData = doc.data();
     const request = {
       requestId: doc.id,
@@ -915,7 +3709,7 @@ export async function getJoinRequests(groupId: string): Promise<any[]> {
     requests.push(request);
   });
 
-  return requests;
+  return {items: requests, nextCursor};
 }
 
 /**
@@ -960,18 +3754,24 @@ export async function approveJoinRequest(
     throw new Error("Join request is not pending");
   }
 
-  // Verify admin is actually an admin of the group
-  await validateUserIsGroupAdmin(adminUserId, groupId);
-
   const userId = requestData.userId;
 
   // Update join request status
-  await joinRequestRef.update({
+  const batch = admin.firestore().batch();
+  batch.update(joinRequestRef, {
     status: "approved",
     adminUserId,
     processedAt: new Date(),
     reason: reason || "Approved by admin",
   });
+  writeAuditEntry(batch, groupRef, {
+    action: "join-request.approved",
+    target: {type: "join-request", id: requestId},
+    before: {status: "pending"},
+    after: {status: "approved", userId},
+    actorId: adminUserId,
+  });
+  await batch.commit();
 
   // Add user to group
   await addUserToGroup(userId, groupId, false);
@@ -1003,105 +3803,246 @@ export async function denyJoinRequest(
   const groupRef = await validateGroupExists(groupId);
   const joinRequestRef = groupRef.collection("join_requests").doc(requestId);
 
-  // Verify join request exists
-  const requestDoc = await joinRequestRef.get();
-  if (!requestDoc.exists) {
-    throw new Error("Join request not found");
+  // Verify join request exists
+  const requestDoc = await joinRequestRef.get();
+  if (!requestDoc.exists) {
+    throw new Error("Join request not found");
+  }
+
+  const requestData = requestDoc.data();
+  if (requestData?.status !== "pending") {
+    throw new Error("Join request is not pending");
+  }
+
+  // Update join request status
+  const batch = admin.firestore().batch();
+  batch.update(joinRequestRef, {
+    status: "denied",
+    adminUserId,
+    processedAt: new Date(),
+    reason: reason,
+  });
+  writeAuditEntry(batch, groupRef, {
+    action: "join-request.denied",
+    target: {type: "join-request", id: requestId},
+    before: {status: "pending"},
+    after: {status: "denied", userId: requestData.userId, reason},
+    actorId: adminUserId,
+  });
+  await batch.commit();
+}
+
+/**
+ * Options for generating a group's QR code
+ */
+export interface GenerateQRCodeOptions {
+  expiresInMinutes?: number; // no expiry when unset
+  singleUse?: boolean;
+  units?: number; // consumption codes only
+  confirm?: boolean; // whether those units need confirming
+  format?: QRImageFormat; // png by default
+  paperSize?: PosterPaperSize; // pdf posters only, A4 by default
+  darkColor?: string; // #RRGGBB
+  lightColor?: string; // #RRGGBB
+  logo?: string; // PNG data URL drawn in the centre
+}
+
+/**
+ * Reads where a group's QR short links lead
+ *
+ * Built-in defaults are overridden by the APP_* environment variables,
+ * then by the `config/app_links` document (which can be edited without a
+ * redeploy), then by the group's own `appLinks` setting.
+ *
+ * @param {admin.firestore.DocumentData | undefined} groupData - The group
+ * document data
+ * @return {Promise<AppLinkConfig>} The merged configuration
+ */
+async function getAppLinkConfig(
+  groupData: admin.firestore.DocumentData | undefined
+): Promise<AppLinkConfig> {
+  const configDoc = await admin.firestore().collection("config")
+    .doc("app_links").get();
+
+  return mergeAppLinkConfig(
+    DEFAULT_APP_LINK_CONFIG,
+    readAppLinkEnv(process.env),
+    configDoc.data(),
+    resolveGroupSettings(groupData).appLinks
+  );
+}
+
+/**
+ * Creates and renders a signed QR code for a group
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {QRCodeType} type - The type of QR code
+ * @param {number} size - The size of the image in pixels
+ * @param {GenerateQRCodeOptions} options - Payload and rendering options
+ * @return {Promise<Object>} The payload, the short link encoded in the
+ * code, its targets, the rendered image and the group document data
+ * @throws {Error} If group doesn't exist, is archived, or the colours or
+ * logo are invalid
+ */
+async function createGroupQRCode(
+  groupId: string,
+  type: QRCodeType,
+  size: number,
+  options: GenerateQRCodeOptions
+) {
+  // Validate group exists
+  const groupRef = await validateGroupExists(groupId);
+  const groupDoc = await groupRef.get();
+  const groupData = groupDoc.data();
+
+  if (!groupData) {
+    throw new Error("Group not found");
   }
+  assertGroupActive(groupData);
 
-  const requestData = requestDoc.data();
-  if (requestData?.status !== "pending") {
-    throw new Error("Join request is not pending");
+  // Create the signed QR code payload
+  const timestamp = Date.now();
+  const qrData: QRPayload = {
+    type: type,
+    groupId: groupId,
+    version: QR_PAYLOAD_VERSION,
+    timestamp,
+  };
+  if (options.expiresInMinutes) {
+    qrData.expiresAt = timestamp + options.expiresInMinutes * 60 * 1000;
+  }
+  if (options.singleUse) {
+    qrData.nonce = generateQRNonce();
+  }
+  if (type === "consumption" && options.units) {
+    qrData.units = options.units;
+    if (options.confirm) {
+      qrData.confirm = true;
+    }
   }
 
-  // Verify admin is actually an admin of the group
-  await validateUserIsGroupAdmin(adminUserId, groupId);
+  const token = signQRPayload(qrData, getQRSigningKeyring());
 
-  // Update join request status
-  await joinRequestRef.update({
-    status: "denied",
-    adminUserId,
-    processedAt: new Date(),
-    reason: reason,
+  // The code holds a short link; the signed token stays on the server
+  const shortCode = generateShortLinkCode();
+  const links = resolveAppLinks(
+    await getAppLinkConfig(groupData), groupId, shortCode
+  );
+  await admin.firestore().collection("qr_links").doc(shortCode).create({
+    groupId,
+    type,
+    token,
+    createdAt: new Date(timestamp),
+    ...(qrData.expiresAt ? {expiresAt: new Date(qrData.expiresAt)} : {}),
   });
+  const qrContent = links.shortLink;
+
+  const image = await renderQRCode(qrContent, options.format || "png", {
+    size,
+    darkColor: options.darkColor || DEFAULT_DARK_COLOR,
+    lightColor: options.lightColor || DEFAULT_LIGHT_COLOR,
+    logo: options.logo ? decodeLogo(options.logo) : undefined,
+  }, {
+    groupName: groupData.name,
+    unitLabel: resolveGroupSettings(groupData).unitLabel,
+    type,
+    units: qrData.units,
+    expiresAt: qrData.expiresAt ? new Date(qrData.expiresAt) : undefined,
+    singleUse: !!qrData.nonce,
+    paperSize: options.paperSize || "A4",
+  });
+
+  return {qrData, qrContent, shortCode, links, image, groupData};
+}
+
+/**
+ * The group summary shown alongside a QR code
+ */
+export interface QRGroupInfo {
+  id: string;
+  name: string;
+  memberCount: number;
+  kittyBalance?: number; // only when generating a code
 }
 
 /**
  * Generates a QR code for a group
  *
  * This function creates a QR code that can be used for both onboarding
- * and consumption tracking. The QR code contains group information
- * and appropriate URLs for different platforms.
+ * and consumption tracking. The QR code contains a signed token naming
+ * the group (see utils/qrSigning.ts), so codes cannot be forged for
+ * other groups. Codes can optionally expire, or be accepted only once,
+ * and "consumption" codes can carry a unit amount that is recorded when
+ * a member scans them.
+ *
+ * The code itself holds only a short link, `<host>/q/<shortCode>`, which
+ * maps to the signed token in the `qr_links` collection. This keeps codes
+ * small, and lets the app and store URLs behind them (see
+ * utils/appLinks.ts) change after they are printed.
+ *
+ * The image is rendered locally (see utils/qrRender.ts) as a PNG, an SVG
+ * or a printable PDF poster, in custom colours and optionally with a
+ * logo in the centre, and returned as a data URL.
  *
  * @param {string} groupId - The ID of the group
  * @param {string} type - The type of QR code (dual-purpose,
  * onboarding, consumption)
  * @param {number} size - The size of the QR code in pixels
- * @param {boolean} includeLogo - Whether to include a logo in the QR code
+ * @param {GenerateQRCodeOptions} [options] - Expiry, single use, units,
+ * format, colours and logo
  * @return {Promise<{
  *   qrCodeDataUrl: string,
  *   qrCodeContent: string,
- *   groupInfo: any
+ *   shortCode: string,
+ *   links: AppLinkTargets,
+ *   format: string,
+ *   expiresAt: ?string,
+ *   singleUse: boolean,
+ *   units: ?number,
+ *   groupInfo: QRGroupInfo
  * }>}
  *
  * @example
  * const { qrCodeDataUrl, qrCodeContent, groupInfo } = await generateQRCode(
  *   "group123",
- *   "dual-purpose",
+ *   "consumption",
  *   300,
- *   false
+ *   {expiresInMinutes: 60, singleUse: true, format: "svg"}
  * );
  *
  * @throws {Error} If group doesn't exist
  */
 export async function generateQRCode(
   groupId: string,
-  type: "dual-purpose" | "onboarding" | "consumption" = "dual-purpose",
-  size = 300
+  type: QRCodeType = "dual-purpose",
+  size = 300,
+  options: GenerateQRCodeOptions = {}
 ): Promise<{
   qrCodeDataUrl: string;
   qrCodeContent: string;
-  groupInfo: any;
+  shortCode: string;
+  links: AppLinkTargets;
+  format: QRImageFormat;
+  expiresAt: string | null;
+  singleUse: boolean;
+  units: number | null;
+  groupInfo: QRGroupInfo;
 }> {
-  // Validate group exists
-  const groupRef = await validateGroupExists(groupId);
-  const groupDoc = await groupRef.get();
-  const groupData = groupDoc.data();
-
-  if (!groupData) {
-    throw new Error("Group not found");
-  }
-
-  // Create QR code data structure
-  const qrData = {
-    type: type,
-    groupId: groupId,
-    version: "1.0",
-    timestamp: Date.now(),
-    urls: {
-      ios: "https://apps.apple.com/app/kitty-fb/id123456789", // Placeholder
-      android:
-        "https://play.google.com/store/apps/details?id=com.kittyfb.app", // Placeholder
-      web: `https://kitty-fb.web.app/group/${groupId}`,
-    },
-  };
-
-  const qrContent = JSON.stringify(qrData);
-
-  // Generate QR code as data URL
-  const qrCodeDataUrl = await QRCode.toDataURL(qrContent, {
-    width: size,
-    margin: 2,
-    color: {
-      dark: "#000000",
-      light: "#FFFFFF",
-    },
-    errorCorrectionLevel: "H", // High error correction for better scanning
-  });
+  const {qrData, qrContent, shortCode, links, image, groupData} =
+    await createGroupQRCode(groupId, type, size, options);
 
   return {
-    qrCodeDataUrl,
+    qrCodeDataUrl:
+      `data:${image.contentType};base64,${image.data.toString("base64")}`,
     qrCodeContent: qrContent,
+    shortCode,
+    links,
+    format: options.format || "png",
+    expiresAt: qrData.expiresAt ?
+      new Date(qrData.expiresAt).toISOString() :
+      null,
+    singleUse: !!qrData.nonce,
+    units: qrData.units || null,
     groupInfo: {
       id: groupId,
       name: groupData.name,
@@ -1111,32 +4052,189 @@ export async function generateQRCode(
   };
 }
 
+/**
+ * Generates a QR code for a group as a downloadable image
+ *
+ * Takes the same options as generateQRCode, but returns the rendered PNG,
+ * SVG or PDF poster itself rather than a data URL.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} type - The type of QR code
+ * @param {number} size - The size of the QR code in pixels
+ * @param {GenerateQRCodeOptions} [options] - As for generateQRCode
+ * @return {Promise<{contentType: string, data: Buffer, fileName: string}>}
+ *
+ * @example
+ * const poster = await generateQRCodeImage("group123", "consumption", 300, {
+ *   format: "pdf",
+ *   paperSize: "Letter",
+ * });
+ * // poster.contentType === "application/pdf"
+ *
+ * @throws {Error} If group doesn't exist
+ */
+export async function generateQRCodeImage(
+  groupId: string,
+  type: QRCodeType = "dual-purpose",
+  size = 300,
+  options: GenerateQRCodeOptions = {}
+): Promise<{contentType: string; data: Buffer; fileName: string}> {
+  const {image} = await createGroupQRCode(groupId, type, size, options);
+
+  return {
+    ...image,
+    fileName: `${groupId}-${type}-qr-code.${options.format || "png"}`,
+  };
+}
+
+/**
+ * A single-use QR code's nonce record, written in the same transaction as
+ * whatever the code triggers so a failed scan never burns the code
+ */
+export interface QRNonceClaim {
+  ref: admin.firestore.DocumentReference;
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * Builds the nonce record that marks a single-use QR code as used
+ *
+ * Nonces are recorded in the group's `qr_nonces` subcollection. Records
+ * for expiring codes carry an `expiresAt` so a TTL policy can remove them
+ * once the code could no longer be accepted anyway.
+ *
+ * @param {admin.firestore.DocumentReference} groupRef - The group
+ * @param {QRPayload} payload - The verified payload carrying the nonce
+ * @param {string} [userId] - The user who scanned the code
+ * @return {QRNonceClaim | undefined} The claim, or undefined for codes
+ * that can be reused
+ */
+function buildQRNonceClaim(
+  groupRef: admin.firestore.DocumentReference,
+  payload: QRPayload,
+  userId?: string
+): QRNonceClaim | undefined {
+  if (!payload.nonce) {
+    return undefined;
+  }
+
+  return {
+    ref: groupRef.collection("qr_nonces").doc(payload.nonce),
+    data: {
+      type: payload.type,
+      usedBy: userId || null,
+      usedAt: new Date(),
+      ...(payload.expiresAt ? {expiresAt: new Date(payload.expiresAt)} : {}),
+    },
+  };
+}
+
+/**
+ * Rejects a single-use QR code whose nonce has already been recorded
+ *
+ * @param {admin.firestore.DocumentSnapshot | null} nonceDoc - The nonce
+ * record read inside the caller's transaction
+ * @throws {QRCodeError} QR_ALREADY_USED if the code was processed before
+ */
+function assertQRNonceUnused(
+  nonceDoc: admin.firestore.DocumentSnapshot | null
+): void {
+  if (nonceDoc?.exists) {
+    throw new QRCodeError(
+      "QR_ALREADY_USED",
+      "QR code has already been used"
+    );
+  }
+}
+
+/**
+ * Marks a single-use QR code as used
+ *
+ * Used for scans that write nothing else; consumption scans claim the
+ * nonce inside recordConsumption's transaction instead.
+ *
+ * @param {QRNonceClaim} claim - The nonce record to write
+ * @param {boolean} [dryRun] - Only check the code is unused
+ * @return {Promise<void>}
+ * @throws {QRCodeError} QR_ALREADY_USED if the code was processed before
+ */
+async function consumeQRNonce(
+  claim: QRNonceClaim,
+  dryRun = false
+): Promise<void> {
+  await admin.firestore().runTransaction(async (transaction) => {
+    assertQRNonceUnused(await transaction.get(claim.ref));
+    if (!dryRun) {
+      transaction.set(claim.ref, claim.data);
+    }
+  });
+}
+
+/**
+ * The caller's standing in the group behind a scanned QR code
+ */
+export interface QRUserInfo {
+  isMember: boolean;
+  isAdmin: boolean;
+  role?: GroupRole;
+  activeBucketId?: string | null;
+  remainingUnits?: number;
+  hasActiveBucket?: boolean;
+}
 
 /**
- * @typedef {Object} ProcessQRCodeResult
- * @property {string} action - Action to take
- * @property {string} groupId - The group ID
- * @property {any} groupInfo - Group information
- * @property {any} [userInfo] - Optional user info
+ * Outcome of processing a scanned QR code
  */
+export interface ProcessQRCodeResult {
+  action: string;
+  groupId: string;
+  groupInfo: QRGroupInfo;
+  userInfo?: QRUserInfo;
+  // Units to confirm, or the consumption recorded
+  consumption?: {units: number; consumptionIds?: string[]};
+}
 
 /**
  * Processes a scanned QR code and determines the appropriate action
  *
- * This function analyzes the QR code data and user context to determine
- * whether the user should be onboarded, join the group, or consume units.
+ * Scanned short links are looked up in `qr_links`; raw signed tokens from
+ * older codes are still accepted. The function verifies the code's
+ * signature and expiry, then
+ * analyzes the user context and the code's type to determine the action:
  *
- * @param {string} qrData - The QR code data (JSON string)
- * @param {any} userContext - User context information
+ * - Users without a profile are onboarded, and non-members are sent to a
+ *   join request, whatever the code's type
+ * - Members scanning a "consumption" code that carries a unit amount
+ *   consume those units in this call (action "consumed"). If the code asks
+ *   for confirmation, the first call returns "confirm-consumption" and the
+ *   units are only recorded when the call is repeated with `confirmed`
+ * - Members scanning a "consumption" or "dual-purpose" code without units
+ *   are told to record consumption themselves (action "consumption")
+ * - Members scanning an "onboarding" code get "already-member"; onboarding
+ *   codes never trigger consumption
+ *
+ * Single-use codes are marked as used once they take effect; a
+ * confirmation prompt does not use them up, and neither does consumption
+ * that fails.
+ *
+ * @param {string} qrData - The scanned QR code content (a short link or
+ * a signed token)
+ * @param {Object} userContext - User context information
+ * @param {boolean} [confirmed] - Whether the user has confirmed the
+ * consumption a confirm-step code asked about
  * @return {Promise<ProcessQRCodeResult>}
  *
  * @example
  * const result = await processQRCode(
- *   '{"type":"dual-purpose","groupId":"group123"}',
- *   { userId: "user123", platform: "ios" }
+ *   qrCodeContent,
+ *   { userId: "user123", platform: "ios" },
+ *   true
  * );
+ * // result.action === "consumed"
  *
- * @throws {Error} If QR data is invalid or group doesn't exist
+ * @throws {QRCodeError} If the code is unknown, malformed, tampered with,
+ * expired or already used
+ * @throws {Error} If the group doesn't exist, or consumption fails
  */
 export async function processQRCode(
   qrData: string,
@@ -1145,112 +4243,219 @@ export async function processQRCode(
     platform: "ios" | "android" | "web";
     appVersion?: string;
     deviceId?: string;
+  },
+  confirmed = false
+): Promise<ProcessQRCodeResult> {
+  // Short links stand in for the signed token stored behind them
+  const shortCode = parseShortLinkCode(qrData);
+  let token = qrData;
+  if (shortCode) {
+    const linkDoc = await admin.firestore().collection("qr_links")
+      .doc(shortCode).get();
+    if (!linkDoc.exists) {
+      throw new QRCodeError("QR_NOT_FOUND", "QR code not found");
+    }
+    token = linkDoc.data()?.token;
   }
-): Promise<{
-  action: string;
-  groupId: string;
-  groupInfo: any;
-  userInfo?: any;
-}> {
-  try {
-    // Parse QR code data
-    const parsedData = JSON.parse(qrData);
 
-    if (!parsedData.groupId) {
-      throw new Error("Invalid QR code: missing group ID");
-    }
+  // Verify the signature and expiry before trusting the group ID
+  const payload = verifyQRPayload(token, getQRSigningKeyring());
+  const groupId = payload.groupId;
 
-    const groupId = parsedData.groupId;
+  // Validate group exists
+  const groupRef = await validateGroupExists(groupId);
+  const groupDoc = await groupRef.get();
+  const groupData = groupDoc.data();
 
-    // Validate group exists
-    const groupRef = await validateGroupExists(groupId);
-    const groupDoc = await groupRef.get();
-    const groupData = groupDoc.data();
+  if (!groupData) {
+    throw new Error("Group not found");
+  }
+  assertGroupActive(groupData);
 
-    if (!groupData) {
-      throw new Error("Group not found");
-    }
+  const groupInfo: QRGroupInfo = {
+    id: groupId,
+    name: groupData.name,
+    memberCount: groupData.memberCount || 0,
+  };
 
-    // If no user ID provided, it's an onboarding flow
-    if (!userContext.userId) {
-      return {
-        action: "onboarding",
-        groupId: groupId,
-        groupInfo: {
-          id: groupId,
-          name: groupData.name,
-          memberCount: groupData.memberCount || 0,
-        },
-      };
+  // Marks single-use codes as used once they take effect
+  const nonceClaim = buildQRNonceClaim(groupRef, payload, userContext.userId);
+  const useCode = async (dryRun = false) => {
+    if (nonceClaim) {
+      await consumeQRNonce(nonceClaim, dryRun);
     }
+  };
 
-    // Check if user is a member of the group
-    try {
-      const {groupMemberRef} = await validateUserGroupMembership(
-        userContext.userId,
-        groupId
-      );
-      const memberData = (await groupMemberRef.get()).data();
-
-      if (memberData) {
-        // User is a member - check if they can consume
-        const userBuckets = await getUserBuckets(groupId, userContext.userId);
-        const activeBucket = userBuckets.find((bucket) =>
-          bucket.status === "active");
-
-        return {
-          action: "consumption",
-          groupId: groupId,
-          groupInfo: {
-            id: groupId,
-            name: groupData.name,
-            memberCount: groupData.memberCount || 0,
-          },
-          userInfo: {
-            isMember: true,
-            isAdmin: memberData.isAdmin || false,
-            activeBucketId: memberData.activeBucketId || null,
-            remainingUnits: activeBucket ? activeBucket.remainingUnits : 0,
-            hasActiveBucket: !!activeBucket,
-          },
-        };
-      }
-    } catch (error) {
-      // User is not a member - join request flow
+  // If no user ID provided, or the caller has no user profile yet,
+  // it's an onboarding flow
+  const userDoc = userContext.userId ?
+    await admin.firestore().collection("users")
+      .doc(userContext.userId).get() :
+    null;
+
+  if (!userContext.userId || !userDoc?.exists) {
+    await useCode();
+    return {action: "onboarding", groupId, groupInfo};
+  }
+  const userId = userContext.userId;
+
+  // Check if user is a member of the group
+  let memberData: admin.firestore.DocumentData | undefined;
+  try {
+    const {groupMemberRef} = await validateUserGroupMembership(
+      userId,
+      groupId
+    );
+    memberData = (await groupMemberRef.get()).data();
+  } catch (error) {
+    // User is not a member - join request flow
+    await useCode();
+    return {
+      action: "join-request",
+      groupId,
+      groupInfo,
+      userInfo: {
+        isMember: false,
+        isAdmin: false,
+        activeBucketId: null,
+        remainingUnits: 0,
+        hasActiveBucket: false,
+      },
+    };
+  }
+
+  if (!memberData) {
+    // Fallback to onboarding
+    await useCode();
+    return {action: "onboarding", groupId, groupInfo};
+  }
+
+  const memberInfo = {
+    isMember: true,
+    isAdmin: memberData.isAdmin || false,
+    role: resolveMemberRole(memberData),
+  };
+
+  if (payload.type === "onboarding") {
+    await useCode();
+    return {action: "already-member", groupId, groupInfo, userInfo: memberInfo};
+  }
+
+  if (payload.type === "consumption" && payload.units) {
+    const units = payload.units;
+
+    if (payload.confirm && !confirmed) {
+      // Check the code is still usable before asking, but keep it unused
+      await useCode(true);
       return {
-        action: "join-request",
-        groupId: groupId,
-        groupInfo: {
-          id: groupId,
-          name: groupData.name,
-          memberCount: groupData.memberCount || 0,
-        },
-        userInfo: {
-          isMember: false,
-          isAdmin: false,
-          activeBucketId: null,
-          remainingUnits: 0,
-          hasActiveBucket: false,
-        },
+        action: "confirm-consumption",
+        groupId,
+        groupInfo,
+        userInfo: memberInfo,
+        consumption: {units},
       };
     }
 
-    // Fallback to onboarding
+    // The code is only used up if the consumption is recorded, so the
+    // member can retry after, say, buying more buckets
+    const consumptionIds = await recordConsumption(
+      groupId,
+      userId,
+      units,
+      nonceClaim
+    );
     return {
-      action: "onboarding",
-      groupId: groupId,
-      groupInfo: {
-        id: groupId,
-        name: groupData.name,
-        memberCount: groupData.memberCount || 0,
-      },
+      action: "consumed",
+      groupId,
+      groupInfo,
+      userInfo: memberInfo,
+      consumption: {units, consumptionIds},
     };
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error("Invalid QR code format");
-    }
-    throw error;
   }
+
+  // User is a member - check if they can consume
+  await useCode();
+  const userBuckets = await getUserBuckets(groupId, userId);
+  const activeBucket = userBuckets.find((bucket) =>
+    bucket.status === "active");
+
+  return {
+    action: "consumption",
+    groupId,
+    groupInfo,
+    userInfo: {
+      ...memberInfo,
+      activeBucketId: memberData.activeBucketId || null,
+      remainingUnits: activeBucket ? activeBucket.remainingUnits : 0,
+      hasActiveBucket: !!activeBucket,
+    },
+  };
+}
+
+/**
+ * Resolves a QR short link opened outside the app
+ *
+ * Backs the public `GET /q/:code` route. Phones with the app installed
+ * open short links in the app, so this is only reached from a browser or
+ * a generic scanner; the caller is redirected to `redirectUrl`, which is
+ * the platform's app store when one is configured and the web app
+ * otherwise. Link targets are read when the link is opened, so codes that
+ * are already printed follow configuration changes.
+ *
+ * Nothing about the group beyond its ID is returned, since the route is
+ * unauthenticated. Expired codes still resolve, so people can install the
+ * app; the app reports the expiry when the code is processed.
+ *
+ * @param {string} code - The short link code
+ * @param {string} [userAgent] - The User-Agent header, used to detect the
+ * platform
+ * @return {Promise<Object>} The link's group, type, expiry, targets and
+ * redirect URL
+ * @throws {Error} "QR code not found" if the code or its group is unknown
+ *
+ * @example
+ * const link = await resolveQRShortLink("Ab3dE5gH9k", "Mozilla/5.0 ...");
+ * // link.redirectUrl === "https://kitty-fb.web.app/group/group123"
+ */
+export async function resolveQRShortLink(
+  code: string,
+  userAgent?: string
+): Promise<{
+  code: string;
+  groupId: string;
+  type: string;
+  expiresAt: Date | null;
+  expired: boolean;
+  links: AppLinkTargets;
+  redirectUrl: string;
+}> {
+  const linkDoc = await admin.firestore().collection("qr_links")
+    .doc(code).get();
+  const linkData = linkDoc.data();
+  if (!linkData) {
+    throw new Error("QR code not found");
+  }
+
+  const groupDoc = await admin.firestore().collection("groups")
+    .doc(linkData.groupId).get();
+  if (!groupDoc.exists) {
+    throw new Error("QR code not found");
+  }
+
+  const links = resolveAppLinks(
+    await getAppLinkConfig(groupDoc.data()), linkData.groupId, code
+  );
+  const expiresAt = linkData.expiresAt ? toDate(linkData.expiresAt) : null;
+
+  return {
+    code,
+    groupId: linkData.groupId,
+    type: linkData.type,
+    expiresAt,
+    expired: !!expiresAt && expiresAt.getTime() <= Date.now(),
+    links,
+    redirectUrl: pickRedirectTarget(links, detectLinkPlatform(userAgent)),
+  };
 }
 
 /**
@@ -1283,7 +4488,7 @@ export async function updateUserProfile(
   }
 
   // Prepare update data
-  const updateData: any = {};
+  const updateData: admin.firestore.DocumentData = {};
 
   if (updates.phoneNumber) {
     updateData.phoneNumber = updates.phoneNumber;
@@ -1301,7 +4506,7 @@ export async function updateUserProfile(
  * where the phone number is obtained from the device.
  *
  * @param {string} phoneNumber - The phone number to search for
- * @return {Promise<any>} The user data if found, null otherwise
+ * @return {Promise<Object | null>} The user data if found, null otherwise
  *
  * @example
  * const user = await findUserByPhoneNumber("+1234567890");
@@ -1313,7 +4518,14 @@ export async function updateUserProfile(
  */
 export async function findUserByPhoneNumber(
   phoneNumber: string
-): Promise<any | null> {
+): Promise<{
+  userId: string;
+  displayName?: string;
+  email?: string;
+  phoneNumber: string;
+  createdAt?: admin.firestore.Timestamp;
+  updatedAt?: admin.firestore.Timestamp;
+} | null> {
   const db = admin.firestore();
 
   // Query users collection for the phone number
@@ -1339,3 +4551,208 @@ export async function findUserByPhoneNumber(
     updatedAt: userData.updatedAt,
   };
 }
+
+/**
+ * An NFC tag registered to a group
+ */
+export interface NfcTag {
+  tagId: string; // written to the tag; resolves the group and amount
+  groupId: string;
+  label: string; // where the tag is, e.g. "Fridge 2"
+  amount: number; // units recorded per tap
+  product: string | null; // what a tap is for, e.g. "Club-Mate"
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Converts a stored NFC tag document to an NfcTag
+ *
+ * @param {admin.firestore.DocumentSnapshot} doc - The tag document
+ * @return {NfcTag} The tag
+ */
+function toNfcTag(doc: admin.firestore.DocumentSnapshot): NfcTag {
+  const data = doc.data() || {};
+  return {
+    tagId: doc.id,
+    groupId: data.groupId,
+    label: data.label,
+    amount: data.amount,
+    product: data.product ?? null,
+    enabled: data.enabled !== false,
+    createdBy: data.createdBy,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+/**
+ * Registers an NFC tag for a group
+ *
+ * Tags are stored in the group's `nfc_tags` subcollection under a
+ * random, unguessable ID. Only that ID is written to the physical tag;
+ * the group and amount are resolved on the server when it is tapped, so
+ * a lost or cloned tag can be disabled without reprogramming the others.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {Object} tag - The tag's details
+ * @param {string} tag.label - Where the tag is, e.g. "Fridge 2"
+ * @param {number} tag.amount - Units recorded per tap
+ * @param {string} [tag.product] - What a tap is for
+ * @param {string} createdBy - The ID of the admin registering the tag
+ * @return {Promise<NfcTag>} The registered tag
+ *
+ * @example
+ * const tag = await registerNfcTag(
+ *   "group123", {label: "Fridge 2", amount: 1, product: "Beer"}, "admin123"
+ * );
+ * // Write `kitty://tag/${tag.tagId}` to the tag
+ *
+ * @throws {Error} If the group doesn't exist or is archived
+ */
+export async function registerNfcTag(
+  groupId: string,
+  tag: {label: string; amount: number; product?: string | null},
+  createdBy: string
+): Promise<NfcTag> {
+  const groupRef = await validateGroupExists(groupId);
+  assertGroupActive((await groupRef.get()).data());
+
+  const tagRef = groupRef.collection("nfc_tags").doc();
+  const now = new Date();
+  const tagData = {
+    tagId: tagRef.id, // lets tags be found by collection group query
+    groupId,
+    label: tag.label,
+    amount: tag.amount,
+    product: tag.product ?? null,
+    enabled: true,
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const batch = admin.firestore().batch();
+  batch.set(tagRef, tagData);
+  writeAuditEntry(batch, groupRef, {
+    action: "nfc-tag.registered",
+    target: {type: "nfc-tag", id: tagRef.id},
+    after: {label: tag.label, amount: tag.amount, product: tagData.product},
+    actorId: createdBy,
+  });
+  await batch.commit();
+
+  return {...tagData, tagId: tagRef.id};
+}
+
+/**
+ * Lists a group's NFC tags, oldest first
+ *
+ * @param {string} groupId - The ID of the group
+ * @return {Promise<NfcTag[]>} The group's tags, including disabled ones
+ */
+export async function getNfcTags(groupId: string): Promise<NfcTag[]> {
+  const groupRef = await validateGroupExists(groupId);
+  const snapshot = await groupRef.collection("nfc_tags")
+    .orderBy("createdAt", "asc")
+    .get();
+  return snapshot.docs.map(toNfcTag);
+}
+
+/**
+ * Changes an NFC tag's label, amount or product, or disables it
+ *
+ * Disabling a tag revokes it: taps are refused until it is enabled
+ * again. Settings that are omitted keep their current value; passing
+ * null clears the product.
+ *
+ * @param {string} groupId - The ID of the group
+ * @param {string} tagId - The ID of the tag
+ * @param {Object} updates - The settings to change
+ * @param {string} [updates.label] - Where the tag is
+ * @param {number} [updates.amount] - Units recorded per tap
+ * @param {?string} [updates.product] - What a tap is for
+ * @param {boolean} [updates.enabled] - False to revoke the tag
+ * @param {string} changedBy - The ID of the admin making the change
+ * @return {Promise<NfcTag>} The updated tag
+ *
+ * @example
+ * // A tag was lost; stop it from recording consumption
+ * await updateNfcTag("group123", "tag456", {enabled: false}, "admin123");
+ *
+ * @throws {Error} "NFC tag not found" if the group has no such tag
+ */
+export async function updateNfcTag(
+  groupId: string,
+  tagId: string,
+  updates: {
+    label?: string;
+    amount?: number;
+    product?: string | null;
+    enabled?: boolean;
+  },
+  changedBy: string
+): Promise<NfcTag> {
+  const groupRef = await validateGroupExists(groupId);
+  const tagRef = groupRef.collection("nfc_tags").doc(tagId);
+  const tagDoc = await tagRef.get();
+  if (!tagDoc.exists) {
+    throw new Error("NFC tag not found");
+  }
+  const current = toNfcTag(tagDoc);
+
+  const update: Record<string, unknown> = {};
+  const before: Record<string, unknown> = {};
+  for (const key of ["label", "amount", "product", "enabled"] as const) {
+    if (updates[key] !== undefined) {
+      update[key] = updates[key];
+      before[key] = current[key];
+    }
+  }
+
+  const updatedAt = new Date();
+  const batch = admin.firestore().batch();
+  batch.update(tagRef, {...update, updatedAt});
+  writeAuditEntry(batch, groupRef, {
+    action: update.enabled === false && current.enabled ?
+      "nfc-tag.disabled" :
+      "nfc-tag.updated",
+    target: {type: "nfc-tag", id: tagId},
+    before,
+    after: update,
+    actorId: changedBy,
+  });
+  await batch.commit();
+
+  return {...current, ...update, updatedAt};
+}
+
+/**
+ * Finds the group and amount an NFC tag stands for
+ *
+ * Used when a tag is tapped, so the group and amount come from the
+ * registry rather than from what is written on the tag.
+ *
+ * @param {string} tagId - The ID read from the tag
+ * @return {Promise<NfcTag>} The tag
+ * @throws {Error} "NFC tag not found" if the tag was never registered,
+ * or "NFC tag is disabled" if it has been revoked
+ */
+export async function resolveNfcTag(tagId: string): Promise<NfcTag> {
+  const snapshot = await admin.firestore().collectionGroup("nfc_tags")
+    .where("tagId", "==", tagId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    throw new Error("NFC tag not found");
+  }
+
+  const tag = toNfcTag(snapshot.docs[0]);
+  if (!tag.enabled) {
+    throw new Error("NFC tag is disabled");
+  }
+  return tag;
+}
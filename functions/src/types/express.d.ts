@@ -0,0 +1,21 @@
+import "express-serve-static-core";
+import type {AuthenticatedUser} from "../middleware/auth";
+import type {GroupMembershipContext} from "../middleware/authorization";
+import type {NfcTag} from "../services/firestore";
+
+/**
+ * REQUEST AUGMENTATIONS
+ *
+ * Properties the middlewares attach to Express requests:
+ * - `user`: the verified caller, set by `authenticate`
+ * - `membership`: the caller's group role, set by the authorization checks
+ * - `nfcTag`: the registered tag behind `POST /nfc/consume`, set by
+ *   `resolveRequestNfcTag`
+ */
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthenticatedUser;
+    membership?: GroupMembershipContext;
+    nfcTag?: NfcTag;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * GROUP ANALYTICS
+ *
+ * This file contains the pure aggregation used by the group stats
+ * endpoint. The service layer reads consumption, buckets and transactions
+ * for a date range and hands plain records to buildGroupStats, which
+ * turns them into the per-member totals, time series and activity
+ * patterns the frontend renders as dashboards.
+ *
+ * Hours, weekdays and period boundaries are computed in the caller's
+ * timezone, given as an offset from UTC in minutes.
+ */
+
+/**
+ * Size of each point in the consumption time series
+ */
+export type StatsGranularity = "day" | "week" | "month";
+
+/**
+ * A consumption record as used by the analytics
+ */
+export interface ConsumptionEvent {
+  userId: string;
+  units: number;
+  consumedAt: Date;
+}
+
+/**
+ * A bucket purchase and, once drained, when it was completed
+ */
+export interface BucketLifetime {
+  purchasedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * A ledger entry reduced to its effect on the kitty balance
+ */
+export interface KittyMovement {
+  kittyDelta: number; // positive for money in, negative for money out
+  createdAt: Date;
+}
+
+/**
+ * Range and presentation options for a stats report
+ */
+export interface StatsRange {
+  from: Date;
+  to: Date;
+  granularity: StatsGranularity;
+  utcOffset: number; // minutes east of UTC, e.g. 60 for CET
+}
+
+/**
+ * Aggregated consumption and kitty statistics for a group
+ */
+export interface GroupStats {
+  range: StatsRange;
+  totals: {
+    units: number;
+    records: number;
+    activeMembers: number;
+  };
+  perMember: Array<{userId: string; units: number; records: number}>;
+  timeSeries: Array<{period: string; units: number}>;
+  busiestHours: Array<{hour: number; units: number}>; // busiest first
+  busiestWeekdays: Array<{weekday: number; units: number}>; // 0 = Sunday
+  bucketBurnDown: {
+    completedBuckets: number;
+    averageHours: number | null;
+  };
+  kitty: {
+    inflow: number;
+    outflow: number;
+    net: number;
+  };
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Rounds a number to 2 decimal places
+ *
+ * @param {number} value - The value to round
+ * @return {number} The rounded value
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Shifts a date into the caller's timezone so UTC getters read local time
+ *
+ * @param {Date} date - The date to shift
+ * @param {number} utcOffset - Minutes east of UTC
+ * @return {Date} The shifted date
+ */
+function toLocal(date: Date, utcOffset: number): Date {
+  return new Date(date.getTime() + utcOffset * MS_PER_MINUTE);
+}
+
+/**
+ * Gets the time series label for the period containing a date
+ *
+ * Days are labelled "2026-10-18", weeks by the date of their Monday and
+ * months "2026-10".
+ *
+ * @param {Date} date - The date, already shifted to local time
+ * @param {StatsGranularity} granularity - Size of each period
+ * @return {string} The period label
+ *
+ * @example
+ * getPeriodLabel(new Date("2026-10-18T12:00:00Z"), "week"); // "2026-10-12"
+ */
+export function getPeriodLabel(
+  date: Date,
+  granularity: StatsGranularity
+): string {
+  if (granularity === "month") {
+    return date.toISOString().slice(0, 7);
+  }
+  if (granularity === "week") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    const monday = new Date(date.getTime() - daysSinceMonday * MS_PER_DAY);
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds the stats report for a group from records within the range
+ *
+ * Records outside the range are ignored, so callers can pass the result
+ * of a broader query.
+ *
+ * @param {Object} records - Consumption, bucket and kitty records
+ * @param {StatsRange} range - The reporting range and options
+ * @return {GroupStats} The aggregated statistics
+ */
+export function buildGroupStats(
+  records: {
+    consumption: ConsumptionEvent[];
+    buckets: BucketLifetime[];
+    kittyMovements: KittyMovement[];
+  },
+  range: StatsRange
+): GroupStats {
+  const inRange = (date: Date) => date >= range.from && date <= range.to;
+
+  const perMember = new Map<string, {units: number; records: number}>();
+  const timeSeries = new Map<string, number>();
+  const hours = new Array(24).fill(0);
+  const weekdays = new Array(7).fill(0);
+  let totalUnits = 0;
+  let totalRecords = 0;
+
+  records.consumption
+    .filter((event) => inRange(event.consumedAt))
+    .forEach((event) => {
+      const member = perMember.get(event.userId) || {units: 0, records: 0};
+      member.units += event.units;
+      member.records += 1;
+      perMember.set(event.userId, member);
+
+      const local = toLocal(event.consumedAt, range.utcOffset);
+      const period = getPeriodLabel(local, range.granularity);
+      timeSeries.set(period, (timeSeries.get(period) || 0) + event.units);
+      hours[local.getUTCHours()] += event.units;
+      weekdays[local.getUTCDay()] += event.units;
+
+      totalUnits += event.units;
+      totalRecords += 1;
+    });
+
+  const burnDownTimes = records.buckets
+    .filter((bucket) => inRange(bucket.purchasedAt) && bucket.completedAt)
+    .map((bucket) =>
+      (bucket.completedAt as Date).getTime() - bucket.purchasedAt.getTime()
+    );
+
+  let inflow = 0;
+  let outflow = 0;
+  records.kittyMovements
+    .filter((movement) => inRange(movement.createdAt))
+    .forEach((movement) => {
+      if (movement.kittyDelta > 0) {
+        inflow += movement.kittyDelta;
+      } else {
+        outflow -= movement.kittyDelta;
+      }
+    });
+
+  return {
+    range,
+    totals: {
+      units: totalUnits,
+      records: totalRecords,
+      activeMembers: perMember.size,
+    },
+    perMember: Array.from(perMember.entries())
+      .map(([userId, member]) => ({userId, ...member}))
+      .sort((a, b) => b.units - a.units),
+    timeSeries: Array.from(timeSeries.entries())
+      .map(([period, units]) => ({period, units}))
+      .sort((a, b) => a.period.localeCompare(b.period)),
+    busiestHours: hours
+      .map((units, hour) => ({hour, units}))
+      .sort((a, b) => b.units - a.units || a.hour - b.hour),
+    busiestWeekdays: weekdays
+      .map((units, weekday) => ({weekday, units}))
+      .sort((a, b) => b.units - a.units || a.weekday - b.weekday),
+    bucketBurnDown: {
+      completedBuckets: burnDownTimes.length,
+      averageHours: burnDownTimes.length > 0 ?
+        round2(
+          burnDownTimes.reduce((sum, time) => sum + time, 0) /
+          burnDownTimes.length / MS_PER_HOUR
+        ) :
+        null,
+    },
+    kitty: {
+      inflow: round2(inflow),
+      outflow: round2(outflow),
+      net: round2(inflow - outflow),
+    },
+  };
+}
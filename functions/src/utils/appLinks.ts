@@ -0,0 +1,278 @@
+import {randomBytes} from "crypto";
+
+/**
+ * APP LINKS
+ *
+ * This file contains the pure rules for the links printed in QR codes and
+ * where they lead. A QR code holds only a short link,
+ * `<shortLinkBaseUrl>/q/<code>`, which keeps the code small and quick to
+ * scan. The code is looked up on the server, so the app and store URLs it
+ * leads to can change after the code has been printed.
+ *
+ * Link targets come from three layers, each overriding the last: built-in
+ * defaults, the deployment configuration (environment variables and the
+ * `config/app_links` Firestore document), and a group's own `appLinks`
+ * setting. Targets are templates in which `{groupId}` and `{code}` are
+ * replaced.
+ *
+ * Unless a short link host is configured, short links point at the `api`
+ * function itself, which serves `/q/{code}` without any hosting setup.
+ */
+
+/**
+ * Where QR short links point
+ */
+export interface AppLinkConfig {
+  shortLinkBaseUrl: string; // host (and optional path) serving /q/{code}
+  webUrl: string; // web app, also used when no store URL is set
+  iosStoreUrl: string | null;
+  androidStoreUrl: string | null;
+  deepLinkUrl: string | null; // opens the installed app, e.g. kittyfb://
+}
+
+/**
+ * Link targets a group may override
+ */
+export type AppLinkOverrides = Partial<
+  Pick<AppLinkConfig, "webUrl" | "iosStoreUrl" | "androidStoreUrl" |
+    "deepLinkUrl">
+>;
+
+/**
+ * The platform a short link was opened on
+ */
+export type LinkPlatform = "ios" | "android" | "web";
+
+/**
+ * Resolved link targets for one QR code
+ */
+export interface AppLinkTargets {
+  shortLink: string;
+  web: string;
+  ios: string | null;
+  android: string | null;
+  deepLink: string | null;
+}
+
+export const DEFAULT_APP_LINK_CONFIG: AppLinkConfig = {
+  // Only used outside Firebase; see readAppLinkEnv
+  shortLinkBaseUrl: "https://kitty-fb.web.app",
+  webUrl: "https://kitty-fb.web.app/group/{groupId}",
+  iosStoreUrl: null,
+  androidStoreUrl: null,
+  deepLinkUrl: null,
+};
+
+/**
+ * Region the `api` function is deployed to (the firebase-functions default)
+ */
+export const FUNCTION_REGION = "us-central1";
+
+/**
+ * Length of generated short link codes; 62^10 codes make guessing one
+ * impractical
+ */
+export const SHORT_LINK_CODE_LENGTH = 10;
+
+const SHORT_LINK_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Matches a short link on any host, so codes survive domain changes
+ */
+const SHORT_LINK_PATTERN =
+  /^https?:\/\/[^/?#]+(?:\/[^?#]*)?\/q\/([0-9A-Za-z]{6,32})\/?(?:[?#].*)?$/;
+
+const APP_LINK_ENV_VARIABLES: Record<keyof AppLinkConfig, string> = {
+  shortLinkBaseUrl: "APP_SHORT_LINK_BASE_URL",
+  webUrl: "APP_WEB_URL",
+  iosStoreUrl: "APP_IOS_STORE_URL",
+  androidStoreUrl: "APP_ANDROID_STORE_URL",
+  deepLinkUrl: "APP_DEEP_LINK_URL",
+};
+
+/**
+ * Builds the base URL of the deployed `api` function
+ *
+ * @param {Record<string, string | undefined>} env - The environment
+ * @return {string | null} The function's URL, or null outside Firebase
+ *
+ * @example
+ * functionBaseUrl({GCLOUD_PROJECT: "kitty-680c6"});
+ * // "https://us-central1-kitty-680c6.cloudfunctions.net/api"
+ */
+export function functionBaseUrl(
+  env: Record<string, string | undefined>
+): string | null {
+  const projectId = env.GCLOUD_PROJECT;
+  if (!projectId) {
+    return null;
+  }
+  if (env.FUNCTIONS_EMULATOR === "true") {
+    return `http://127.0.0.1:5001/${projectId}/${FUNCTION_REGION}/api`;
+  }
+  return `https://${FUNCTION_REGION}-${projectId}.cloudfunctions.net/api`;
+}
+
+/**
+ * Reads app link settings from environment variables
+ *
+ * Without APP_SHORT_LINK_BASE_URL, short links use the `api` function's
+ * own URL, so they resolve wherever the function is deployed.
+ *
+ * @param {Record<string, string | undefined>} env - The environment
+ * @return {Partial<AppLinkConfig>} The settings that are set
+ *
+ * @example
+ * readAppLinkEnv({APP_IOS_STORE_URL: "https://apps.apple.com/app/id1"});
+ * // {iosStoreUrl: "https://apps.apple.com/app/id1"}
+ */
+export function readAppLinkEnv(
+  env: Record<string, string | undefined>
+): Partial<AppLinkConfig> {
+  const config: Partial<AppLinkConfig> = {};
+  (Object.keys(APP_LINK_ENV_VARIABLES) as Array<keyof AppLinkConfig>)
+    .forEach((key) => {
+      const value = env[APP_LINK_ENV_VARIABLES[key]];
+      if (value) {
+        config[key] = value;
+      }
+    });
+  const functionUrl = functionBaseUrl(env);
+  if (!config.shortLinkBaseUrl && functionUrl) {
+    config.shortLinkBaseUrl = functionUrl;
+  }
+  return config;
+}
+
+/**
+ * Layers app link settings over each other
+ *
+ * Later layers win. Undefined values are skipped, while null clears a
+ * store or deep link URL set by an earlier layer.
+ *
+ * @param {AppLinkConfig} base - The starting configuration
+ * @param {...Partial<AppLinkConfig>} layers - Overrides, lowest first
+ * @return {AppLinkConfig} The merged configuration
+ */
+export function mergeAppLinkConfig(
+  base: AppLinkConfig,
+  ...layers: Array<Partial<AppLinkConfig> | null | undefined>
+): AppLinkConfig {
+  const config = {...base};
+  layers.forEach((layer) => {
+    (Object.keys(base) as Array<keyof AppLinkConfig>).forEach((key) => {
+      const value = layer?.[key];
+      if (value === null && key !== "shortLinkBaseUrl" && key !== "webUrl") {
+        config[key] = null;
+      } else if (typeof value === "string" && value) {
+        config[key] = value;
+      }
+    });
+  });
+  return config;
+}
+
+/**
+ * Generates a random short link code
+ *
+ * @return {string} SHORT_LINK_CODE_LENGTH letters and digits
+ */
+export function generateShortLinkCode(): string {
+  let code = "";
+  while (code.length < SHORT_LINK_CODE_LENGTH) {
+    const [byte] = randomBytes(1);
+    // Skip bytes that would bias the modulo towards early characters
+    if (byte < 248) {
+      code += SHORT_LINK_ALPHABET[byte % 62];
+    }
+  }
+  return code;
+}
+
+/**
+ * Extracts the code from a scanned short link
+ *
+ * @param {string} content - Scanned QR content
+ * @return {string | null} The code, or null if it is not a short link
+ *
+ * @example
+ * parseShortLinkCode("https://kitty.example/q/Ab3dE5gH9k"); // "Ab3dE5gH9k"
+ * parseShortLinkCode("eyJ0eXBl...In0.k1.Qm9v"); // null
+ */
+export function parseShortLinkCode(content: string): string | null {
+  const match = content.trim().match(SHORT_LINK_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Guesses the platform from a User-Agent header
+ *
+ * @param {string} [userAgent] - The User-Agent header
+ * @return {LinkPlatform} ios, android or web
+ */
+export function detectLinkPlatform(userAgent?: string): LinkPlatform {
+  if (!userAgent) {
+    return "web";
+  }
+  if (/iPhone|iPad|iPod/i.test(userAgent)) {
+    return "ios";
+  }
+  if (/Android/i.test(userAgent)) {
+    return "android";
+  }
+  return "web";
+}
+
+/**
+ * Resolves the link targets for a QR code
+ *
+ * @param {AppLinkConfig} config - The merged configuration
+ * @param {string} groupId - The group the code belongs to
+ * @param {string} code - The short link code
+ * @return {AppLinkTargets} The short link and where it can lead
+ */
+export function resolveAppLinks(
+  config: AppLinkConfig,
+  groupId: string,
+  code: string
+): AppLinkTargets {
+  const fill = (template: string | null) => template === null ?
+    null :
+    template
+      .replace(/\{groupId\}/g, encodeURIComponent(groupId))
+      .replace(/\{code\}/g, encodeURIComponent(code));
+
+  return {
+    shortLink: `${config.shortLinkBaseUrl.replace(/\/+$/, "")}/q/${code}`,
+    web: fill(config.webUrl) as string,
+    ios: fill(config.iosStoreUrl),
+    android: fill(config.androidStoreUrl),
+    deepLink: fill(config.deepLinkUrl),
+  };
+}
+
+/**
+ * Picks where a short link opened in a browser should redirect
+ *
+ * Phones with the app installed open short links in the app directly,
+ * through universal links or app links on the short link host. A browser
+ * only sees the link when the app is missing, so phones are sent to their
+ * app store, falling back to the web app.
+ *
+ * @param {AppLinkTargets} targets - The resolved targets
+ * @param {LinkPlatform} platform - Where the link was opened
+ * @return {string} The URL to redirect to
+ */
+export function pickRedirectTarget(
+  targets: AppLinkTargets,
+  platform: LinkPlatform
+): string {
+  if (platform === "ios" && targets.ios) {
+    return targets.ios;
+  }
+  if (platform === "android" && targets.android) {
+    return targets.android;
+  }
+  return targets.web;
+}
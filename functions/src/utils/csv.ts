@@ -0,0 +1,139 @@
+/**
+ * CSV HELPERS
+ *
+ * This file contains the pure helpers used to read and write CSV for
+ * spreadsheet and accounting tools. Values are quoted following RFC 4180,
+ * dates are written as ISO 8601 and text that a spreadsheet would
+ * evaluate as a formula is prefixed with a single quote.
+ */
+
+/**
+ * Characters that make spreadsheets treat a cell as a formula
+ */
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Formats a single value as a CSV field
+ *
+ * @param {unknown} value - The value to format
+ * @return {string} The escaped field
+ *
+ * @example
+ * escapeCsvValue("Coffee, large"); // "\"Coffee, large\""
+ * escapeCsvValue("=SUM(A1)");      // "'=SUM(A1)"
+ * escapeCsvValue(-12.5);           // "-12.5"
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === "string") {
+    text = FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ?
+      `'${value}` :
+      value;
+  } else {
+    text = String(value);
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, "\"\"")}"`;
+  }
+  return text;
+}
+
+/**
+ * Formats a row of values as a CSV line, including the line break
+ *
+ * @param {unknown[]} values - The row's values, in column order
+ * @return {string} The CSV line
+ *
+ * @example
+ * toCsvRow(["member", "user123", 0]); // "member,user123,0\r\n"
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+}
+
+/**
+ * Parses CSV text into rows of fields
+ *
+ * Follows RFC 4180: fields may be quoted, quoted fields may contain
+ * commas, line breaks and doubled quotes, and lines may end with CRLF or
+ * LF. A leading byte order mark and blank lines are ignored.
+ *
+ * @param {string} text - The CSV text
+ * @return {Array<{line: number, fields: string[]}>} The rows, each with
+ * the line number it starts on
+ * @throws {Error} "Invalid CSV: unterminated quoted field" if a quote is
+ * never closed
+ *
+ * @example
+ * parseCsv("name,email\r\n\"Doe, Jane\",jane@example.com");
+ * // [{line: 1, fields: ["name", "email"]},
+ * //  {line: 2, fields: ["Doe, Jane", "jane@example.com"]}]
+ */
+export function parseCsv(
+  text: string
+): Array<{line: number; fields: string[]}> {
+  const rows: Array<{line: number; fields: string[]}> = [];
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // A row with a single empty field is a blank line
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push({line: rowStartLine, fields});
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === "\"" && input[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === "\"") {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,134 @@
+import * as Joi from "joi";
+import {parseCsv} from "./csv";
+
+/**
+ * CSV IMPORT
+ *
+ * This file turns an uploaded CSV into validated rows for the group
+ * import. The header row names the columns; headers are matched to the
+ * row schema's keys ignoring case, spaces and punctuation, so "Purchased
+ * At" and "purchased_at" both map to purchasedAt. Every data row is
+ * validated with the schema and problems are reported per row, using the
+ * row's line number in the file so users can find it in their spreadsheet.
+ */
+
+/**
+ * Maximum number of data rows accepted in one import
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * A data row that passed validation
+ */
+export interface CsvImportRow<T = Record<string, unknown>> {
+  line: number;
+  values: T;
+}
+
+/**
+ * Validation problems found in one row
+ */
+export interface CsvImportError {
+  line: number;
+  errors: string[];
+}
+
+/**
+ * Normalizes a header or key for matching
+ *
+ * @param {string} name - The header or key
+ * @return {string} The name in lower case without separators
+ */
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Parses and validates an import CSV against a row schema
+ *
+ * @param {string} text - The CSV text, starting with a header row
+ * @param {Joi.ObjectSchema} schema - The schema each row must satisfy
+ * @return {Object} The valid rows and the errors found in the others
+ * @throws {Error} "Invalid CSV: ..." if the file itself is unusable:
+ * unbalanced quotes, no data rows, too many rows, or unknown or missing
+ * columns
+ *
+ * @example
+ * const {rows, errors} = parseCsvImport(
+ *   "name,email\nJane,jane@example.com",
+ *   importMemberRowSchema
+ * );
+ */
+export function parseCsvImport<T = Record<string, unknown>>(
+  text: string,
+  schema: Joi.ObjectSchema<T>
+): {rows: CsvImportRow<T>[]; errors: CsvImportError[]} {
+  const [header, ...dataRows] = parseCsv(text);
+
+  if (!header || dataRows.length === 0) {
+    throw new Error("Invalid CSV: the file has no data rows");
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(
+      `Invalid CSV: imports are limited to ${MAX_IMPORT_ROWS} rows`
+    );
+  }
+
+  // Map each header to a schema key
+  const schemaKeys = schema.describe().keys as Record<
+    string,
+    {flags?: {presence?: string}}
+  >;
+  const keysByName = new Map(
+    Object.keys(schemaKeys).map((key) => [normalizeColumnName(key), key])
+  );
+  const columns = header.fields.map((name) => {
+    const key = keysByName.get(normalizeColumnName(name));
+    if (!key) {
+      throw new Error(
+        `Invalid CSV: unknown column "${name.trim()}". ` +
+        `Expected: ${Object.keys(schemaKeys).join(", ")}`
+      );
+    }
+    return key;
+  });
+
+  const missing = Object.keys(schemaKeys).filter((key) =>
+    schemaKeys[key].flags?.presence === "required" && !columns.includes(key)
+  );
+  if (missing.length > 0) {
+    throw new Error(`Invalid CSV: missing column ${missing.join(", ")}`);
+  }
+
+  const rows: CsvImportRow<T>[] = [];
+  const errors: CsvImportError[] = [];
+
+  dataRows.forEach(({line, fields}) => {
+    if (fields.length !== columns.length) {
+      errors.push({
+        line,
+        errors: [
+          `Row has ${fields.length} fields, expected ${columns.length}`,
+        ],
+      });
+      return;
+    }
+
+    const record: Record<string, string> = {};
+    columns.forEach((key, index) => {
+      record[key] = fields[index].trim();
+    });
+
+    const {error, value} = schema.validate(record, {abortEarly: false});
+    if (error) {
+      errors.push({
+        line,
+        errors: error.details.map((detail) => detail.message),
+      });
+      return;
+    }
+    rows.push({line, values: value});
+  });
+
+  return {rows, errors};
+}
@@ -0,0 +1,101 @@
+/**
+ * GROUP PERMISSIONS
+ *
+ * This file defines the role model used to authorize group-scoped
+ * requests. Roles are ordered: every role includes the permissions of
+ * the roles below it.
+ *
+ * - member: can read the group's data and act for themselves
+ * - admin: can manage members, balances and join requests
+ * - owner: the group's creator, with full control
+ */
+
+export type GroupRole = "member" | "admin" | "owner";
+
+/**
+ * Rank of each role; a higher rank includes all lower ranks
+ */
+export const ROLE_RANK: Record<GroupRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * The role fields of a stored membership document
+ */
+export interface MemberRoleData {
+  role?: string;
+  isAdmin?: boolean; // set on memberships created before roles
+}
+
+/**
+ * Resolves the role stored on a membership document
+ *
+ * Memberships created before roles were introduced only carry the
+ * isAdmin flag, so that flag is used as a fallback.
+ *
+ * @param {MemberRoleData | undefined} memberData - The membership
+ * document data
+ * @return {GroupRole} The member's role
+ *
+ * @example
+ * resolveMemberRole({role: "owner"}); // "owner"
+ * resolveMemberRole({isAdmin: true}); // "admin"
+ */
+export function resolveMemberRole(
+  memberData: MemberRoleData | undefined
+): GroupRole {
+  if (memberData?.role && memberData.role in ROLE_RANK) {
+    return memberData.role as GroupRole;
+  }
+  return memberData?.isAdmin ? "admin" : "member";
+}
+
+/**
+ * Checks whether a role satisfies a required role
+ *
+ * @param {GroupRole | null} role - The caller's role, or null for
+ * non-members
+ * @param {GroupRole} required - The minimum role required
+ * @return {boolean} True if the role is sufficient
+ *
+ * @example
+ * hasRequiredRole("owner", "admin"); // true
+ * hasRequiredRole("member", "admin"); // false
+ */
+export function hasRequiredRole(
+  role: GroupRole | null,
+  required: GroupRole
+): boolean {
+  if (!role) {
+    return false;
+  }
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Checks whether a group has an admin other than the given user
+ *
+ * Used to stop the last admin from leaving or being demoted, which
+ * would leave nobody able to manage the group.
+ *
+ * @param {Array<{id: string, data: Function}>} members - The group's
+ * member documents
+ * @param {string} userId - The user to leave out of the count
+ * @return {boolean} True if another member holds the admin or owner role
+ *
+ * @example
+ * if (!hasAdminOtherThan(membersSnapshot.docs, userId)) {
+ *   throw new Error("Group must have an admin");
+ * }
+ */
+export function hasAdminOtherThan(
+  members: Array<{id: string; data: () => MemberRoleData | undefined}>,
+  userId: string
+): boolean {
+  return members.some((member) =>
+    member.id !== userId &&
+    hasRequiredRole(resolveMemberRole(member.data()), "admin")
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * GROUP PRICING
+ *
+ * This file contains the pure pricing rules used when members buy
+ * buckets or run a tab. A group can charge either a fixed price per bucket
+ * or a price per unit; when both are set, the per-bucket price wins.
+ * Groups with no pricing configured keep the original free behaviour.
+ *
+ * Groups in "tab" mode skip buckets entirely: every unit consumed adds
+ * the per-unit price to the member's balance, up to the group's credit
+ * limit.
+ */
+
+/**
+ * How members of a group pay for what they consume
+ */
+export type ConsumptionMode = "buckets" | "tab";
+
+/**
+ * Pricing configuration stored on a group document
+ */
+export interface GroupPricing {
+  pricePerBucket: number | null;
+  pricePerUnit: number | null;
+  consumptionMode: ConsumptionMode;
+  creditLimit: number | null; // maximum debt in tab mode, null = no limit
+}
+
+/**
+ * The pricing fields as read from a group document, which may predate
+ * pricing or hold values written by older versions
+ */
+export interface StoredGroupPricing {
+  pricePerBucket?: number | null;
+  pricePerUnit?: number | null;
+  consumptionMode?: string;
+  creditLimit?: number | null;
+  [field: string]: unknown;
+}
+
+/**
+ * Reads the pricing configuration from a group document
+ *
+ * @param {StoredGroupPricing | undefined} groupData - The group document
+ * data
+ * @return {GroupPricing} The group's pricing, with unset prices as null
+ *
+ * @example
+ * resolveGroupPricing({pricePerUnit: 1.5});
+ * // {pricePerBucket: null, pricePerUnit: 1.5,
+ * //  consumptionMode: "buckets", creditLimit: null}
+ */
+export function resolveGroupPricing(
+  groupData: StoredGroupPricing | undefined
+): GroupPricing {
+  return {
+    pricePerBucket: groupData?.pricePerBucket ?? null,
+    pricePerUnit: groupData?.pricePerUnit ?? null,
+    consumptionMode: groupData?.consumptionMode === "tab" ? "tab" : "buckets",
+    creditLimit: groupData?.creditLimit ?? null,
+  };
+}
+
+/**
+ * Calculates the price of a single bucket
+ *
+ * @param {GroupPricing} pricing - The group's pricing configuration
+ * @param {number} unitsPerBucket - Number of units in the bucket
+ * @return {number} The bucket price, rounded to cents (0 if unpriced)
+ *
+ * @example
+ * calculateBucketPrice({pricePerBucket: null, pricePerUnit: 1.5}, 10); // 15
+ */
+export function calculateBucketPrice(
+  pricing: GroupPricing,
+  unitsPerBucket: number
+): number {
+  if (pricing.pricePerBucket !== null) {
+    return pricing.pricePerBucket;
+  }
+  if (pricing.pricePerUnit !== null) {
+    return Math.round(pricing.pricePerUnit * unitsPerBucket * 100) / 100;
+  }
+  return 0;
+}
+
+/**
+ * Calculates the charge for units consumed on a tab
+ *
+ * @param {GroupPricing} pricing - The group's pricing configuration
+ * @param {number} units - Number of units consumed
+ * @return {number} The charge, rounded to cents
+ * @throws {Error} "Tab mode requires a price per unit" if the group has
+ * no per-unit price
+ *
+ * @example
+ * calculateTabCharge({...pricing, pricePerUnit: 2.5}, 2); // 5
+ */
+export function calculateTabCharge(
+  pricing: GroupPricing,
+  units: number
+): number {
+  if (pricing.pricePerUnit === null) {
+    throw new Error("Tab mode requires a price per unit");
+  }
+  return Math.round(pricing.pricePerUnit * units * 100) / 100;
+}
+
+/**
+ * Checks whether a new balance would take a member past the credit limit
+ *
+ * Balances are negative when a member owes money, so the limit is
+ * compared against the size of the debt.
+ *
+ * @param {number} newBalance - The member's balance after the charge
+ * @param {number | null} creditLimit - Maximum debt, or null for no limit
+ * @return {boolean} True if the charge should be refused
+ *
+ * @example
+ * exceedsCreditLimit(-55, 50); // true
+ * exceedsCreditLimit(-50, 50); // false
+ */
+export function exceedsCreditLimit(
+  newBalance: number,
+  creditLimit: number | null
+): boolean {
+  if (creditLimit === null) {
+    return false;
+  }
+  return -newBalance > creditLimit;
+}
@@ -0,0 +1,484 @@
+import * as QRCode from "qrcode";
+import * as PDFDocument from "pdfkit";
+import {PNG} from "pngjs";
+
+/**
+ * QR CODE RENDERING
+ *
+ * This file renders QR code content as PNG, SVG or a printable PDF
+ * poster. Everything is drawn locally from the QR module matrix, so the
+ * three formats share the same colours, quiet zone and logo placement.
+ *
+ * Codes always use error correction level "H", which lets scanners
+ * recover up to 30% of the symbol. An optional logo covers the centre of
+ * the code on a light backing square; it is kept to LOGO_SCALE of the
+ * symbol's width (under 10% of its area), well within what level "H" can
+ * recover.
+ */
+
+/**
+ * The image formats a QR code can be rendered in
+ */
+export type QRImageFormat = "png" | "svg" | "pdf";
+
+/**
+ * Paper sizes for printable posters
+ */
+export type PosterPaperSize = "A4" | "Letter";
+
+/**
+ * How a QR code is drawn
+ */
+export interface QRRenderOptions {
+  size: number; // width and height in pixels, quiet zone included
+  darkColor: string; // #RRGGBB
+  lightColor: string; // #RRGGBB
+  logo?: Buffer; // PNG image drawn in the centre
+}
+
+/**
+ * What a printable poster says about the code
+ */
+export interface QRPosterContent {
+  groupName: string;
+  unitLabel: string; // e.g. "coffees"
+  type: "dual-purpose" | "onboarding" | "consumption";
+  units?: number; // units a consumption code records
+  expiresAt?: Date;
+  singleUse?: boolean;
+  paperSize: PosterPaperSize;
+}
+
+/**
+ * A rendered QR code
+ */
+export interface RenderedQRCode {
+  contentType: string;
+  data: Buffer;
+}
+
+export const DEFAULT_DARK_COLOR = "#000000";
+export const DEFAULT_LIGHT_COLOR = "#FFFFFF";
+
+/**
+ * Minimum contrast between the dark and light colours for reliable
+ * scanning
+ */
+export const MIN_COLOR_CONTRAST = 3;
+
+/**
+ * Share of the symbol's width a logo may cover
+ */
+export const LOGO_SCALE = 0.22;
+
+/**
+ * Light margin around the symbol, in modules, as the QR specification
+ * requires
+ */
+const QUIET_ZONE_MODULES = 4;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a,
+  0x0a]);
+
+/**
+ * Parses a #RRGGBB colour
+ *
+ * @param {string} color - The colour
+ * @return {number[]} The red, green and blue components, 0-255
+ */
+function parseColor(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Computes the relative luminance of a colour, as defined by WCAG
+ *
+ * @param {string} color - The colour, #RRGGBB
+ * @return {number} Luminance from 0 (black) to 1 (white)
+ */
+function luminance(color: string): number {
+  const [r, g, b] = parseColor(color).map((component) => {
+    const c = component / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Checks that a colour pair will scan reliably
+ *
+ * Scanners expect dark modules on a light background, so the dark colour
+ * must be the darker one and the pair must reach MIN_COLOR_CONTRAST.
+ *
+ * @param {string} darkColor - Colour of the modules, #RRGGBB
+ * @param {string} lightColor - Background colour, #RRGGBB
+ * @throws {Error} If the colours are inverted or too close
+ *
+ * @example
+ * assertScannableColors("#1A237E", "#FFF8E1"); // passes
+ * assertScannableColors("#777777", "#888888"); // throws
+ */
+export function assertScannableColors(
+  darkColor: string,
+  lightColor: string
+): void {
+  const dark = luminance(darkColor);
+  const light = luminance(lightColor);
+  if (dark >= light || (light + 0.05) / (dark + 0.05) < MIN_COLOR_CONTRAST) {
+    throw new Error(
+      "Invalid colours: the dark colour must be at least " +
+      `${MIN_COLOR_CONTRAST}:1 darker than the light colour`
+    );
+  }
+}
+
+/**
+ * Decodes a logo sent as a PNG data URL
+ *
+ * @param {string} dataUrl - `data:image/png;base64,...`
+ * @return {Buffer} The PNG image
+ * @throws {Error} If the data is not a readable PNG image
+ */
+export function decodeLogo(dataUrl: string): Buffer {
+  const logo = Buffer.from(dataUrl.replace(/^data:image\/png;base64,/, ""),
+    "base64");
+  try {
+    if (!logo.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      throw new Error("not a PNG");
+    }
+    PNG.sync.read(logo);
+  } catch (error) {
+    throw new Error("Invalid logo: not a readable PNG image");
+  }
+  return logo;
+}
+
+/**
+ * Square region of a code, in modules, measured from the top left of the
+ * quiet zone
+ */
+interface ModuleBox {
+  start: number;
+  size: number;
+}
+
+/**
+ * Lays out the module matrix of some QR content
+ *
+ * @param {string} content - The content to encode
+ * @param {boolean} withLogo - Whether to reserve a centre box for a logo
+ * @return {Object} The matrix, the total width in modules and the logo box
+ */
+function layout(content: string, withLogo: boolean) {
+  const {modules} = QRCode.create(content, {errorCorrectionLevel: "H"});
+  const total = modules.size + QUIET_ZONE_MODULES * 2;
+
+  let logoBox: ModuleBox | null = null;
+  if (withLogo) {
+    // Whole modules, with the same parity as the symbol so it stays centred
+    let size = Math.floor(modules.size * LOGO_SCALE);
+    if ((modules.size - size) % 2 !== 0) {
+      size -= 1;
+    }
+    logoBox = {start: (total - size) / 2, size};
+  }
+
+  const isDark = (row: number, col: number): boolean => {
+    const r = row - QUIET_ZONE_MODULES;
+    const c = col - QUIET_ZONE_MODULES;
+    if (r < 0 || c < 0 || r >= modules.size || c >= modules.size) {
+      return false;
+    }
+    if (logoBox &&
+      row >= logoBox.start && row < logoBox.start + logoBox.size &&
+      col >= logoBox.start && col < logoBox.start + logoBox.size) {
+      return false; // cleared for the logo
+    }
+    return modules.get(r, c) === 1;
+  };
+
+  return {total, logoBox, isDark};
+}
+
+/**
+ * Draws a logo into a PNG, centred in and scaled to fit a pixel box
+ *
+ * @param {PNG} png - The image to draw into
+ * @param {Buffer} logoData - The PNG logo
+ * @param {number} boxStart - Left and top edge of the box, in pixels
+ * @param {number} boxSize - Width and height of the box, in pixels
+ */
+function drawLogo(
+  png: PNG,
+  logoData: Buffer,
+  boxStart: number,
+  boxSize: number
+): void {
+  const logo = PNG.sync.read(logoData);
+  const scale = boxSize / Math.max(logo.width, logo.height);
+  const width = Math.max(1, Math.round(logo.width * scale));
+  const height = Math.max(1, Math.round(logo.height * scale));
+  const left = boxStart + Math.floor((boxSize - width) / 2);
+  const top = boxStart + Math.floor((boxSize - height) / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Nearest-neighbour sampling, alpha blended over the background
+      const sourceY = Math.min(logo.height - 1, Math.floor(y / scale));
+      const sourceX = Math.min(logo.width - 1, Math.floor(x / scale));
+      const source = (sourceY * logo.width + sourceX) * 4;
+      const target = ((top + y) * png.width + left + x) * 4;
+      const alpha = logo.data[source + 3] / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        png.data[target + channel] = Math.round(
+          logo.data[source + channel] * alpha +
+          png.data[target + channel] * (1 - alpha)
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Renders QR content as a PNG image
+ *
+ * @param {string} content - The content to encode
+ * @param {QRRenderOptions} options - Size, colours and logo
+ * @return {Buffer} The PNG image
+ */
+export function renderQRCodePng(
+  content: string,
+  options: QRRenderOptions
+): Buffer {
+  const {total, logoBox, isDark} = layout(content, !!options.logo);
+  const dark = parseColor(options.darkColor);
+  const light = parseColor(options.lightColor);
+  const png = new PNG({width: options.size, height: options.size});
+  const moduleSize = options.size / total;
+
+  for (let y = 0; y < options.size; y++) {
+    const row = Math.floor(y / moduleSize);
+    for (let x = 0; x < options.size; x++) {
+      const [r, g, b] = isDark(row, Math.floor(x / moduleSize)) ? dark : light;
+      const offset = (y * options.size + x) * 4;
+      png.data[offset] = r;
+      png.data[offset + 1] = g;
+      png.data[offset + 2] = b;
+      png.data[offset + 3] = 255;
+    }
+  }
+
+  if (options.logo && logoBox) {
+    drawLogo(
+      png,
+      options.logo,
+      Math.ceil(logoBox.start * moduleSize),
+      Math.floor(logoBox.size * moduleSize)
+    );
+  }
+  return PNG.sync.write(png);
+}
+
+/**
+ * Renders QR content as an SVG image
+ *
+ * Dark modules are drawn as a single path in module units, so the image
+ * scales cleanly to any print size.
+ *
+ * @param {string} content - The content to encode
+ * @param {QRRenderOptions} options - Size, colours and logo
+ * @return {string} The SVG document
+ */
+export function renderQRCodeSvg(
+  content: string,
+  options: QRRenderOptions
+): string {
+  const {total, logoBox, isDark} = layout(content, !!options.logo);
+
+  const path: string[] = [];
+  for (let row = 0; row < total; row++) {
+    for (let col = 0; col < total; col++) {
+      if (isDark(row, col)) {
+        path.push(`M${col} ${row}h1v1h-1z`);
+      }
+    }
+  }
+
+  const elements = [
+    `<rect width="${total}" height="${total}" ` +
+      `fill="${options.lightColor}"/>`,
+    `<path d="${path.join("")}" fill="${options.darkColor}"/>`,
+  ];
+  if (options.logo && logoBox) {
+    elements.push(
+      `<image x="${logoBox.start}" y="${logoBox.start}" ` +
+      `width="${logoBox.size}" height="${logoBox.size}" ` +
+      "preserveAspectRatio=\"xMidYMid meet\" " +
+      `xlink:href="data:image/png;base64,${options.logo.toString("base64")}"/>`
+    );
+  }
+
+  return [
+    "<svg xmlns=\"http://www.w3.org/2000/svg\" " +
+      "xmlns:xlink=\"http://www.w3.org/1999/xlink\" " +
+      `width="${options.size}" height="${options.size}" ` +
+      `viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`,
+    ...elements,
+    "</svg>",
+  ].join("\n");
+}
+
+/**
+ * Writes the poster's headline for a code
+ *
+ * @param {QRPosterContent} poster - What the poster is for
+ * @return {string} The headline
+ */
+function posterHeadline(poster: QRPosterContent): string {
+  switch (poster.type) {
+  case "onboarding":
+    return "Scan to join this group";
+  case "consumption":
+    return poster.units ?
+      `Scan to record ${poster.units} ${poster.unitLabel}` :
+      `Scan to record your ${poster.unitLabel}`;
+  default:
+    return `Scan to join or record your ${poster.unitLabel}`;
+  }
+}
+
+/**
+ * Renders QR content as a printable PDF poster
+ *
+ * The poster shows the group name, what scanning the code does, the code
+ * itself and short instructions, on A4 or US Letter paper. Modules are
+ * drawn as vector shapes so the code prints sharply at any size.
+ *
+ * @param {string} content - The content to encode
+ * @param {QRRenderOptions} options - Colours and logo; size is ignored
+ * @param {QRPosterContent} poster - Text and paper size for the poster
+ * @return {Promise<Buffer>} The PDF document
+ */
+export function renderQRCodePoster(
+  content: string,
+  options: QRRenderOptions,
+  poster: QRPosterContent
+): Promise<Buffer> {
+  const {total, logoBox, isDark} = layout(content, !!options.logo);
+  const doc = new PDFDocument({
+    size: poster.paperSize === "Letter" ? "LETTER" : "A4",
+    margin: 56,
+    info: {Title: `${poster.groupName} QR code`},
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width;
+  const contentWidth = pageWidth - 112;
+
+  doc.font("Helvetica-Bold").fontSize(32).fillColor("#000000")
+    .text(poster.groupName, 56, 72, {width: contentWidth, align: "center"});
+  doc.moveDown(0.5).font("Helvetica").fontSize(18)
+    .text(posterHeadline(poster), {width: contentWidth, align: "center"});
+
+  // The code, centred, with its quiet zone in the light colour
+  const codeSize = Math.min(contentWidth, 360);
+  const codeLeft = (pageWidth - codeSize) / 2;
+  const codeTop = doc.y + 32;
+  const moduleSize = codeSize / total;
+
+  doc.rect(codeLeft, codeTop, codeSize, codeSize).fill(options.lightColor);
+  for (let row = 0; row < total; row++) {
+    for (let col = 0; col < total; col++) {
+      if (isDark(row, col)) {
+        doc.rect(codeLeft + col * moduleSize, codeTop + row * moduleSize,
+          moduleSize, moduleSize);
+      }
+    }
+  }
+  doc.fill(options.darkColor);
+
+  if (options.logo && logoBox) {
+    const logoSize = logoBox.size * moduleSize;
+    doc.image(
+      options.logo,
+      codeLeft + logoBox.start * moduleSize,
+      codeTop + logoBox.start * moduleSize,
+      {fit: [logoSize, logoSize], align: "center", valign: "center"}
+    );
+  }
+
+  const instructions = [
+    "1. Open your phone's camera or the Kitty app",
+    "2. Point it at the code above",
+    "3. Follow the prompt on your screen",
+  ];
+  doc.font("Helvetica").fontSize(14).fillColor("#000000")
+    .text(instructions.join("\n"), 56, codeTop + codeSize + 40, {
+      width: contentWidth,
+      align: "center",
+      lineGap: 6,
+    });
+
+  const notes: string[] = [];
+  if (poster.expiresAt) {
+    notes.push(`Valid until ${poster.expiresAt.toUTCString()}`);
+  }
+  if (poster.singleUse) {
+    notes.push("This code can only be used once");
+  }
+  if (notes.length > 0) {
+    doc.moveDown(1.5).fontSize(11).fillColor("#555555")
+      .text(notes.join("\n"), {width: contentWidth, align: "center"});
+  }
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Renders QR content in the requested format
+ *
+ * @param {string} content - The content to encode
+ * @param {QRImageFormat} format - png, svg or pdf (a printable poster)
+ * @param {QRRenderOptions} options - Size, colours and logo
+ * @param {QRPosterContent} poster - Poster text, used for pdf only
+ * @return {Promise<RenderedQRCode>} The image and its content type
+ *
+ * @example
+ * const {contentType, data} = await renderQRCode(token, "svg", {
+ *   size: 300, darkColor: "#000000", lightColor: "#FFFFFF",
+ * }, poster);
+ * // contentType === "image/svg+xml"
+ */
+export async function renderQRCode(
+  content: string,
+  format: QRImageFormat,
+  options: QRRenderOptions,
+  poster: QRPosterContent
+): Promise<RenderedQRCode> {
+  assertScannableColors(options.darkColor, options.lightColor);
+
+  switch (format) {
+  case "svg":
+    return {
+      contentType: "image/svg+xml",
+      data: Buffer.from(renderQRCodeSvg(content, options)),
+    };
+  case "pdf":
+    return {
+      contentType: "application/pdf",
+      data: await renderQRCodePoster(content, options, poster),
+    };
+  default:
+    return {
+      contentType: "image/png",
+      data: renderQRCodePng(content, options),
+    };
+  }
+}
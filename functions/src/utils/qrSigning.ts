@@ -0,0 +1,278 @@
+import {createHmac, randomBytes, timingSafeEqual} from "crypto";
+
+/**
+ * QR CODE SIGNING
+ *
+ * This file contains the signing and verification of QR code payloads.
+ * A QR code carries a compact token of three dot-separated parts:
+ *
+ *   <base64url payload JSON>.<key ID>.<base64url HMAC-SHA256>
+ *
+ * The HMAC covers the payload and key ID, so a code cannot be forged or
+ * pointed at another group without the server-side key. Keys are named so
+ * they can be rotated: new codes are signed with the active key, while
+ * codes signed with any other configured key keep verifying until that
+ * key is removed.
+ *
+ * Keys come from the QR_SIGNING_KEYS environment variable as a comma
+ * separated list of `keyId:secret` pairs, with QR_SIGNING_KEY_ID naming
+ * the active key (the first listed by default). Outside production a fixed
+ * development key is used when none is configured.
+ */
+
+/**
+ * Version written to signed payloads
+ */
+export const QR_PAYLOAD_VERSION = "2.0";
+
+/**
+ * What a QR code is for
+ */
+export type QRCodeType = "dual-purpose" | "onboarding" | "consumption";
+
+/**
+ * The signed contents of a QR code
+ */
+export interface QRPayload {
+  type: QRCodeType;
+  groupId: string;
+  version: string;
+  timestamp: number; // issued at, in milliseconds
+  expiresAt?: number; // milliseconds; no expiry when absent
+  nonce?: string; // present on single-use codes
+  units?: number; // units a consumption code records
+  confirm?: boolean; // whether those units need the member's confirmation
+}
+
+/**
+ * The keys QR codes are signed and verified with
+ */
+export interface QRSigningKeyring {
+  activeKeyId: string;
+  keys: Record<string, string>; // key ID to secret
+}
+
+/**
+ * Machine-readable reasons a QR code is rejected
+ */
+export type QRCodeErrorCode =
+  | "QR_INVALID_FORMAT"
+  | "QR_NOT_FOUND"
+  | "QR_UNKNOWN_KEY"
+  | "QR_SIGNATURE_INVALID"
+  | "QR_EXPIRED"
+  | "QR_ALREADY_USED";
+
+/**
+ * Error thrown when a scanned QR code cannot be accepted
+ */
+export class QRCodeError extends Error {
+  public code: QRCodeErrorCode;
+
+  /**
+   * Creates a new QRCodeError
+   * @param {QRCodeErrorCode} code - Why the code was rejected
+   * @param {string} message - Error message
+   */
+  constructor(code: QRCodeErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const DEVELOPMENT_KEYRING: QRSigningKeyring = {
+  activeKeyId: "dev",
+  keys: {dev: "kitty-fb-development-qr-signing-key"},
+};
+
+let configuredKeyring: QRSigningKeyring | null = null;
+
+/**
+ * Parses a QR_SIGNING_KEYS value into a keyring
+ *
+ * @param {string} value - Comma separated `keyId:secret` pairs
+ * @param {string} [activeKeyId] - The key to sign with; the first by default
+ * @return {QRSigningKeyring} The parsed keyring
+ * @throws {Error} If a pair is malformed or the active key is not listed
+ *
+ * @example
+ * parseQRSigningKeys("2024b:s3cret,2024a:old-secret");
+ * // {activeKeyId: "2024b", keys: {"2024b": "s3cret", "2024a": "old-secret"}}
+ */
+export function parseQRSigningKeys(
+  value: string,
+  activeKeyId?: string
+): QRSigningKeyring {
+  const keys: Record<string, string> = {};
+  const ids: string[] = [];
+
+  value.split(",").map((pair) => pair.trim()).filter(Boolean)
+    .forEach((pair) => {
+      const separator = pair.indexOf(":");
+      const id = pair.slice(0, separator);
+      const secret = pair.slice(separator + 1);
+      if (separator < 0 || !KEY_ID_PATTERN.test(id) || secret.length < 16) {
+        throw new Error(
+          "Invalid QR_SIGNING_KEYS: use keyId:secret pairs with secrets " +
+          "of at least 16 characters"
+        );
+      }
+      keys[id] = secret;
+      ids.push(id);
+    });
+
+  const active = activeKeyId || ids[0];
+  if (!active || !keys[active]) {
+    throw new Error("Invalid QR_SIGNING_KEY_ID: key is not configured");
+  }
+  return {activeKeyId: active, keys};
+}
+
+/**
+ * Returns the keyring QR codes are signed and verified with
+ *
+ * @return {QRSigningKeyring} The configured keyring
+ * @throws {Error} In production when no keys are configured
+ */
+export function getQRSigningKeyring(): QRSigningKeyring {
+  if (configuredKeyring) {
+    return configuredKeyring;
+  }
+  const value = process.env.QR_SIGNING_KEYS;
+  if (value) {
+    return parseQRSigningKeys(value, process.env.QR_SIGNING_KEY_ID);
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("QR code signing is not configured");
+  }
+  return DEVELOPMENT_KEYRING;
+}
+
+/**
+ * Replaces the keyring read from the environment
+ *
+ * Intended for tests. Call resetQRSigningKeyring to restore the default.
+ *
+ * @param {QRSigningKeyring} keyring - The keyring to use
+ */
+export function setQRSigningKeyring(keyring: QRSigningKeyring): void {
+  configuredKeyring = keyring;
+}
+
+/**
+ * Restores the keyring read from the environment
+ */
+export function resetQRSigningKeyring(): void {
+  configuredKeyring = null;
+}
+
+/**
+ * Generates a random nonce for a single-use QR code
+ *
+ * @return {string} A 128-bit base64url nonce
+ */
+export function generateQRNonce(): string {
+  return randomBytes(16).toString("base64url");
+}
+
+/**
+ * Computes the signature of a token's payload and key ID parts
+ *
+ * @param {string} signedPart - `<payload>.<key ID>`
+ * @param {string} secret - The signing secret
+ * @return {Buffer} The HMAC-SHA256 digest
+ */
+function sign(signedPart: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(signedPart).digest();
+}
+
+/**
+ * Signs a QR payload with the keyring's active key
+ *
+ * @param {QRPayload} payload - The payload to sign
+ * @param {QRSigningKeyring} keyring - The signing keys
+ * @return {string} The token to encode in the QR code
+ *
+ * @example
+ * signQRPayload(
+ *   {type: "consumption", groupId: "group123", version: "2.0",
+ *     timestamp: Date.now()},
+ *   getQRSigningKeyring()
+ * );
+ * // "eyJ0eXBlIjoi...In0.2024b.Qm9v..."
+ */
+export function signQRPayload(
+  payload: QRPayload,
+  keyring: QRSigningKeyring
+): string {
+  const keyId = keyring.activeKeyId;
+  const signedPart = [
+    Buffer.from(JSON.stringify(payload)).toString("base64url"),
+    keyId,
+  ].join(".");
+  const signature = sign(signedPart, keyring.keys[keyId]);
+  return `${signedPart}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Verifies a scanned QR token and returns its payload
+ *
+ * Single-use nonces are not checked here; the caller must record them.
+ *
+ * @param {string} token - The scanned QR content
+ * @param {QRSigningKeyring} keyring - The verification keys
+ * @param {number} [now] - Current time in milliseconds
+ * @return {QRPayload} The verified payload
+ * @throws {QRCodeError} QR_INVALID_FORMAT, QR_UNKNOWN_KEY,
+ * QR_SIGNATURE_INVALID or QR_EXPIRED
+ */
+export function verifyQRPayload(
+  token: string,
+  keyring: QRSigningKeyring,
+  now = Date.now()
+): QRPayload {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) {
+    throw new QRCodeError("QR_INVALID_FORMAT", "Invalid QR code format");
+  }
+  const [encodedPayload, keyId, encodedSignature] = parts;
+
+  if (!Object.prototype.hasOwnProperty.call(keyring.keys, keyId)) {
+    throw new QRCodeError(
+      "QR_UNKNOWN_KEY",
+      "Invalid QR code: signed with an unknown key"
+    );
+  }
+
+  const expected = sign(`${encodedPayload}.${keyId}`, keyring.keys[keyId]);
+  const actual = Buffer.from(encodedSignature, "base64url");
+  if (actual.length !== expected.length ||
+    !timingSafeEqual(actual, expected)) {
+    throw new QRCodeError(
+      "QR_SIGNATURE_INVALID",
+      "Invalid QR code: signature does not match"
+    );
+  }
+
+  let payload: QRPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    );
+  } catch (error) {
+    throw new QRCodeError("QR_INVALID_FORMAT", "Invalid QR code format");
+  }
+  if (!payload || typeof payload.groupId !== "string" || !payload.groupId) {
+    throw new QRCodeError(
+      "QR_INVALID_FORMAT",
+      "Invalid QR code: missing group ID"
+    );
+  }
+
+  if (payload.expiresAt !== undefined && payload.expiresAt <= now) {
+    throw new QRCodeError("QR_EXPIRED", "QR code has expired");
+  }
+  return payload;
+}
@@ -0,0 +1,56 @@
+import {AsyncLocalStorage} from "async_hooks";
+
+/**
+ * REQUEST CONTEXT
+ *
+ * This file carries per-request details (the request ID and the
+ * authenticated caller) through async calls, so the service layer can
+ * attribute audit log entries without every function taking the actor
+ * and request ID as parameters. Outside a request, for example in tests
+ * or scripts, there is no context and callers get null.
+ */
+
+/**
+ * Details of the request being handled
+ */
+export interface RequestContext {
+  requestId: string;
+  actorId: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function with the given request context
+ *
+ * @param {RequestContext} context - The context for the request
+ * @param {Function} fn - The function to run
+ * @return {T} The function's return value
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the context of the request being handled
+ *
+ * @return {RequestContext | null} The context, or null outside a request
+ */
+export function getRequestContext(): RequestContext | null {
+  return storage.getStore() || null;
+}
+
+/**
+ * Records the authenticated caller on the current request context
+ *
+ * @param {string} actorId - The caller's user ID
+ */
+export function setRequestActor(actorId: string): void {
+  const context = storage.getStore();
+  if (context) {
+    context.actorId = actorId;
+  }
+}
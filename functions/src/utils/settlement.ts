@@ -0,0 +1,170 @@
+/**
+ * SETTLE-UP
+ *
+ * This file contains the pure settle-up planning used by the settlement
+ * endpoints. Member balances are negative when the member owes the group
+ * and positive when the group owes the member. The kitty takes the other
+ * side of every balance: it is owed whatever the members owe in total,
+ * less whatever the group owes members.
+ *
+ * Payments are planned greedily: balances that cancel exactly are paired
+ * first, then the largest debt is repeatedly matched with the largest
+ * credit. Every payment clears at least one party, so a plan never needs
+ * more payments than there are parties minus one. Amounts are handled in
+ * whole cents to avoid rounding drift.
+ */
+
+/**
+ * A member's current balance in a group
+ */
+export interface SettlementBalance {
+  userId: string;
+  balance: number; // negative for debt, positive for credit
+}
+
+/**
+ * A payment in a settle-up plan; a null user ID stands for the kitty
+ */
+export interface SettlementPayment {
+  fromUserId: string | null;
+  toUserId: string | null;
+  amount: number;
+}
+
+/**
+ * The payments that settle a group, and any credit they cannot cover
+ */
+export interface SettlementPlan {
+  payments: SettlementPayment[];
+  unsettled: Array<{userId: string; amount: number}>; // credit left owing
+}
+
+/**
+ * A party to the settlement and the cents it still has to pay or receive
+ */
+interface Party {
+  userId: string | null;
+  cents: number;
+}
+
+/**
+ * Converts a money amount to whole cents
+ *
+ * @param {number} amount - The amount
+ * @return {number} The amount in cents
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Orders parties largest amount first, then by user ID with the kitty
+ * last, so plans are deterministic
+ *
+ * @param {Party} a - First party
+ * @param {Party} b - Second party
+ * @return {number} Sort order
+ */
+function byLargestAmount(a: Party, b: Party): number {
+  if (b.cents !== a.cents) {
+    return b.cents - a.cents;
+  }
+  if (a.userId === null || b.userId === null) {
+    return a.userId === null ? 1 : -1;
+  }
+  return a.userId.localeCompare(b.userId);
+}
+
+/**
+ * Plans the payments that bring every member balance to zero
+ *
+ * Members in debt pay the kitty, or pay members the group owes money
+ * directly. When the group owes members more than members owe, the kitty
+ * pays out the difference, up to the funds it holds; credit it cannot
+ * cover is reported as unsettled.
+ *
+ * @param {SettlementBalance[]} balances - Current member balances
+ * @param {number} kittyBalance - Funds currently in the kitty
+ * @return {SettlementPlan} The payments to make and any unsettled credit
+ *
+ * @example
+ * planSettlement(
+ *   [{userId: "alice", balance: -10}, {userId: "bob", balance: 4}],
+ *   0
+ * );
+ * // {payments: [
+ * //   {fromUserId: "alice", toUserId: null, amount: 6},
+ * //   {fromUserId: "alice", toUserId: "bob", amount: 4},
+ * // ], unsettled: []}
+ */
+export function planSettlement(
+  balances: SettlementBalance[],
+  kittyBalance: number
+): SettlementPlan {
+  const debtors: Party[] = [];
+  const creditors: Party[] = [];
+  let kittyCents = 0;
+
+  balances.forEach(({userId, balance}) => {
+    const cents = toCents(balance);
+    if (cents < 0) {
+      debtors.push({userId, cents: -cents});
+    } else if (cents > 0) {
+      creditors.push({userId, cents});
+    }
+    kittyCents -= cents;
+  });
+
+  if (kittyCents > 0) {
+    creditors.push({userId: null, cents: kittyCents});
+  } else if (kittyCents < 0) {
+    // The kitty can only pay out what it holds
+    const payout = Math.min(-kittyCents, Math.max(0, toCents(kittyBalance)));
+    if (payout > 0) {
+      debtors.push({userId: null, cents: payout});
+    }
+  }
+
+  const payments: SettlementPayment[] = [];
+  const pay = (debtor: Party, creditor: Party, cents: number) => {
+    payments.push({
+      fromUserId: debtor.userId,
+      toUserId: creditor.userId,
+      amount: cents / 100,
+    });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+  };
+
+  // Pair balances that cancel exactly, as each needs only one payment
+  debtors.sort(byLargestAmount);
+  creditors.sort(byLargestAmount);
+  debtors.forEach((debtor) => {
+    const creditor = creditors.find((party) => party.cents === debtor.cents);
+    if (creditor && debtor.cents > 0) {
+      pay(debtor, creditor, debtor.cents);
+    }
+  });
+
+  // Match the largest remaining debt with the largest remaining credit
+  for (;;) {
+    const debtor = debtors.filter((party) => party.cents > 0)
+      .sort(byLargestAmount)[0];
+    const creditor = creditors.filter((party) => party.cents > 0)
+      .sort(byLargestAmount)[0];
+    if (!debtor || !creditor) {
+      break;
+    }
+    pay(debtor, creditor, Math.min(debtor.cents, creditor.cents));
+  }
+
+  return {
+    payments,
+    unsettled: creditors
+      .filter((party) => party.userId !== null && party.cents > 0)
+      .map((party) => ({
+        userId: party.userId as string,
+        amount: party.cents / 100,
+      })),
+  };
+}
@@ -1,4 +1,5 @@
 import * as admin from "firebase-admin";
+import {GroupRole, resolveMemberRole} from "./permissions";
 
 /**
  * VALIDATION UTILITIES
@@ -191,71 +192,33 @@ export async function validateUserNotInGroup(
 }
 
 /**
- * Validates that a group has exactly one admin
+ * Gets a user's role in a group
  *
- * This function ensures that the admin flag logic is maintained:
- * - Only one admin per group
- * - Every group must have an admin
+ * This function is used by the authorization middleware to decide
+ * whether the caller may access a group-scoped route.
  *
+ * @param {string} userId - The user ID
  * @param {string} groupId - The group ID
- * @param {boolean} isAdmin - Whether the user being added should be admin
- * @throws {Error} "Group already has an admin" if trying to add a second admin
- * @throws {Error} "Group must have an admin" if removing the only admin
- *
- * @example
- * // When adding a user as admin
- * await validateSingleAdmin("group456", true);
- *
- * // When adding a user as non-admin
- * await validateSingleAdmin("group456", false);
- */
-export async function validateSingleAdmin(
-  groupId: string,
-  isAdmin: boolean
-): Promise<void> {
-  const db = admin.firestore();
-  const groupRef = db.collection("groups").doc(groupId);
-  const membersSnapshot = await groupRef.collection("members").get();
-
-  const adminMembers = membersSnapshot.docs.filter(
-    (doc) => doc.data().isAdmin === true
-  );
-
-  if (isAdmin && adminMembers.length > 0) {
-    throw new Error("Group already has an admin");
-  }
-
-  if (!isAdmin && adminMembers.length === 0) {
-    throw new Error("Group must have an admin");
-  }
-}
-
-/**
- * Validates that a user is a group admin
- *
- * This function ensures that a user is both a member of the group
- * and has admin privileges. It's used for operations that require
- * admin permissions like approving join requests or updating
- * balances.
- *
- * @param {string} userId - The user ID to validate
- * @param {string} groupId - The group ID to validate
- * @throws {Error} "User is not a member of this group" if user is not a member
- * @throws {Error} "Only group admins can perform this action" if user is
- * not admin
+ * @return {Promise<GroupRole | null>} The user's role, or null if the
+ * user is not a member of the group
  *
  * @example
- * // Before approving a join request
- * await validateUserIsGroupAdmin("admin123", "group456");
+ * const role = await getGroupMemberRole("user123", "group456");
+ * if (role === "owner") {
+ *   console.log("User owns this group");
+ * }
  */
-export async function validateUserIsGroupAdmin(
+export async function getGroupMemberRole(
   userId: string,
   groupId: string
-): Promise<void> {
-  const {groupMemberRef} = await validateUserGroupMembership(userId, groupId);
-  const memberData = (await groupMemberRef.get()).data();
+): Promise<GroupRole | null> {
+  const db = admin.firestore();
+  const groupMemberDoc = await db.collection("groups").doc(groupId)
+    .collection("members").doc(userId).get();
 
-  if (!memberData?.isAdmin) {
-    throw new Error("Only group admins can perform this action");
+  if (!groupMemberDoc.exists) {
+    return null;
   }
+
+  return resolveMemberRole(groupMemberDoc.data());
 }